@@ -0,0 +1,259 @@
+import {
+  SceneDSL,
+  ObjectConfig,
+  Vector3Array,
+  AnimationConfig,
+  AnimationAxis,
+  KeyframeAnimation,
+  KeyframeTrack,
+  SpinAnimation,
+  BobAnimation,
+  OrbitAnimation
+} from './types/dsl.js';
+import { codeNumber, codeNumbers, colorLiteral, jsString } from './codeLiterals.js';
+
+/**
+ * Scene object an animation is attached to
+ */
+export interface AnimationTarget {
+  /** Variable holding the THREE.Object3D */
+  varName: string;
+  position: Vector3Array;
+  rotation: Vector3Array;
+  /** Expression of the THREE.Color animated by color tracks, if the target has one */
+  colorExpr?: string;
+  /** Statement appended to every update, e.g. re-aiming the camera */
+  afterUpdate?: string;
+}
+
+const AXIS_INDEX: Record<AnimationAxis, number> = { x: 0, y: 1, z: 2 };
+
+/**
+ * Generates per-frame animation code driven by a THREE.Clock
+ *
+ * Every animation becomes an update function pushed onto the `animations`
+ * array; the animate loop calls each with the elapsed time in seconds.
+ */
+export class AnimationGenerator {
+  /**
+   * Check whether the camera, any light or any (nested) object is animated
+   */
+  hasAnimations(dsl: SceneDSL): boolean {
+    const animated = (obj: ObjectConfig): boolean =>
+      !!obj.animations?.length
+      || (obj.type === 'group' && obj.children.some(animated))
+      || (obj.type === 'repeat' && animated(obj.object));
+
+    return !!dsl.camera.animations?.length
+      || dsl.lights.some(light => !!light.animations?.length)
+      || dsl.objects.some(animated);
+  }
+
+  /**
+   * Generate the clock, easing functions and keyframe sampler
+   */
+  generateRuntime(): string {
+    return `// Animation runtime
+const clock = new THREE.Clock();
+const animations = [];
+
+${this.generateHelpers()}`;
+  }
+
+  /**
+   * Generate the easing functions and keyframe sampler update functions call
+   */
+  generateHelpers(): string {
+    return `const easings = {
+  linear: (u) => u,
+  easeIn: (u) => u * u,
+  easeOut: (u) => u * (2 - u),
+  easeInOut: (u) => (u < 0.5 ? 2 * u * u : -1 + (4 - 2 * u) * u),
+  step: (u) => (u < 1 ? 0 : 1)
+};
+
+function loopTime(t, duration, loop) {
+  if (duration <= 0) return 0;
+  if (loop === 'once') return Math.min(t, duration);
+  if (loop === 'pingpong') {
+    const cycle = t % (2 * duration);
+    return cycle > duration ? 2 * duration - cycle : cycle;
+  }
+  return t % duration;
+}
+
+function sampleKeyframes(keyframes, t, easing) {
+  if (t <= keyframes[0].time) return keyframes[0].value;
+  for (let i = 1; i < keyframes.length; i++) {
+    const next = keyframes[i];
+    if (t <= next.time) {
+      const prev = keyframes[i - 1];
+      const span = next.time - prev.time;
+      const u = easings[easing](span > 0 ? (t - prev.time) / span : 1);
+      return prev.value.map((v, j) => v + (next.value[j] - v) * u);
+    }
+  }
+  return keyframes[keyframes.length - 1].value;
+}`;
+  }
+
+  /**
+   * Generate update functions for all animations of a target
+   */
+  generateAnimations(target: AnimationTarget, animations: AnimationConfig[] | undefined): string {
+    if (!animations?.length) return '';
+
+    return animations
+      .map((animation, index) => this.generateAnimation(target, animation, index))
+      .filter(code => code !== '')
+      .join('\n');
+  }
+
+  /**
+   * Generate a single update function, preceded by any constant data it samples
+   */
+  private generateAnimation(target: AnimationTarget, animation: AnimationConfig, index: number): string {
+    const setup: string[] = [];
+    let body: string[];
+
+    switch (animation.type) {
+      case 'keyframes':
+        body = this.generateKeyframes(target, animation, `${target.varName}Animation${index}`, setup);
+        break;
+      case 'spin':
+        body = this.generateSpin(target, animation);
+        break;
+      case 'bob':
+        body = this.generateBob(target, animation);
+        break;
+      case 'orbit':
+        body = this.generateOrbit(target, animation);
+        break;
+      default:
+        return '';
+    }
+
+    if (body.length === 0) return '';
+    if (target.afterUpdate) body.push(target.afterUpdate);
+
+    return [
+      ...setup,
+      `animations.push((elapsed) => {
+${body.map(line => `  ${line}`).join('\n')}
+});`
+    ].join('\n');
+  }
+
+  /**
+   * Sample every track at the looped time; keyframe lists are hoisted
+   * into constants so they are built once rather than every frame
+   */
+  private generateKeyframes(
+    target: AnimationTarget,
+    animation: KeyframeAnimation,
+    prefix: string,
+    setup: string[]
+  ): string[] {
+    const tracks = animation.tracks.filter(track =>
+      track.keyframes.length > 0 && (track.property !== 'color' || target.colorExpr)
+    );
+    if (tracks.length === 0) return [];
+
+    const lastTime = Math.max(...tracks.map(track => track.keyframes[track.keyframes.length - 1].time));
+    const duration = animation.duration ?? lastTime;
+    const loop = animation.loop || 'repeat';
+
+    const body = [`const t = loopTime(elapsed, ${codeNumber(duration, `${prefix}.duration`)}, ${jsString(loop)});`];
+    tracks.forEach((track, index) => {
+      const keyframesVar = `${prefix}Track${index}`;
+      setup.push(`const ${keyframesVar} = ${this.keyframeList(track)};`);
+      body.push(`${this.trackTarget(target, track)}.fromArray(sampleKeyframes(${keyframesVar}, t, ${jsString(track.easing || 'linear')}));`);
+    });
+
+    return body;
+  }
+
+  /**
+   * Expression of the vector or color a track writes to
+   */
+  private trackTarget(target: AnimationTarget, track: KeyframeTrack): string {
+    if (track.property === 'color') return target.colorExpr!;
+    if (!['position', 'rotation', 'scale'].includes(track.property)) {
+      throw new Error(`Cannot generate code: unknown keyframe track property ${JSON.stringify(track.property)}`);
+    }
+    return `${target.varName}.${track.property}`;
+  }
+
+  /**
+   * Emit keyframes sorted by time with array values; colors go through
+   * THREE.Color so they are interpolated in linear space
+   */
+  private keyframeList(track: KeyframeTrack): string {
+    const keyframes = [...track.keyframes].sort((a, b) => a.time - b.time);
+    const items = keyframes.map(keyframe => {
+      const value = typeof keyframe.value === 'string'
+        ? `new THREE.Color(${colorLiteral(keyframe.value, 'keyframe color')}).toArray()`
+        : `[${codeNumbers(keyframe.value, 'keyframe value')}]`;
+      return `{ time: ${codeNumber(keyframe.time, 'keyframe time')}, value: ${value} }`;
+    });
+
+    return `[${items.join(', ')}]`;
+  }
+
+  /**
+   * Rotate around a local axis from the initial rotation
+   */
+  private generateSpin(target: AnimationTarget, animation: SpinAnimation): string[] {
+    const axis = this.axis(animation.axis);
+    const speed = codeNumber(animation.speed ?? 1, 'spin speed');
+    const base = codeNumber(target.rotation[AXIS_INDEX[axis]], `${target.varName}.rotation`);
+
+    return [`${target.varName}.rotation.${axis} = ${base} + elapsed * ${speed};`];
+  }
+
+  /**
+   * Oscillate around the initial position
+   */
+  private generateBob(target: AnimationTarget, animation: BobAnimation): string[] {
+    const axis = this.axis(animation.axis);
+    const amplitude = codeNumber(animation.amplitude ?? 0.5, 'bob amplitude');
+    const angularFrequency = codeNumber(2 * Math.PI * (animation.frequency ?? 0.5), 'bob frequency');
+    const base = codeNumber(target.position[AXIS_INDEX[axis]], `${target.varName}.position`);
+
+    return [`${target.varName}.position.${axis} = ${base} + Math.sin(elapsed * ${angularFrequency}) * ${amplitude};`];
+  }
+
+  /**
+   * Circle the center in the plane perpendicular to the axis,
+   * starting at the initial position's angle
+   */
+  private generateOrbit(target: AnimationTarget, animation: OrbitAnimation): string[] {
+    const center = animation.center || [0, 0, 0];
+    const axis = this.axis(animation.axis);
+    const speed = codeNumber(animation.speed ?? 0.5, 'orbit speed');
+
+    // Plane axes ordered so positive speed is counter-clockwise seen from +axis
+    const [u, v]: AnimationAxis[] = axis === 'y' ? ['z', 'x'] : axis === 'x' ? ['y', 'z'] : ['x', 'y'];
+    const du = target.position[AXIS_INDEX[u]] - center[AXIS_INDEX[u]];
+    const dv = target.position[AXIS_INDEX[v]] - center[AXIS_INDEX[v]];
+    const radius = codeNumber(animation.radius ?? (Math.hypot(du, dv) || 1), 'orbit radius');
+    const startAngle = Math.atan2(dv, du);
+
+    return [
+      `const angle = ${codeNumber(startAngle, 'orbit start angle')} + elapsed * ${speed};`,
+      `${target.varName}.position.${u} = ${codeNumber(center[AXIS_INDEX[u]], 'orbit center')} + Math.cos(angle) * ${radius};`,
+      `${target.varName}.position.${v} = ${codeNumber(center[AXIS_INDEX[v]], 'orbit center')} + Math.sin(angle) * ${radius};`
+    ];
+  }
+
+  /**
+   * Resolve an animation axis, defaulting to y
+   */
+  private axis(value: AnimationAxis | undefined): AnimationAxis {
+    const axis = value || 'y';
+    if (!(axis in AXIS_INDEX)) {
+      throw new Error(`Cannot generate code: unknown animation axis ${JSON.stringify(axis)}`);
+    }
+    return axis;
+  }
+}
@@ -0,0 +1,194 @@
+import { accessSync, constants, copyFileSync, mkdirSync, readFileSync } from 'fs';
+import { basename, dirname, extname, isAbsolute, join, normalize, resolve } from 'path';
+import { ObjectConfig, SceneDSL } from './types/dsl.js';
+
+/**
+ * MIME types of loadable model files
+ */
+export const MODEL_MIME_TYPES: Record<string, string> = {
+  '.glb': 'model/gltf-binary',
+  '.gltf': 'model/gltf+json',
+  '.obj': 'model/obj'
+};
+
+const RESOURCE_MIME_TYPES: Record<string, string> = {
+  '.bin': 'application/octet-stream',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.ktx2': 'image/ktx2'
+};
+
+/** Folder, relative to the exported HTML, that copied models go in */
+export const ASSET_FOLDER = 'assets';
+
+/**
+ * Model files referenced by a scene, each listed once in scene order
+ */
+export function modelFiles(dsl: SceneDSL): string[] {
+  const files: string[] = [];
+  const collect = (obj: ObjectConfig): void => {
+    if (obj.type === 'group') {
+      obj.children.forEach(collect);
+    } else if (obj.type === 'repeat') {
+      collect(obj.object);
+    } else if (obj.type === 'model' && !files.includes(obj.file)) {
+      files.push(obj.file);
+    }
+  };
+  dsl.objects.forEach(collect);
+  return files;
+}
+
+/**
+ * Check that an asset file exists and is readable, and for .gltf files
+ * that every external buffer and image it references is too
+ *
+ * @returns a description of the problem, or null when the asset is usable
+ */
+export function checkAssetFile(file: string, assetDir: string = process.cwd()): string | null {
+  const path = resolve(assetDir, file);
+  try {
+    accessSync(path, constants.R_OK);
+  } catch {
+    return `File not found or not readable: ${path}`;
+  }
+
+  if (extname(file).toLowerCase() !== '.gltf') return null;
+
+  let uris: string[];
+  try {
+    uris = gltfResourceURIs(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    return `Invalid glTF file ${path}: ${error instanceof Error ? error.message : String(error)}`;
+  }
+  for (const uri of uris) {
+    const problem = resourceProblem(uri);
+    if (problem) return `${path} references ${uri}: ${problem}`;
+
+    try {
+      accessSync(resolve(dirname(path), decodeResourceURI(uri)), constants.R_OK);
+    } catch {
+      return `${path} references ${uri}, which is missing or not readable`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Load a model as a single data URI, with the external buffers and images
+ * of a .gltf file inlined into it
+ *
+ * @throws Error when the file or one of its resources cannot be read
+ */
+export function modelDataURI(file: string, assetDir: string = process.cwd()): string {
+  const path = resolve(assetDir, file);
+  const extension = extname(file).toLowerCase();
+  const mimeType = MODEL_MIME_TYPES[extension];
+  if (!mimeType) {
+    throw new Error(`Unsupported model type: ${file}`);
+  }
+
+  let bytes: Buffer;
+  try {
+    bytes = readFileSync(path);
+  } catch (error) {
+    throw new Error(`Cannot read model ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (extension === '.gltf') {
+    const gltf = JSON.parse(bytes.toString('utf-8'));
+    for (const resource of [...(gltf.buffers || []), ...(gltf.images || [])]) {
+      if (typeof resource.uri === 'string' && !resource.uri.startsWith('data:')) {
+        const resourcePath = resolve(dirname(path), decodeResourceURI(resource.uri));
+        const resourceType = RESOURCE_MIME_TYPES[extname(resource.uri).toLowerCase()] || 'application/octet-stream';
+        resource.uri = `data:${resourceType};base64,${readFileSync(resourcePath).toString('base64')}`;
+      }
+    }
+    bytes = Buffer.from(JSON.stringify(gltf), 'utf-8');
+  }
+
+  return `data:${mimeType};base64,${bytes.toString('base64')}`;
+}
+
+/**
+ * URL, relative to the exported HTML, a model is copied to by copyModelAssets.
+ * Each model gets its own folder so .gltf resources keep their relative paths.
+ */
+export function modelAssetURL(index: number, file: string): string {
+  return `${ASSET_FOLDER}/${index}/${encodeURIComponent(basename(file))}`;
+}
+
+/**
+ * Copy every model the scene references, with the resources of .gltf
+ * files, into the output folder at the URLs from modelAssetURL
+ *
+ * @returns the paths written
+ */
+export function copyModelAssets(dsl: SceneDSL, outputDir: string, assetDir: string = process.cwd()): string[] {
+  const written: string[] = [];
+
+  const copy = (source: string, target: string) => {
+    mkdirSync(dirname(target), { recursive: true });
+    copyFileSync(source, target);
+    written.push(target);
+  };
+
+  modelFiles(dsl).forEach((file, index) => {
+    const source = resolve(assetDir, file);
+    const folder = join(outputDir, ASSET_FOLDER, String(index));
+    copy(source, join(folder, basename(file)));
+
+    if (extname(file).toLowerCase() === '.gltf') {
+      for (const uri of gltfResourceURIs(readFileSync(source, 'utf-8'))) {
+        const relative = decodeResourceURI(uri);
+        copy(resolve(dirname(source), relative), join(folder, relative));
+      }
+    }
+  });
+
+  return written;
+}
+
+/**
+ * External (non data:) buffer and image URIs of a glTF JSON document
+ */
+function gltfResourceURIs(json: string): string[] {
+  const gltf = JSON.parse(json);
+  return [...(gltf.buffers || []), ...(gltf.images || [])]
+    .map(resource => resource?.uri)
+    .filter((uri): uri is string => typeof uri === 'string' && !uri.startsWith('data:'));
+}
+
+/**
+ * Resources must stay next to the .gltf so they can be bundled with it
+ */
+function resourceProblem(uri: string): string | null {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(uri)) {
+    return 'only relative paths can be bundled';
+  }
+  let relative: string;
+  try {
+    relative = normalize(decodeResourceURI(uri));
+  } catch {
+    return 'invalid URI, its percent-encoding is malformed';
+  }
+  if (isAbsolute(relative) || relative.startsWith('..')) {
+    return 'resources must be in the same folder as the .gltf file or below it';
+  }
+  return null;
+}
+
+/**
+ * File path of a percent-encoded glTF resource URI
+ *
+ * @throws Error when the percent-encoding is malformed
+ */
+function decodeResourceURI(uri: string): string {
+  try {
+    return decodeURIComponent(uri);
+  } catch {
+    throw new Error(`Invalid resource URI ${uri}: malformed percent-encoding`);
+  }
+}
@@ -0,0 +1,321 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { OpenAIService, DSLRepairError } from './openaiService.js';
+import { DSLParser } from './dslParser.js';
+import { SceneDSL, ValidationIssue } from './types/dsl.js';
+
+/**
+ * One scene to generate
+ */
+export interface BatchPrompt {
+  prompt: string;
+  /** Label for logs and file names, e.g. "Solar system" */
+  name?: string;
+}
+
+export interface BatchGeneratorOptions {
+  /** How many scenes to generate at once (default 2) */
+  concurrency?: number;
+  /** How many times to retry a scene after a 429 or 5xx error (default 3) */
+  maxRetries?: number;
+  /** Delay before the first retry; doubles on each one (default 1000 ms) */
+  retryDelayMs?: number;
+  /** Upper bound on the delay between retries (default 30000 ms) */
+  maxRetryDelayMs?: number;
+  /** Directory generated scenes are cached in; no caching when left out */
+  cacheDir?: string;
+  /**
+   * Called as each scene finishes, in completion order, e.g. to write it
+   * out; an error it throws is recorded as that prompt's failure
+   */
+  onResult?: (result: BatchResult) => void;
+  /** Called before waiting to retry a scene */
+  onRetry?: (item: BatchPrompt, error: unknown, delayMs: number) => void;
+}
+
+/**
+ * Outcome of one prompt of a batch
+ */
+export type BatchResult = BatchPrompt & {
+  /** Position of the prompt in the batch */
+  index: number;
+  /** Time spent on the prompt, including retries */
+  durationMs: number;
+  /** Retries after rate limits and server errors */
+  retries: number;
+} & (
+  | {
+    /** generated by the model, or read from the cache */
+    status: 'generated' | 'cached';
+    dsl: SceneDSL;
+    attempts: number;
+    warnings: ValidationIssue[];
+  }
+  | { status: 'failed'; error: string; issues: ValidationIssue[] }
+);
+
+/**
+ * Outcome of a whole batch
+ */
+export interface BatchReport {
+  /** One result per prompt, in prompt order */
+  results: BatchResult[];
+  generated: number;
+  cached: number;
+  failed: number;
+  /** Retries across all prompts */
+  retries: number;
+  /** Wall-clock time of the whole run */
+  durationMs: number;
+  /** Mean time of the scenes the model generated, 0 when there were none */
+  meanMs: number;
+  /** The generated scene that took longest, if any */
+  slowest: { index: number; durationMs: number } | null;
+}
+
+/**
+ * Scene cached on disk, keyed by a hash of what produced it
+ */
+interface CacheEntry {
+  version: 1;
+  prompt: string;
+  model: string;
+  dsl: SceneDSL;
+  attempts: number;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+/**
+ * Generates many scenes with an OpenAIService
+ *
+ * Prompts run a few at a time. Rate limits (429) and server errors (5xx)
+ * are retried with exponential backoff and full jitter; any other error
+ * fails only its own prompt. With a cache directory, every scene is saved
+ * under a hash of its prompt, the model and the system prompt, so running
+ * the same batch again only generates the scenes that are missing.
+ */
+export class BatchGenerator {
+  private service: OpenAIService;
+  private parser: DSLParser;
+  private options: BatchGeneratorOptions;
+
+  constructor(service: OpenAIService, options: BatchGeneratorOptions = {}) {
+    const concurrency = options.concurrency ?? 2;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Cannot run batch: concurrency must be a whole number of at least 1, got ${concurrency}`);
+    }
+
+    this.service = service;
+    this.parser = new DSLParser();
+    this.options = options;
+  }
+
+  /**
+   * Generate a scene for every prompt. Never rejects because of a single
+   * prompt; failures are reported in the results.
+   */
+  async run(prompts: BatchPrompt[]): Promise<BatchReport> {
+    const started = Date.now();
+    const results: BatchResult[] = [];
+    let next = 0;
+
+    const worker = async () => {
+      while (next < prompts.length) {
+        const index = next++;
+        let result = await this.generate(prompts[index], index);
+        try {
+          this.options.onResult?.(result);
+        } catch (error) {
+          result = this.failed(prompts[index], index, result.durationMs, result.retries, error);
+        }
+        results[index] = result;
+      }
+    };
+    const workers = Math.min(this.options.concurrency ?? 2, prompts.length);
+    await Promise.all(Array.from({ length: workers }, worker));
+
+    const generated = results.filter(result => result.status === 'generated');
+    const slowest = generated.reduce<BatchResult | null>((max, result) => !max || result.durationMs > max.durationMs ? result : max, null);
+    return {
+      results,
+      generated: generated.length,
+      cached: results.filter(result => result.status === 'cached').length,
+      failed: results.filter(result => result.status === 'failed').length,
+      retries: results.reduce((sum, result) => sum + result.retries, 0),
+      durationMs: Date.now() - started,
+      meanMs: generated.length > 0 ? Math.round(generated.reduce((sum, result) => sum + result.durationMs, 0) / generated.length) : 0,
+      slowest: slowest && { index: slowest.index, durationMs: slowest.durationMs }
+    };
+  }
+
+  /**
+   * One prompt: from the cache, or generated with retries
+   */
+  private async generate(item: BatchPrompt, index: number): Promise<BatchResult> {
+    const started = Date.now();
+    const cachePath = this.cachePath(item.prompt);
+    const { maxRetries = 3 } = this.options;
+    let retries = 0;
+
+    const cached = cachePath ? this.readCache(cachePath) : null;
+    if (cached) {
+      return { ...item, index, durationMs: Date.now() - started, retries, status: 'cached', ...cached };
+    }
+
+    for (;;) {
+      try {
+        const { dsl, attempts, warnings } = await this.service.generateDSLWithReport(item.prompt);
+        if (cachePath) this.writeCache(cachePath, item.prompt, dsl, attempts);
+        return { ...item, index, durationMs: Date.now() - started, retries, status: 'generated', dsl, attempts, warnings };
+      } catch (error) {
+        if (retries < maxRetries && isRetryable(error)) {
+          const delay = this.retryDelay(retries++);
+          this.options.onRetry?.(item, error, delay);
+          await new Promise(resolveDelay => setTimeout(resolveDelay, delay));
+          continue;
+        }
+        return this.failed(item, index, Date.now() - started, retries, error);
+      }
+    }
+  }
+
+  /**
+   * Result of a prompt that failed with an error
+   */
+  private failed(item: BatchPrompt, index: number, durationMs: number, retries: number, error: unknown): BatchResult {
+    return {
+      ...item,
+      index,
+      durationMs,
+      retries,
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      issues: error instanceof DSLRepairError ? error.issues : []
+    };
+  }
+
+  /**
+   * Full jitter: a random delay up to the exponential backoff for the retry
+   */
+  private retryDelay(retry: number): number {
+    const { retryDelayMs = 1000, maxRetryDelayMs = 30000 } = this.options;
+    return Math.round(Math.random() * Math.min(maxRetryDelayMs, retryDelayMs * 2 ** retry));
+  }
+
+  /**
+   * Cache file of a prompt, keyed by everything the response depends on
+   */
+  private cachePath(prompt: string): string | null {
+    const { cacheDir } = this.options;
+    if (!cacheDir) return null;
+
+    const key = createHash('sha256')
+      .update(JSON.stringify([prompt, this.service.model, this.service.buildSystemPrompt()]))
+      .digest('hex');
+    return join(cacheDir, `${key}.json`);
+  }
+
+  /**
+   * A cached scene, or null when there is none or it no longer validates
+   */
+  private readCache(path: string): { dsl: SceneDSL; attempts: number; warnings: ValidationIssue[] } | null {
+    if (!existsSync(path)) return null;
+    try {
+      const entry = JSON.parse(readFileSync(path, 'utf-8')) as CacheEntry;
+      const { dsl, issues } = this.parser.parseObject(entry.dsl);
+      return { dsl, attempts: entry.attempts, warnings: issues };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Save a generated scene to its cachePath; written aside and renamed so
+   * an interrupted run never leaves half a file behind. The temporary name
+   * is unique per call, as the same prompt may be generated twice at once.
+   */
+  private writeCache(path: string, prompt: string, dsl: SceneDSL, attempts: number): void {
+    const entry: CacheEntry = { version: 1, prompt, model: this.service.model, dsl, attempts, createdAt: new Date().toISOString() };
+    const temporary = `${path}.${randomUUID()}.tmp`;
+    try {
+      mkdirSync(dirname(path), { recursive: true });
+      writeFileSync(temporary, JSON.stringify(entry, null, 2));
+      renameSync(temporary, path);
+    } catch {
+      // The scene is still good; it is just generated again next time
+    }
+  }
+}
+
+/**
+ * Read a prompt list: a JSON array of prompts or { name, prompt } objects,
+ * or else one prompt per line, skipping blank lines and # comments
+ */
+export function parsePromptList(source: string): BatchPrompt[] {
+  if (!source.trimStart().startsWith('[')) {
+    return source.split(/\r?\n/)
+      .map(line => line.trim())
+      .filter(line => line !== '' && !line.startsWith('#'))
+      .map(prompt => ({ prompt }));
+  }
+
+  const entries: unknown = JSON.parse(source);
+  if (!Array.isArray(entries)) {
+    throw new Error('Cannot read prompts: expected a JSON array');
+  }
+  return entries.map((entry, i) => {
+    if (typeof entry === 'string' && entry.trim() !== '') {
+      return { prompt: entry.trim() };
+    }
+    const { name, prompt } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof prompt !== 'string' || prompt.trim() === '' || (name !== undefined && typeof name !== 'string')) {
+      throw new Error(`Cannot read prompts: entry ${i} must be a prompt or { "name": string, "prompt": string }`);
+    }
+    return name === undefined ? { prompt: prompt.trim() } : { name, prompt: prompt.trim() };
+  });
+}
+
+/**
+ * Short label of a prompt for logs: its name, or the start of the prompt
+ */
+export function batchLabel(item: BatchPrompt): string {
+  if (item.name) return item.name;
+  return item.prompt.length > 48 ? `${item.prompt.slice(0, 47)}…` : item.prompt;
+}
+
+/**
+ * Human-readable summary of a batch: counts, timings and what failed
+ */
+export function formatBatchReport(report: BatchReport): string {
+  const seconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+  const lines = [
+    `${report.failed > 0 ? '⚠️ ' : '✅'} ${report.generated} generated, ${report.cached} cached, ${report.failed} failed in ${seconds(report.durationMs)}` +
+      (report.retries > 0 ? ` (${report.retries} retries)` : '')
+  ];
+
+  if (report.slowest) {
+    const slowest = report.results[report.slowest.index];
+    lines.push(`⏱️  ${seconds(report.meanMs)} per generated scene, slowest ${seconds(report.slowest.durationMs)} (${batchLabel(slowest)})`);
+  }
+  for (const result of report.results) {
+    if (result.status === 'failed') {
+      lines.push(`❌ ${batchLabel(result)}: ${result.error}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Whether an error, or an error it wraps, is an HTTP 429 or 5xx response
+ */
+function isRetryable(error: unknown): boolean {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    const status = (current as { status?: unknown }).status;
+    if (typeof status === 'number') {
+      return status === 429 || (status >= 500 && status < 600);
+    }
+  }
+  return false;
+}
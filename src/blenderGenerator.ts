@@ -0,0 +1,565 @@
+import { resolve } from 'path';
+import { SceneDSL, ObjectConfig, MeshConfig, GroupConfig, ModelConfig, LightConfig, MaterialConfig, Vector3Array } from './types/dsl.js';
+import { colorToLinearRGB } from './colors.js';
+import { codeNumber } from './codeLiterals.js';
+import { geometrySpec } from './geometry.js';
+import { tessellate } from './tessellator.js';
+import { objectPositions, resolvePoint } from './sceneIds.js';
+import { expandRepeat } from './layouts.js';
+
+export interface BlenderGeneratorOptions {
+  /** Directory model file paths are resolved against (default: the working directory) */
+  assetDir?: string;
+}
+
+/**
+ * Generates Blender Python (bpy) scripts from DSL
+ *
+ * The DSL follows Three.js conventions (Y-up, vertical FOV in degrees,
+ * sRGB hex colors). The emitted script converts these to Blender's
+ * Z-up axes, focal length and linear color space.
+ */
+export class BlenderGenerator {
+  /**
+   * Sensor height in millimetres used for the FOV to focal length conversion
+   */
+  private static readonly SENSOR_HEIGHT = 24;
+
+  private assetDir: string;
+
+  constructor(options: BlenderGeneratorOptions = {}) {
+    this.assetDir = options.assetDir || process.cwd();
+  }
+
+  /**
+   * Generate complete Blender Python script
+   */
+  generateScript(dsl: SceneDSL): string {
+    const header = this.generateHeader();
+    const world = this.generateWorld(dsl);
+    const camera = this.generateCamera(dsl);
+    const lights = this.generateLights(dsl);
+    const objects = this.generateObjects(dsl);
+
+    return `${header}
+
+${world}
+
+${camera}
+
+${lights}
+
+${objects}
+`;
+  }
+
+  /**
+   * Generate imports, scene reset and conversion helpers
+   */
+  private generateHeader(): string {
+    return `import bpy
+import bmesh
+import math
+from mathutils import Euler, Matrix, Vector
+
+# Start from an empty scene
+bpy.ops.wm.read_factory_settings(use_empty=True)
+scene = bpy.context.scene
+
+# Three.js is Y-up, Blender is Z-up: (x, y, z) -> (x, -z, y)
+AXIS_CONVERSION = Matrix(((1, 0, 0), (0, 0, -1), (0, 1, 0)))
+
+
+def to_blender_location(x, y, z):
+    return Vector((x, -z, y))
+
+
+def to_blender_rotation(x, y, z):
+    # Three.js 'XYZ' is Rx @ Ry @ Rz, which Blender calls 'ZYX' (its 'XYZ' is Rz @ Ry @ Rx)
+    matrix = AXIS_CONVERSION @ Euler((x, y, z), 'ZYX').to_matrix() @ AXIS_CONVERSION.transposed()
+    return matrix.to_euler('XYZ')
+
+
+def to_blender_scale(x, y, z):
+    return Vector((x, z, y))
+
+
+def look_at(obj, target):
+    direction = target - obj.location
+    if direction.length > 0:
+        obj.rotation_euler = direction.to_track_quat('-Z', 'Y').to_euler()
+
+
+def set_input(node, names, value):
+    # Socket names differ between Blender versions (e.g. 'Emission' vs 'Emission Color')
+    for name in names:
+        if name in node.inputs:
+            node.inputs[name].default_value = value
+            return
+
+
+def add_mesh_object(name, vertices, faces):
+    # Geometry without a matching Blender primitive, from Three.js triangles
+    mesh = bpy.data.meshes.new(name)
+    mesh.from_pydata([to_blender_location(*vertex) for vertex in vertices], [], faces)
+    bm = bmesh.new()
+    bm.from_mesh(mesh)
+    bmesh.ops.remove_doubles(bm, verts=bm.verts, dist=1e-6)
+    bm.to_mesh(mesh)
+    bm.free()
+    obj = bpy.data.objects.new(name, mesh)
+    scene.collection.objects.link(obj)
+    bpy.context.view_layer.objects.active = obj
+    return obj
+
+
+def import_model(name, path):
+    # The imported hierarchy goes under an empty that carries the DSL transform
+    before = set(bpy.data.objects)
+    if path.lower().endswith('.obj'):
+        bpy.ops.wm.obj_import(filepath=path)
+    else:
+        bpy.ops.import_scene.gltf(filepath=path)
+    imported = set(bpy.data.objects) - before
+    root = bpy.data.objects.new(name, None)
+    scene.collection.objects.link(root)
+    for obj in imported:
+        if obj.parent is None:
+            obj.parent = root
+    return root`;
+  }
+
+  /**
+   * Generate world shader: background color for camera rays, ambient light for everything else
+   */
+  private generateWorld(dsl: SceneDSL): string {
+    const background = this.toLinearRGBA(dsl.background || '#000000');
+    const ambient = dsl.lights.filter(light => light.type === 'ambient');
+
+    // Three.js ambient irradiance shades a diffuse surface by color * intensity / PI,
+    // a uniform Blender world of strength S by color * S
+    const ambientColor = ambient.length > 0 ? this.toLinearRGBA(ambient[0].color) : [0, 0, 0, 1];
+    const ambientStrength = ambient.reduce((sum, light) => sum + light.intensity, 0) / Math.PI;
+
+    return `# World
+world = bpy.data.worlds.new('World')
+scene.world = world
+world.use_nodes = True
+nodes = world.node_tree.nodes
+links = world.node_tree.links
+nodes.clear()
+output = nodes.new('ShaderNodeOutputWorld')
+background = nodes.new('ShaderNodeBackground')
+background.inputs['Color'].default_value = (${this.args(background)})
+background.inputs['Strength'].default_value = 1.0
+ambient = nodes.new('ShaderNodeBackground')
+ambient.inputs['Color'].default_value = (${this.args(ambientColor)})
+ambient.inputs['Strength'].default_value = ${this.num(ambientStrength)}
+light_path = nodes.new('ShaderNodeLightPath')
+mix = nodes.new('ShaderNodeMixShader')
+links.new(light_path.outputs['Is Camera Ray'], mix.inputs['Fac'])
+links.new(ambient.outputs['Background'], mix.inputs[1])
+links.new(background.outputs['Background'], mix.inputs[2])
+links.new(mix.outputs['Shader'], output.inputs['Surface'])`;
+  }
+
+  /**
+   * Generate camera code
+   */
+  private generateCamera(dsl: SceneDSL): string {
+    const { position, fov = 75 } = dsl.camera;
+    const lookAt = resolvePoint(dsl.camera.lookAt, objectPositions(dsl));
+    const focalLength = BlenderGenerator.SENSOR_HEIGHT / (2 * Math.tan((fov * Math.PI) / 360));
+
+    return `# Create camera
+camera_data = bpy.data.cameras.new('Camera')
+camera_data.sensor_fit = 'VERTICAL'
+camera_data.sensor_height = ${BlenderGenerator.SENSOR_HEIGHT}
+camera_data.lens = ${this.num(focalLength)}  # vertical FOV ${this.num(fov)} degrees
+camera_data.clip_start = 0.1
+camera_data.clip_end = 1000
+camera = bpy.data.objects.new(${this.str(dsl.camera.name ?? dsl.camera.id ?? 'Camera')}, camera_data)
+scene.collection.objects.link(camera)
+camera.location = to_blender_location(${this.args(position)})
+look_at(camera, to_blender_location(${this.args(lookAt)}))
+scene.camera = camera`;
+  }
+
+  /**
+   * Generate lights code
+   */
+  private generateLights(dsl: SceneDSL): string {
+    const positions = objectPositions(dsl);
+    const lightsCode = dsl.lights
+      .map((light, index) => this.generateLight(light, index, positions))
+      .filter(code => code !== '')
+      .join('\n\n');
+
+    return `# Add lights\n${lightsCode}`;
+  }
+
+  /**
+   * Generate a single light
+   *
+   * Power is scaled so a diffuse surface receives the same irradiance as
+   * with Three.js physically based lights (candela for point/spot, lux for directional).
+   */
+  private generateLight(light: LightConfig, index: number, positions: Map<string, Vector3Array>): string {
+    const varName = `${light.type}_light${index}`;
+    const name = this.str(light.name ?? light.id ?? varName);
+    const color = this.toLinearRGBA(light.color).slice(0, 3);
+    const target = resolvePoint(light.target || [0, 0, 0], positions);
+    // Blender lights cast shadows unless told otherwise; Three.js lights only when asked
+    const shadow = `${varName}_data.use_shadow = ${light.castShadow ? 'True' : 'False'}`;
+
+    switch (light.type) {
+      case 'ambient':
+        // Folded into the world shader
+        return '';
+
+      case 'directional':
+        const dirPos = light.position || [5, 10, 7.5];
+        return `${varName}_data = bpy.data.lights.new(${name}, type='SUN')
+${varName}_data.color = (${this.args(color)})
+${varName}_data.energy = ${this.num(light.intensity)}
+${shadow}
+${varName} = bpy.data.objects.new(${name}, ${varName}_data)
+scene.collection.objects.link(${varName})
+${varName}.location = to_blender_location(${this.args(dirPos)})
+look_at(${varName}, to_blender_location(${this.args(target)}))`;
+
+      case 'point':
+        const pointPos = light.position || [0, 5, 0];
+        return `${varName}_data = bpy.data.lights.new(${name}, type='POINT')
+${varName}_data.color = (${this.args(color)})
+${varName}_data.energy = ${this.num(light.intensity * 4 * Math.PI)}
+${shadow}
+${varName} = bpy.data.objects.new(${name}, ${varName}_data)
+scene.collection.objects.link(${varName})
+${varName}.location = to_blender_location(${this.args(pointPos)})`;
+
+      case 'spot':
+        const spotPos = light.position || [0, 10, 0];
+        return `${varName}_data = bpy.data.lights.new(${name}, type='SPOT')
+${varName}_data.color = (${this.args(color)})
+${varName}_data.energy = ${this.num(light.intensity * 4 * Math.PI)}
+${shadow}
+${varName}_data.spot_size = math.pi * 2 / 3
+${varName}_data.spot_blend = 0.0
+${varName} = bpy.data.objects.new(${name}, ${varName}_data)
+scene.collection.objects.link(${varName})
+${varName}.location = to_blender_location(${this.args(spotPos)})
+look_at(${varName}, to_blender_location(${this.args(target)}))`;
+
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * Generate objects code
+   */
+  private generateObjects(dsl: SceneDSL): string {
+    const counters = { mesh: 0, group: 0, model: 0 };
+    const objectsCode = dsl.objects.map(obj =>
+      this.generateNode(obj, null, counters)
+    ).join('\n\n');
+
+    return `# Add objects\n${objectsCode}`;
+  }
+
+  /**
+   * Generate a mesh or group, parented to the given empty if any; repeats
+   * become a group of copies
+   */
+  private generateNode(obj: ObjectConfig, parent: string | null, counters: { mesh: number; group: number; model: number }): string {
+    if (obj.type === 'group') {
+      return this.generateGroup(obj, counters.group++, parent, counters);
+    }
+    if (obj.type === 'model') {
+      return this.generateModel(obj, counters.model++, parent);
+    }
+    if (obj.type === 'repeat') {
+      return this.generateNode(expandRepeat(obj), parent, counters);
+    }
+    return this.generateObject(obj, counters.mesh++, parent);
+  }
+
+  /**
+   * Generate an empty whose children keep their transforms relative to it
+   */
+  private generateGroup(
+    group: GroupConfig,
+    index: number,
+    parent: string | null,
+    counters: { mesh: number; group: number; model: number }
+  ): string {
+    const varName = `group${index}`;
+    const rotation = group.rotation || [0, 0, 0];
+    const scale = group.scale || [1, 1, 1];
+
+    const lines = [
+      `${varName} = bpy.data.objects.new(${this.str(group.name ?? group.id ?? varName)}, None)`,
+      `${varName}.empty_display_type = 'PLAIN_AXES'`,
+      `scene.collection.objects.link(${varName})`,
+      `${varName}.location = to_blender_location(${this.args(group.position)})`,
+      `${varName}.rotation_euler = to_blender_rotation(${this.args(rotation)})`,
+      `${varName}.scale = to_blender_scale(${this.args(scale)})`
+    ];
+    if (parent) {
+      lines.push(`${varName}.parent = ${parent}`);
+    }
+
+    const children = group.children.map(child =>
+      this.generateNode(child, varName, counters)
+    );
+
+    return [lines.join('\n'), ...children].join('\n\n');
+  }
+
+  /**
+   * Import a model file with Blender's glTF or OBJ importer
+   */
+  private generateModel(model: ModelConfig, index: number, parent: string | null): string {
+    const varName = `model${index}`;
+    const rotation = model.rotation || [0, 0, 0];
+    const scale = model.scale || [1, 1, 1];
+
+    const lines = [
+      `${varName} = import_model(${this.str(model.name ?? model.id ?? varName)}, ${this.str(resolve(this.assetDir, model.file))})`,
+      `${varName}.location = to_blender_location(${this.args(model.position)})`,
+      `${varName}.rotation_euler = to_blender_rotation(${this.args(rotation)})`,
+      `${varName}.scale = to_blender_scale(${this.args(scale)})`
+    ];
+    if (parent) {
+      lines.push(`${varName}.parent = ${parent}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate a single object
+   */
+  private generateObject(obj: MeshConfig, index: number, parent: string | null = null): string {
+    const material = this.generateMaterial(obj.material, index);
+    const varName = `mesh${index}`;
+
+    const rotation = obj.rotation || [0, 0, 0];
+    const scale = obj.scale || [1, 1, 1];
+
+    const lines = [
+      ...this.generateMesh(obj, varName),
+      `${varName}.name = ${this.str(obj.name ?? obj.id ?? `${obj.type}${index}`)}`,
+      `${varName}.location = to_blender_location(${this.args(obj.position)})`,
+      `${varName}.rotation_euler = to_blender_rotation(${this.args(rotation)})`,
+      `${varName}.scale = to_blender_scale(${this.args(scale)})`,
+      material,
+      `${varName}.data.materials.append(material${index})`
+    ];
+
+    if (obj.material.wireframe) {
+      lines.push(`${varName}.modifiers.new('Wireframe', type='WIREFRAME')`);
+    }
+    if (!(obj.castShadow ?? !obj.ground)) {
+      lines.push(`${varName}.visible_shadow = False`);
+    }
+    if (parent) {
+      lines.push(`${varName}.parent = ${parent}`);
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Create the mesh object: a bpy.ops primitive baked to the Three.js
+   * dimensions, or the tessellated triangles when Blender has no equivalent
+   */
+  private generateMesh(obj: MeshConfig, varName: string): string[] {
+    const primitive = this.generatePrimitive(obj);
+    if (primitive) {
+      return [primitive, `${varName} = bpy.context.active_object`, ...this.generateMeshTransform(obj, varName)];
+    }
+
+    const data = tessellate(obj);
+    const vertices: string[] = [];
+    for (let i = 0; i < data.positions.length; i += 3) {
+      vertices.push(`(${this.args(data.positions.slice(i, i + 3))})`);
+    }
+    const faces: string[] = [];
+    for (let i = 0; i < data.indices.length; i += 3) {
+      faces.push(`(${data.indices.slice(i, i + 3).join(', ')})`);
+    }
+    return [`${varName} = add_mesh_object(${this.str(obj.type)}, [${vertices.join(', ')}], [${faces.join(', ')}])`];
+  }
+
+  /**
+   * The bpy.ops primitive matching the Three.js geometry, or null when its
+   * parameters (partial sweeps, extra segments) have no Blender equivalent
+   */
+  private generatePrimitive(obj: MeshConfig): string | null {
+    const spec = geometrySpec(obj);
+    const args = spec.kind === 'primitive' ? spec.args : [];
+    const fullTurn = (value: unknown) => value === Math.PI * 2;
+
+    switch (obj.type) {
+      case 'cube':
+        if (args.slice(3).every(value => value === 1)) {
+          return `bpy.ops.mesh.primitive_cube_add(size=1)`;
+        }
+        break;
+
+      case 'sphere':
+        const [radius, widthSegments, heightSegments, , phiLength, thetaStart, thetaLength] = args;
+        if (fullTurn(phiLength) && thetaStart === 0 && thetaLength === Math.PI) {
+          return `bpy.ops.mesh.primitive_uv_sphere_add(radius=${this.num(radius as number)}, segments=${this.num(widthSegments as number)}, ring_count=${this.num(heightSegments as number)})`;
+        }
+        break;
+
+      case 'plane':
+        if (args[2] === 1 && args[3] === 1) {
+          return `bpy.ops.mesh.primitive_plane_add(size=1)`;
+        }
+        break;
+
+      case 'cylinder':
+      case 'cone':
+        // Three.js cones are cylinders with a zero top radius
+        const [top, bottom, height, radialSegments, heightSegments2, openEnded, , thetaLength2] =
+          obj.type === 'cone' ? [0, ...args] : args;
+        if (heightSegments2 === 1 && fullTurn(thetaLength2)) {
+          const fill = openEnded ? `, end_fill_type='NOTHING'` : '';
+          return top === bottom
+            ? `bpy.ops.mesh.primitive_cylinder_add(radius=${this.num(top as number)}, depth=${this.num(height as number)}, vertices=${this.num(radialSegments as number)}${fill})`
+            : `bpy.ops.mesh.primitive_cone_add(radius1=${this.num(bottom as number)}, radius2=${this.num(top as number)}, depth=${this.num(height as number)}, vertices=${this.num(radialSegments as number)}${fill})`;
+        }
+        break;
+
+      case 'torus':
+        const [torusR, tube, torusRadial, tubular, arc] = args;
+        if (fullTurn(arc)) {
+          return `bpy.ops.mesh.primitive_torus_add(major_radius=${this.num(torusR as number)}, minor_radius=${this.num(tube as number)}, major_segments=${this.num(tubular as number)}, minor_segments=${this.num(torusRadial as number)})`;
+        }
+        break;
+    }
+
+    return null;
+  }
+
+  /**
+   * Bake dimensions and orientation into mesh data so it matches the Three.js
+   * geometry in the object's local frame. Cylinder and cone are already
+   * aligned with the local up axis; plane and torus are built in the local
+   * XY plane in Three.js and need rotating to face the converted +Z axis.
+   */
+  private generateMeshTransform(obj: MeshConfig, varName: string): string[] {
+    switch (obj.type) {
+      case 'cube':
+        return [`${varName}.data.transform(Matrix.Diagonal((${this.args([obj.width || 1, obj.depth || 1, obj.height || 1])}, 1)))`];
+
+      case 'plane':
+        return [
+          `${varName}.data.transform(Matrix.Diagonal((${this.args([obj.width || 10, obj.height || 10])}, 1, 1)))`,
+          `${varName}.data.transform(Matrix.Rotation(math.pi / 2, 4, 'X'))`
+        ];
+
+      case 'torus':
+        return [`${varName}.data.transform(Matrix.Rotation(math.pi / 2, 4, 'X'))`];
+
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Generate a Principled BSDF material
+   */
+  private generateMaterial(material: MaterialConfig, index: number): string {
+    const varName = `material${index}`;
+    const color = this.toLinearRGBA(material.color);
+
+    const lines = [
+      `${varName} = bpy.data.materials.new('${varName}')`,
+      `${varName}.use_nodes = True`,
+      `bsdf = ${varName}.node_tree.nodes['Principled BSDF']`
+    ];
+
+    switch (material.type) {
+      case 'basic':
+        // Unlit: render the color as emission only
+        lines.push(
+          `set_input(bsdf, ['Base Color'], (0, 0, 0, 1))`,
+          `set_input(bsdf, ['Emission Color', 'Emission'], (${this.args(color)}))`,
+          `set_input(bsdf, ['Emission Strength'], 1.0)`
+        );
+        break;
+
+      case 'phong':
+      case 'lambert':
+        // Non-PBR materials have no metalness; lambert is fully diffuse
+        lines.push(
+          `set_input(bsdf, ['Base Color'], (${this.args(color)}))`,
+          `set_input(bsdf, ['Metallic'], 0.0)`,
+          `set_input(bsdf, ['Roughness'], ${material.type === 'lambert' ? '1.0' : '0.5'})`
+        );
+        break;
+
+      case 'standard':
+      default:
+        lines.push(
+          `set_input(bsdf, ['Base Color'], (${this.args(color)}))`,
+          `set_input(bsdf, ['Metallic'], ${this.num(material.metalness ?? 0)})`,
+          `set_input(bsdf, ['Roughness'], ${this.num(material.roughness ?? 1)})`
+        );
+        break;
+    }
+
+    if (material.type !== 'basic' && material.emissive !== undefined) {
+      lines.push(
+        `set_input(bsdf, ['Emission Color', 'Emission'], (${this.args(this.toLinearRGBA(material.emissive))}))`,
+        `set_input(bsdf, ['Emission Strength'], ${this.num(material.emissiveIntensity ?? 1)})`
+      );
+    }
+
+    const opacity = material.opacity ?? 1;
+    if (material.transparent || opacity < 1) {
+      // blend_method was superseded by surface_render_method in Blender 4.2
+      lines.push(
+        `set_input(bsdf, ['Alpha'], ${this.num(opacity)})`,
+        `if hasattr(${varName}, 'surface_render_method'):`,
+        `    ${varName}.surface_render_method = 'BLENDED'`,
+        `else:`,
+        `    ${varName}.blend_method = 'BLEND'`
+      );
+    }
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Convert an sRGB hex color to a linear RGBA tuple
+   */
+  private toLinearRGBA(color: string): number[] {
+    return [...colorToLinearRGB(color), 1];
+  }
+
+  /**
+   * Format a list of numbers as Python call arguments or tuple items
+   */
+  private args(values: number[]): string {
+    return values.map(v => this.num(v)).join(', ');
+  }
+
+  /**
+   * Format a number as a Python literal
+   */
+  private num(value: number): string {
+    return codeNumber(Math.round(value * 1e6) / 1e6);
+  }
+
+  /**
+   * Quote a string as a Python literal (JSON string syntax is valid Python)
+   */
+  private str(value: string): string {
+    return JSON.stringify(String(value));
+  }
+}
@@ -0,0 +1,145 @@
+import { ObjectConfig, Vector3Array } from './types/dsl.js';
+import { transformPoint } from './math3d.js';
+import { geometrySpec } from './geometry.js';
+import { tessellate } from './tessellator.js';
+import { expandRepeat } from './layouts.js';
+
+/**
+ * Axis-aligned bounding box
+ */
+export interface Box {
+  min: Vector3Array;
+  max: Vector3Array;
+}
+
+/**
+ * An object and its bounding box in world space
+ */
+export interface WorldBox {
+  obj: ObjectConfig;
+  /** JSON path of the object, e.g. objects[2].children[0] */
+  path: string;
+  box: Box;
+  /** Whether the object is inside a group */
+  nested: boolean;
+}
+
+/**
+ * Measures objects from their geometry parameters, caching the
+ * tessellated vertices of each distinct geometry. Models have no size
+ * until loaded, so they measure as a point at their origin.
+ */
+export class BoundingBoxes {
+  private vertices = new Map<string, number[]>();
+
+  /**
+   * Bounding box of an object in its parent's space, rotated and scaled
+   * but not moved to its position
+   */
+  extent(obj: ObjectConfig): Box {
+    switch (obj.type) {
+      case 'model':
+        return { min: [0, 0, 0], max: [0, 0, 0] };
+
+      case 'repeat':
+        return this.extent(expandRepeat(obj));
+
+      case 'group': {
+        const boxes = obj.children.map(child => translateBox(this.extent(child), child.position || [0, 0, 0]));
+        const local = boxes.length > 0 ? boxes.reduce(unionBoxes) : { min: [0, 0, 0] as Vector3Array, max: [0, 0, 0] as Vector3Array };
+        return transformBox(local, [0, 0, 0], obj.rotation, obj.scale);
+      }
+
+      default: {
+        // The vertices give a tighter box than the corners of the unrotated one
+        const key = JSON.stringify(geometrySpec(obj));
+        let vertices = this.vertices.get(key);
+        if (!vertices) {
+          vertices = tessellate(obj).positions;
+          this.vertices.set(key, vertices);
+        }
+        const points: Vector3Array[] = [];
+        for (let i = 0; i < vertices.length; i += 3) {
+          points.push(transformPoint([vertices[i], vertices[i + 1], vertices[i + 2]], [0, 0, 0], obj.rotation, obj.scale));
+        }
+        return boundingBox(points);
+      }
+    }
+  }
+
+  /**
+   * World-space box of every object, groups and their children included;
+   * the copies inside a repeat are measured together as the repeat
+   */
+  worldBoxes(objects: ObjectConfig[]): WorldBox[] {
+    const boxes: WorldBox[] = [];
+    const visit = (list: ObjectConfig[], path: string, toWorld: (box: Box) => Box, nested: boolean) => {
+      list.forEach((obj, index) => {
+        const objPath = `${path}[${index}]`;
+        boxes.push({ obj, path: objPath, box: toWorld(translateBox(this.extent(obj), obj.position)), nested });
+        if (obj.type === 'group') {
+          visit(obj.children, `${objPath}.children`, box => toWorld(transformBox(box, obj.position, obj.rotation, obj.scale)), true);
+        }
+      });
+    };
+    visit(objects, 'objects', box => box, false);
+    return boxes;
+  }
+}
+
+/**
+ * A box moved by an offset
+ */
+export function translateBox(box: Box, offset: Vector3Array): Box {
+  return {
+    min: [box.min[0] + offset[0], box.min[1] + offset[1], box.min[2] + offset[2]],
+    max: [box.max[0] + offset[0], box.max[1] + offset[1], box.max[2] + offset[2]]
+  };
+}
+
+/**
+ * Smallest box holding both boxes
+ */
+export function unionBoxes(a: Box, b: Box): Box {
+  return {
+    min: [Math.min(a.min[0], b.min[0]), Math.min(a.min[1], b.min[1]), Math.min(a.min[2], b.min[2])],
+    max: [Math.max(a.max[0], b.max[0]), Math.max(a.max[1], b.max[1]), Math.max(a.max[2], b.max[2])]
+  };
+}
+
+/**
+ * Box around the eight corners of a box moved into a parent's space
+ */
+export function transformBox(box: Box, position: Vector3Array, rotation?: Vector3Array, scale?: Vector3Array): Box {
+  return boundingBox(boxCorners(box).map(corner => transformPoint(corner, position, rotation, scale)));
+}
+
+/**
+ * The eight corners of a box
+ */
+export function boxCorners(box: Box): Vector3Array[] {
+  const corners: Vector3Array[] = [];
+  for (const x of [box.min[0], box.max[0]]) {
+    for (const y of [box.min[1], box.max[1]]) {
+      for (const z of [box.min[2], box.max[2]]) {
+        corners.push([x, y, z]);
+      }
+    }
+  }
+  return corners;
+}
+
+/**
+ * Smallest box holding the points, or an empty box at the origin
+ */
+export function boundingBox(points: Vector3Array[]): Box {
+  const min: Vector3Array = [Infinity, Infinity, Infinity];
+  const max: Vector3Array = [-Infinity, -Infinity, -Infinity];
+  for (const point of points) {
+    for (let i = 0; i < 3; i++) {
+      min[i] = Math.min(min[i], point[i]);
+      max[i] = Math.max(max[i], point[i]);
+    }
+  }
+  return points.length > 0 ? { min, max } : { min: [0, 0, 0], max: [0, 0, 0] };
+}
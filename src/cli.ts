@@ -0,0 +1,703 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, dirname, extname, join, resolve } from 'path';
+import { parseArgs } from 'util';
+import { OpenAIService, DSLRepairError, GenerationResult } from './openaiService.js';
+import { SceneSession } from './sceneSession.js';
+import { createProviderFromEnv } from './providers/index.js';
+import { SceneGenerator } from './sceneGenerator.js';
+import { R3FGenerator } from './r3fGenerator.js';
+import { BlenderGenerator } from './blenderGenerator.js';
+import { GLTFExporter } from './gltfExporter.js';
+import { PreviewRenderer } from './previewRenderer.js';
+import { PreviewServer, SceneUpdate } from './previewServer.js';
+import { BatchGenerator, BatchPrompt, batchLabel, formatBatchReport, parsePromptList } from './batchGenerator.js';
+import { DSLParser } from './dslParser.js';
+import { DSLValidationError, formatIssues } from './dslValidator.js';
+import { lintScene } from './sceneLint.js';
+import { SceneDSL, ValidationIssue } from './types/dsl.js';
+
+/**
+ * Process exit codes, so scripts can tell failures apart
+ */
+export const EXIT_CODES = {
+  ok: 0,
+  /** Files could not be read or written, the LLM backend failed, or a batch prompt failed */
+  failure: 1,
+  /** Unknown command or option, or a missing argument */
+  usage: 2,
+  /** The scene, or every answer the model gave, is invalid */
+  invalid: 3,
+  /** lint found problems */
+  lint: 4
+} as const;
+
+export type OutputFormat = 'json' | 'text' | 'js' | 'module' | 'html' | 'r3f' | 'blender' | 'gltf' | 'glb' | 'png';
+
+/**
+ * File extensions that pick each output format when --format is not given
+ */
+const FORMAT_EXTENSIONS: Record<OutputFormat, string[]> = {
+  json: ['.json'],
+  text: ['.scene', '.txt'],
+  js: ['.js'],
+  module: ['.mjs'],
+  html: ['.html', '.htm'],
+  r3f: ['.jsx'],
+  blender: ['.py'],
+  gltf: ['.gltf'],
+  glb: ['.glb'],
+  png: ['.png']
+};
+
+/** Formats written as more than one file or as binary, which need --out */
+const FILE_FORMATS: OutputFormat[] = ['gltf', 'glb', 'png'];
+
+const USAGE = `Usage: scene-gen <command> [options]
+
+Commands:
+  generate [prompt]         Generate a scene from a prompt
+  refine <scene> [prompt]   Change a scene file as a prompt asks
+  validate [scene]          Check a scene file for errors
+  lint [scene]              Validate a scene, then check for what probably looks wrong
+  convert [scene]           Write a scene file in another format
+  render [scene]            Render a scene file to a PNG preview
+  serve <scene>             Preview a scene file in the browser, reloading on every save
+  batch [prompts]           Generate a scene for every prompt in a file, one per line
+                            or a JSON array of prompts or { name, prompt } objects
+
+Prompts and scenes are read from stdin when left out or given as -.
+Scenes may be JSON or the text syntax.
+
+Options:
+  -o, --out <file>          Write the output to a file instead of stdout
+                            (batch: the directory to write to, default output)
+  -f, --format <format>     json, text, js, module, html, r3f, blender, gltf, glb or png
+                            (default: from the --out extension, else json;
+                            convert needs --format or an --out extension)
+  -m, --model <name>        Model to generate with (default: $OPENAI_MODEL)
+      --session <file>      generate: continue the session saved in the file
+      --title <title>       Page title of html output
+      --width <pixels>      Width of png output (default 480)
+      --height <pixels>     Height of png output (default 270)
+      --samples <n>         Samples per pixel side of png output (default 2)
+      --port <port>         serve: port to listen on (default 5173)
+      --host <host>         serve: interface to listen on (default localhost)
+      --concurrency <n>     batch: scenes generated at once (default 2)
+      --retries <n>         batch: retries after rate limits and server errors (default 3)
+      --cache <dir>         batch: where generated scenes are cached (default <out>/.cache)
+      --json                Print a JSON report on stdout instead of text
+  -h, --help                Show this help
+
+Exit codes: 0 ok, 1 failure, 2 usage error, 3 invalid scene, 4 lint problems found`;
+
+const HELP_HINT = 'Run scene-gen --help for usage';
+
+const OPTIONS = {
+  out: { type: 'string', short: 'o' },
+  format: { type: 'string', short: 'f' },
+  model: { type: 'string', short: 'm' },
+  session: { type: 'string' },
+  title: { type: 'string' },
+  width: { type: 'string' },
+  height: { type: 'string' },
+  samples: { type: 'string' },
+  port: { type: 'string' },
+  host: { type: 'string' },
+  concurrency: { type: 'string' },
+  retries: { type: 'string' },
+  cache: { type: 'string' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' }
+} as const;
+
+interface CLIOptions {
+  out?: string;
+  format?: string;
+  model?: string;
+  session?: string;
+  title?: string;
+  width?: string;
+  height?: string;
+  samples?: string;
+  port?: string;
+  host?: string;
+  concurrency?: string;
+  retries?: string;
+  cache?: string;
+  json?: boolean;
+  help?: boolean;
+}
+
+/**
+ * A scene file after parsing and validation
+ */
+interface LoadedScene {
+  dsl: SceneDSL;
+  issues: ValidationIssue[];
+  format: 'json' | 'text';
+  /** Directory the scene's texture and model paths are relative to */
+  assetDir: string;
+}
+
+/**
+ * What a command reports on success, and the exit code it ends with
+ */
+interface CommandResult {
+  report: Record<string, unknown>;
+  /** Human-readable summary for stdout, left out with --json */
+  summary?: string;
+  exitCode?: number;
+}
+
+/**
+ * Error that ends a command with a specific exit code
+ */
+class CLIError extends Error {
+  readonly exitCode: number;
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, exitCode: number, issues: ValidationIssue[] = []) {
+    super(message);
+    this.name = 'CLIError';
+    this.exitCode = exitCode;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Run the command line with the arguments after the script name and
+ * return the exit code. Outputs go to stdout, or to --out; progress and
+ * errors go to stderr. With --json, stdout carries a single JSON report
+ * whether the command succeeded or not.
+ */
+export async function runCLI(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (argv.includes('--json')) {
+      process.stdout.write(JSON.stringify({ ok: false, error: message }, null, 2) + '\n');
+    } else {
+      process.stderr.write(`❌ ${message}\n${HELP_HINT}\n`);
+    }
+    return EXIT_CODES.usage;
+  }
+
+  return new CommandLine(parsed.values).run(parsed.positionals);
+}
+
+/**
+ * Runs one command with the parsed options
+ */
+class CommandLine {
+  private options: CLIOptions;
+  private stdinUsed = false;
+
+  constructor(options: CLIOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Dispatch the command and report its outcome
+   */
+  async run(positionals: string[]): Promise<number> {
+    const [command, ...args] = positionals;
+    if (this.options.help || command === 'help') {
+      process.stdout.write(USAGE + '\n');
+      return EXIT_CODES.ok;
+    }
+
+    try {
+      const result = await this.dispatch(command, args);
+      if (this.options.json) {
+        this.printJSON({ ok: true, command, ...result.report });
+      } else if (result.summary) {
+        process.stdout.write(result.summary + '\n');
+      }
+      return result.exitCode ?? EXIT_CODES.ok;
+    } catch (error) {
+      const exitCode = error instanceof CLIError ? error.exitCode
+        : error instanceof DSLRepairError ? EXIT_CODES.invalid
+        : EXIT_CODES.failure;
+      const message = error instanceof Error ? error.message : String(error);
+      const issues = error instanceof CLIError || error instanceof DSLRepairError ? error.issues : [];
+      const lastResponse = error instanceof DSLRepairError ? error.lastResponse : undefined;
+
+      if (this.options.json) {
+        this.printJSON({ ok: false, command, error: message, ...(issues.length > 0 && { issues }), ...(lastResponse !== undefined && { lastResponse }) });
+      } else {
+        process.stderr.write(`❌ ${message}\n`);
+        if (issues.length > 0 && !(error instanceof DSLRepairError)) process.stderr.write(formatIssues(issues) + '\n');
+        if (lastResponse !== undefined) process.stderr.write(`Last model response:\n${lastResponse}\n`);
+        if (exitCode === EXIT_CODES.usage) process.stderr.write(HELP_HINT + '\n');
+      }
+      return exitCode;
+    }
+  }
+
+  /**
+   * Run the named command
+   */
+  private async dispatch(command: string | undefined, args: string[]): Promise<CommandResult> {
+    switch (command) {
+      case 'generate': return this.generate(args);
+      case 'refine': return this.refine(args);
+      case 'validate': return this.validate(args);
+      case 'lint': return this.lint(args);
+      case 'convert': return this.convert(args);
+      case 'render': return this.render(args);
+      case 'serve': return this.serve(args);
+      case 'batch': return this.batch(args);
+      case undefined: throw new CLIError('No command given', EXIT_CODES.usage);
+      default: throw new CLIError(`Unknown command "${command}"`, EXIT_CODES.usage);
+    }
+  }
+
+  /**
+   * generate [prompt]: a new scene, or the next revision of a session
+   */
+  private async generate(args: string[]): Promise<CommandResult> {
+    const format = this.outputFormat('json');
+    const prompt = await this.readPrompt(args);
+    const assetDir = process.cwd();
+    const service = this.createService(assetDir);
+
+    let result: GenerationResult;
+    const sessionPath = this.options.session;
+    if (sessionPath) {
+      const session = existsSync(sessionPath)
+        ? SceneSession.load(sessionPath, service, { assetDir })
+        : new SceneSession(service, { assetDir });
+      if (session.head) this.log(`📚 Refining revision ${session.head.id} of ${sessionPath}`);
+      this.log('🤖 Generating scene...');
+      const { revision, result: generated } = await session.prompt(prompt);
+      session.save(sessionPath);
+      this.log(`📚 Saved revision ${revision.id} to ${sessionPath}`);
+      result = generated;
+    } else {
+      this.log('🤖 Generating scene...');
+      result = await service.generateDSLWithReport(prompt);
+    }
+
+    return this.generated(result, format, assetDir);
+  }
+
+  /**
+   * refine <scene> [prompt]: the scene changed as the prompt asks, in
+   * the scene's own format unless another is asked for
+   */
+  private async refine(args: string[]): Promise<CommandResult> {
+    const [scenePath, ...words] = args;
+    if (scenePath === undefined) {
+      throw new CLIError('refine needs a scene file', EXIT_CODES.usage);
+    }
+
+    const scene = await this.readScene(scenePath);
+    const format = this.outputFormat(scene.format);
+    const prompt = await this.readPrompt(words);
+    const service = this.createService(scene.assetDir);
+
+    this.log('🤖 Refining scene...');
+    const result = await service.refineDSLWithReport(scene.dsl, prompt);
+    return this.generated(result, format, scene.assetDir);
+  }
+
+  /**
+   * validate [scene]: the scene's warnings, or its errors as a failure
+   */
+  private async validate(args: string[]): Promise<CommandResult> {
+    const scene = await this.readScene(this.single(args, 'validate'));
+    return {
+      report: { issues: scene.issues },
+      summary: [`✅ Valid scene: ${describe(scene.dsl)}`, ...(scene.issues.length > 0 ? [formatIssues(scene.issues)] : [])].join('\n')
+    };
+  }
+
+  /**
+   * lint [scene]: validation warnings and lintScene's findings, failing
+   * when there are any
+   */
+  private async lint(args: string[]): Promise<CommandResult> {
+    const scene = await this.readScene(this.single(args, 'lint'));
+    const width = this.integer('width');
+    const height = this.integer('height');
+    const lint = lintScene(scene.dsl, width && height ? { aspect: width / height } : {});
+    const issues = [...scene.issues, ...lint];
+
+    return {
+      report: { issues },
+      summary: issues.length > 0
+        ? `⚠️  ${issues.length} problem(s) found:\n${formatIssues(issues)}`
+        : `✅ No problems found: ${describe(scene.dsl)}`,
+      exitCode: lint.length > 0 ? EXIT_CODES.lint : EXIT_CODES.ok
+    };
+  }
+
+  /**
+   * convert [scene]: the scene in the format --format or --out asks for
+   */
+  private async convert(args: string[]): Promise<CommandResult> {
+    const format = this.outputFormat(null);
+    const scene = await this.readScene(this.single(args, 'convert'));
+    return { report: { format, ...this.writeOutput(scene.dsl, format, scene.assetDir) } };
+  }
+
+  /**
+   * render [scene]: a PNG preview of the scene
+   */
+  private async render(args: string[]): Promise<CommandResult> {
+    if (this.options.format !== undefined && this.options.format !== 'png') {
+      throw new CLIError('render only writes png; use convert for other formats', EXIT_CODES.usage);
+    }
+    const scene = await this.readScene(this.single(args, 'render'));
+    return { report: { format: 'png', ...this.writeOutput(scene.dsl, 'png', scene.assetDir) } };
+  }
+
+  /**
+   * serve <scene>: preview the scene in the browser until interrupted.
+   * With --json, every rebuild is reported as one line of JSON.
+   */
+  private async serve(args: string[]): Promise<CommandResult> {
+    const scenePath = this.single(args, 'serve');
+    if (scenePath === undefined || scenePath === '-') {
+      throw new CLIError('serve needs a scene file to watch', EXIT_CODES.usage);
+    }
+    if (!existsSync(scenePath)) {
+      throw new CLIError(`Cannot read ${scenePath}: no such file`, EXIT_CODES.failure);
+    }
+
+    const port = this.integer('port', 0);
+    const server = new PreviewServer(scenePath, {
+      port,
+      host: this.options.host,
+      onUpdate: update => this.logUpdate(update)
+    });
+
+    let url: string;
+    try {
+      url = await server.start();
+    } catch (error) {
+      throw new CLIError(`Cannot start the server: ${error instanceof Error ? error.message : String(error)}`, EXIT_CODES.failure);
+    }
+    if (this.options.json) {
+      process.stdout.write(JSON.stringify({ event: 'listening', url }) + '\n');
+    }
+    this.log(`👀 Watching ${scenePath}, preview at ${url} (Ctrl+C to stop)`);
+
+    await new Promise(resolveStop => {
+      process.once('SIGINT', resolveStop);
+      process.once('SIGTERM', resolveStop);
+    });
+    await server.close();
+    return { report: { url } };
+  }
+
+  /**
+   * batch [prompts]: a scene file per prompt in the --out directory,
+   * failing when any prompt failed. Scenes are written as they finish.
+   */
+  private async batch(args: string[]): Promise<CommandResult> {
+    const format = this.options.format === undefined ? 'json' : this.outputFormat(null);
+    const path = this.single(args, 'batch');
+    const outDir = this.options.out ?? 'output';
+    const concurrency = this.integer('concurrency');
+    const maxRetries = this.integer('retries', 0);
+    const source = path === undefined || path === '-' ? await this.readStdin('prompts') : this.readFile(path);
+
+    let prompts: BatchPrompt[];
+    try {
+      prompts = parsePromptList(source);
+    } catch (error) {
+      throw new CLIError(error instanceof Error ? error.message : String(error), EXIT_CODES.failure);
+    }
+    if (prompts.length === 0) {
+      throw new CLIError(`No prompts in ${path ?? 'stdin'}`, EXIT_CODES.usage);
+    }
+
+    const service = this.createService(process.cwd());
+    const digits = String(prompts.length).length;
+    const files: string[][] = [];
+    let done = 0;
+    const generator = new BatchGenerator(service, {
+      concurrency,
+      maxRetries,
+      cacheDir: this.options.cache ?? join(outDir, '.cache'),
+      onRetry: (item, error, delay) => {
+        this.log(`⏳ ${batchLabel(item)}: ${error instanceof Error ? error.message : String(error)}; retrying in ${(delay / 1000).toFixed(1)} s`);
+      },
+      onResult: result => {
+        const progress = `[${++done}/${prompts.length}] ${batchLabel(result)}`;
+        if (result.status === 'failed') {
+          this.log(`❌ ${progress}: ${result.error}`);
+          return;
+        }
+        const stem = `${String(result.index + 1).padStart(digits, '0')}-${slugify(result.name ?? result.prompt)}`;
+        try {
+          files[result.index] = this.writeFiles(this.outputFiles(result.dsl, format, join(outDir, stem + FORMAT_EXTENSIONS[format][0]), process.cwd()));
+        } catch (error) {
+          // Thrown on, so the batch records the prompt as failed
+          this.log(`❌ ${progress}: ${error instanceof Error ? error.message : String(error)}`);
+          throw error;
+        }
+        this.log(`✅ ${progress}: ${describe(result.dsl)}${result.status === 'cached' ? ' (cached)' : ''}`);
+      }
+    });
+
+    this.log(`🤖 Generating ${prompts.length} scene(s)...`);
+    const report = await generator.run(prompts);
+    // The scenes are in the files; the report only says where
+    const results = report.results.map(result => {
+      if (result.status === 'failed') return result;
+      const { dsl, ...rest } = result;
+      return { ...rest, files: files[result.index] };
+    });
+
+    return {
+      report: { format, ...report, results },
+      summary: formatBatchReport(report),
+      exitCode: report.failed > 0 ? EXIT_CODES.failure : EXIT_CODES.ok
+    };
+  }
+
+  /**
+   * Report a rebuild of the served scene
+   */
+  private logUpdate(update: SceneUpdate): void {
+    if (this.options.json) {
+      process.stdout.write(JSON.stringify({ event: update.ok ? 'scene' : 'invalid', ...update }) + '\n');
+    } else if (update.ok) {
+      this.log('✅ Scene built');
+    } else {
+      this.log(`❌ ${update.message}${update.issues.length > 0 ? `\n${formatIssues(update.issues)}` : ''}`);
+    }
+  }
+
+  /**
+   * Write a generated scene and report it with how it was generated
+   */
+  private generated(result: GenerationResult, format: OutputFormat, assetDir: string): CommandResult {
+    const { dsl, attempts, warnings } = result;
+    this.log(`✅ Scene generated${attempts > 1 ? ` after ${attempts} attempts` : ''}: ${describe(dsl)}`);
+    if (warnings.length > 0) this.log(formatIssues(warnings));
+    return { report: { dsl, attempts, warnings, format, ...this.writeOutput(dsl, format, assetDir) } };
+  }
+
+  /**
+   * Write the scene in a format to --out, or to stdout. Returns the files
+   * written, or with --json and no --out the output itself.
+   */
+  private writeOutput(dsl: SceneDSL, format: OutputFormat, assetDir: string): Record<string, unknown> {
+    const out = this.options.out;
+    if (out === undefined) {
+      if (FILE_FORMATS.includes(format)) {
+        throw new CLIError(`${format} output needs a file; pass --out`, EXIT_CODES.usage);
+      }
+      const output = this.outputFiles(dsl, format, 'stdout', assetDir)[0].content as string;
+      if (this.options.json) return { output };
+      process.stdout.write(output.endsWith('\n') ? output : output + '\n');
+      return {};
+    }
+
+    return { files: this.writeFiles(this.outputFiles(dsl, format, out, assetDir)) };
+  }
+
+  /**
+   * Write files, creating their directories, and return their paths
+   */
+  private writeFiles(files: { path: string; content: string | Buffer }[]): string[] {
+    for (const { path, content } of files) {
+      try {
+        mkdirSync(dirname(resolve(path)), { recursive: true });
+        writeFileSync(path, content);
+      } catch (error) {
+        throw new CLIError(`Cannot write ${path}: ${error instanceof Error ? error.message : String(error)}`, EXIT_CODES.failure);
+      }
+      this.log(`💾 Wrote ${path}`);
+    }
+    return files.map(file => file.path);
+  }
+
+  /**
+   * The files a format is written as; glTF puts its buffer next to the document
+   */
+  private outputFiles(dsl: SceneDSL, format: OutputFormat, out: string, assetDir: string): { path: string; content: string | Buffer }[] {
+    const file = (content: string | Buffer) => [{ path: out, content }];
+    const parser = new DSLParser();
+
+    switch (format) {
+      case 'json': return file(parser.stringify(dsl));
+      case 'text': return file(parser.stringifyText(dsl));
+      case 'js': return file(new SceneGenerator({ assetDir }).generateScene(dsl));
+      case 'module': return file(new SceneGenerator({ assetDir }).generateModule(dsl));
+      case 'html': return file(new SceneGenerator({ assetDir }).generateHTML(dsl, this.options.title));
+      case 'r3f': return file(new R3FGenerator({ assetDir }).generateComponent(dsl));
+      case 'blender': return file(new BlenderGenerator({ assetDir }).generateScript(dsl));
+      case 'glb': return file(new GLTFExporter().exportGLB(dsl, { assetDir }));
+      case 'png': return file(new PreviewRenderer().renderPNG(dsl, {
+        width: this.integer('width'),
+        height: this.integer('height'),
+        samples: this.integer('samples')
+      }));
+      case 'gltf': {
+        const binName = `${basename(out, extname(out))}.bin`;
+        const { json, bin } = new GLTFExporter().exportGLTF(dsl, { binName, assetDir });
+        return [
+          { path: out, content: JSON.stringify(json, null, 2) },
+          ...(json.buffers ? [{ path: join(dirname(out), binName), content: bin }] : [])
+        ];
+      }
+    }
+  }
+
+  /**
+   * Format from --format, else from the --out extension, else the fallback
+   * (null when a format must be given)
+   */
+  private outputFormat(fallback: OutputFormat | null): OutputFormat {
+    const { format, out } = this.options;
+    if (format !== undefined) {
+      if (!Object.prototype.hasOwnProperty.call(FORMAT_EXTENSIONS, format)) {
+        throw new CLIError(`Unknown format "${format}", expected one of ${Object.keys(FORMAT_EXTENSIONS).join(', ')}`, EXIT_CODES.usage);
+      }
+      return format as OutputFormat;
+    }
+
+    if (out !== undefined) {
+      const extension = extname(out).toLowerCase();
+      const match = (Object.keys(FORMAT_EXTENSIONS) as OutputFormat[]).find(name => FORMAT_EXTENSIONS[name].includes(extension));
+      if (match) return match;
+      if (!fallback) throw new CLIError(`Cannot tell the format from "${out}"; pass --format`, EXIT_CODES.usage);
+    }
+
+    if (!fallback) throw new CLIError('No output format given; pass --format or --out', EXIT_CODES.usage);
+    return fallback;
+  }
+
+  /**
+   * Read, parse and validate a scene file, or stdin for - or no path
+   */
+  private async readScene(path: string | undefined): Promise<LoadedScene> {
+    const fromStdin = path === undefined || path === '-';
+    const source = fromStdin ? await this.readStdin('scene') : this.readFile(path);
+
+    const assetDir = fromStdin ? process.cwd() : dirname(resolve(path));
+    try {
+      return { ...new DSLParser({ assetDir }).parseSourceWithIssues(source), assetDir };
+    } catch (error) {
+      if (error instanceof DSLValidationError) {
+        throw new CLIError(`Invalid scene${fromStdin ? '' : ` in ${path}`}`, EXIT_CODES.invalid, error.issues);
+      }
+      // JSON and text syntax errors
+      throw new CLIError(error instanceof Error ? error.message : String(error), EXIT_CODES.invalid);
+    }
+  }
+
+  /**
+   * Contents of a text file
+   */
+  private readFile(path: string): string {
+    try {
+      return readFileSync(path, 'utf-8');
+    } catch (error) {
+      throw new CLIError(`Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`, EXIT_CODES.failure);
+    }
+  }
+
+  /**
+   * The prompt from the arguments, or from stdin when there are none or just -
+   */
+  private async readPrompt(words: string[]): Promise<string> {
+    const prompt = words.length === 0 || (words.length === 1 && words[0] === '-')
+      ? await this.readStdin('prompt')
+      : words.join(' ');
+    if (prompt.trim() === '') {
+      throw new CLIError('The prompt is empty', EXIT_CODES.usage);
+    }
+    return prompt.trim();
+  }
+
+  /**
+   * All of stdin, which can only be read once and not from a terminal
+   */
+  private async readStdin(what: string): Promise<string> {
+    if (this.stdinUsed) {
+      throw new CLIError(`Cannot read the ${what} from stdin too; give one of them as an argument`, EXIT_CODES.usage);
+    }
+    if (process.stdin.isTTY) {
+      throw new CLIError(`No ${what} given; pass it as an argument or pipe it on stdin`, EXIT_CODES.usage);
+    }
+
+    this.stdinUsed = true;
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf-8');
+  }
+
+  /**
+   * The one scene path a command takes, if any
+   */
+  private single(args: string[], command: string): string | undefined {
+    if (args.length > 1) {
+      throw new CLIError(`${command} takes one scene file, got ${args.length}`, EXIT_CODES.usage);
+    }
+    return args[0];
+  }
+
+  /**
+   * A whole-number option, undefined when not given
+   */
+  private integer(name: 'width' | 'height' | 'samples' | 'port' | 'concurrency' | 'retries', min: number = 1): number | undefined {
+    const value = this.options[name];
+    if (value === undefined) return undefined;
+    if (!/^\d+$/.test(value) || Number(value) < min) {
+      throw new CLIError(`--${name} must be a whole number of at least ${min}, got "${value}"`, EXIT_CODES.usage);
+    }
+    return Number(value);
+  }
+
+  /**
+   * Service on the backend the environment configures, with --model,
+   * checking asset paths against assetDir
+   */
+  private createService(assetDir: string): OpenAIService {
+    const provider = createProviderFromEnv();
+    if (!provider) {
+      throw new CLIError(
+        'No LLM backend configured: set OPENAI_API_KEY, OPENAI_BASE_URL for an OpenAI-compatible server, or LLM_FIXTURES to replay a fixture file',
+        EXIT_CODES.failure
+      );
+    }
+    return new OpenAIService(undefined, this.options.model ?? (process.env.OPENAI_MODEL || undefined), { provider, assetDir });
+  }
+
+  /**
+   * Progress message on stderr, left out with --json
+   */
+  private log(message: string): void {
+    if (!this.options.json) process.stderr.write(message + '\n');
+  }
+
+  /**
+   * The --json report on stdout
+   */
+  private printJSON(report: Record<string, unknown>): void {
+    process.stdout.write(JSON.stringify(report, null, 2) + '\n');
+  }
+}
+
+/**
+ * Short count of what a scene holds
+ */
+function describe(dsl: SceneDSL): string {
+  return `${dsl.objects.length} object(s), ${dsl.lights.length} light(s)`;
+}
+
+/**
+ * Lowercase words joined by dashes, for file names
+ */
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').slice(0, 40).replace(/^-+|-+$/g, '') || 'scene';
+}
@@ -0,0 +1,68 @@
+import { normalizeColor } from './colors.js';
+
+/**
+ * Helpers for interpolating DSL values into generated source code
+ *
+ * Generators may be handed a DSL that never went through the validator,
+ * so every value is checked or escaped here rather than trusted.
+ */
+
+/**
+ * Quote a string as a JavaScript literal that is also safe inside an
+ * inline <script> element
+ */
+export function jsString(value: string): string {
+  return JSON.stringify(String(value))
+    .replace(/</g, '\\u003c')
+    .replace(/>/g, '\\u003e')
+    .replace(/&/g, '\\u0026')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Format a finite number as a source literal
+ *
+ * @throws Error for NaN, Infinity and non-numbers, which would produce broken code
+ */
+export function codeNumber(value: unknown, label: string = 'value'): string {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`Cannot generate code: ${label} must be a finite number, got ${String(value)}`);
+  }
+  return String(value);
+}
+
+/**
+ * Format a list of finite numbers as comma-separated literals
+ */
+export function codeNumbers(values: unknown[], label: string = 'vector'): string {
+  if (!Array.isArray(values)) {
+    throw new Error(`Cannot generate code: ${label} must be an array of numbers`);
+  }
+  return values.map((value, index) => codeNumber(value, `${label}[${index}]`)).join(', ');
+}
+
+/**
+ * Canonical #rrggbb form of a color, quoted as a string literal
+ *
+ * @throws Error for anything that is not a supported color
+ */
+export function colorLiteral(value: unknown, label: string = 'color'): string {
+  const color = typeof value === 'string' ? normalizeColor(value) : null;
+  if (!color) {
+    throw new Error(`Cannot generate code: ${label} is not a valid color: ${JSON.stringify(value)}`);
+  }
+  return `'${color}'`;
+}
+
+/**
+ * Escape text for HTML element content and attribute values
+ */
+export function escapeHTML(text: string): string {
+  return String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
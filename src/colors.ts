@@ -0,0 +1,228 @@
+/**
+ * RGB triple with channels in 0..1
+ */
+export type RGB = [number, number, number];
+
+/**
+ * CSS named colors, as accepted by THREE.Color
+ */
+const NAMED_COLORS: Record<string, number> = {
+  aliceblue: 0xf0f8ff, antiquewhite: 0xfaebd7, aqua: 0x00ffff, aquamarine: 0x7fffd4, azure: 0xf0ffff,
+  beige: 0xf5f5dc, bisque: 0xffe4c4, black: 0x000000, blanchedalmond: 0xffebcd, blue: 0x0000ff,
+  blueviolet: 0x8a2be2, brown: 0xa52a2a, burlywood: 0xdeb887, cadetblue: 0x5f9ea0,
+  chartreuse: 0x7fff00, chocolate: 0xd2691e, coral: 0xff7f50, cornflowerblue: 0x6495ed,
+  cornsilk: 0xfff8dc, crimson: 0xdc143c, cyan: 0x00ffff, darkblue: 0x00008b, darkcyan: 0x008b8b,
+  darkgoldenrod: 0xb8860b, darkgray: 0xa9a9a9, darkgreen: 0x006400, darkgrey: 0xa9a9a9,
+  darkkhaki: 0xbdb76b, darkmagenta: 0x8b008b, darkolivegreen: 0x556b2f, darkorange: 0xff8c00,
+  darkorchid: 0x9932cc, darkred: 0x8b0000, darksalmon: 0xe9967a, darkseagreen: 0x8fbc8f,
+  darkslateblue: 0x483d8b, darkslategray: 0x2f4f4f, darkslategrey: 0x2f4f4f, darkturquoise: 0x00ced1,
+  darkviolet: 0x9400d3, deeppink: 0xff1493, deepskyblue: 0x00bfff, dimgray: 0x696969,
+  dimgrey: 0x696969, dodgerblue: 0x1e90ff, firebrick: 0xb22222, floralwhite: 0xfffaf0,
+  forestgreen: 0x228b22, fuchsia: 0xff00ff, gainsboro: 0xdcdcdc, ghostwhite: 0xf8f8ff, gold: 0xffd700,
+  goldenrod: 0xdaa520, gray: 0x808080, green: 0x008000, greenyellow: 0xadff2f, grey: 0x808080,
+  honeydew: 0xf0fff0, hotpink: 0xff69b4, indianred: 0xcd5c5c, indigo: 0x4b0082, ivory: 0xfffff0,
+  khaki: 0xf0e68c, lavender: 0xe6e6fa, lavenderblush: 0xfff0f5, lawngreen: 0x7cfc00,
+  lemonchiffon: 0xfffacd, lightblue: 0xadd8e6, lightcoral: 0xf08080, lightcyan: 0xe0ffff,
+  lightgoldenrodyellow: 0xfafad2, lightgray: 0xd3d3d3, lightgreen: 0x90ee90, lightgrey: 0xd3d3d3,
+  lightpink: 0xffb6c1, lightsalmon: 0xffa07a, lightseagreen: 0x20b2aa, lightskyblue: 0x87cefa,
+  lightslategray: 0x778899, lightslategrey: 0x778899, lightsteelblue: 0xb0c4de, lightyellow: 0xffffe0,
+  lime: 0x00ff00, limegreen: 0x32cd32, linen: 0xfaf0e6, magenta: 0xff00ff, maroon: 0x800000,
+  mediumaquamarine: 0x66cdaa, mediumblue: 0x0000cd, mediumorchid: 0xba55d3, mediumpurple: 0x9370db,
+  mediumseagreen: 0x3cb371, mediumslateblue: 0x7b68ee, mediumspringgreen: 0x00fa9a,
+  mediumturquoise: 0x48d1cc, mediumvioletred: 0xc71585, midnightblue: 0x191970, mintcream: 0xf5fffa,
+  mistyrose: 0xffe4e1, moccasin: 0xffe4b5, navajowhite: 0xffdead, navy: 0x000080, oldlace: 0xfdf5e6,
+  olive: 0x808000, olivedrab: 0x6b8e23, orange: 0xffa500, orangered: 0xff4500, orchid: 0xda70d6,
+  palegoldenrod: 0xeee8aa, palegreen: 0x98fb98, paleturquoise: 0xafeeee, palevioletred: 0xdb7093,
+  papayawhip: 0xffefd5, peachpuff: 0xffdab9, peru: 0xcd853f, pink: 0xffc0cb, plum: 0xdda0dd,
+  powderblue: 0xb0e0e6, purple: 0x800080, rebeccapurple: 0x663399, red: 0xff0000, rosybrown: 0xbc8f8f,
+  royalblue: 0x4169e1, saddlebrown: 0x8b4513, salmon: 0xfa8072, sandybrown: 0xf4a460,
+  seagreen: 0x2e8b57, seashell: 0xfff5ee, sienna: 0xa0522d, silver: 0xc0c0c0, skyblue: 0x87ceeb,
+  slateblue: 0x6a5acd, slategray: 0x708090, slategrey: 0x708090, snow: 0xfffafa, springgreen: 0x00ff7f,
+  steelblue: 0x4682b4, tan: 0xd2b48c, teal: 0x008080, thistle: 0xd8bfd8, tomato: 0xff6347,
+  turquoise: 0x40e0d0, violet: 0xee82ee, wheat: 0xf5deb3, white: 0xffffff, whitesmoke: 0xf5f5f5,
+  yellow: 0xffff00, yellowgreen: 0x9acd32
+};
+
+/**
+ * Parse a CSS color string into sRGB channels, or null if unsupported.
+ * Accepts #rgb/#rrggbb hex, named colors, rgb(r, g, b) with 0-255 or
+ * percentage channels, and hsl(h, s%, l%). Alpha is not supported.
+ */
+export function parseColor(color: string): RGB | null {
+  const value = color.trim().toLowerCase();
+
+  if (value.startsWith('#')) {
+    return parseHexColor(value);
+  }
+  if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, value)) {
+    const hex = NAMED_COLORS[value];
+    return [(hex >> 16) & 255, (hex >> 8) & 255, hex & 255].map(c => c / 255) as RGB;
+  }
+
+  const match = value.match(/^(rgb|hsl)\(\s*([^()]*?)\s*\)$/);
+  if (!match) {
+    return null;
+  }
+
+  const args = match[2].split(/\s*,\s*|\s+/);
+  if (args.length !== 3) {
+    return null;
+  }
+
+  return match[1] === 'rgb' ? parseRGBArgs(args) : parseHSLArgs(args);
+}
+
+/**
+ * Parse a #rgb or #rrggbb hex color into sRGB channels, or null if malformed
+ */
+export function parseHexColor(color: string): RGB | null {
+  let hex = color.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    hex = hex.split('').map(c => c + c).join('');
+  }
+  if (!/^[0-9a-f]{6}$/i.test(hex)) {
+    return null;
+  }
+
+  return [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16) / 255) as RGB;
+}
+
+/**
+ * Convert an sRGB channel to linear light
+ */
+export function srgbToLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convert a linear light channel to sRGB
+ */
+export function linearToSRGB(c: number): number {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+}
+
+/**
+ * Canonical lowercase #rrggbb form of a color, or null if unsupported
+ */
+export function normalizeColor(color: string): string | null {
+  const rgb = parseColor(color);
+  if (!rgb) {
+    return null;
+  }
+
+  return formatHexColor(rgb);
+}
+
+/**
+ * Lowercase #rrggbb form of sRGB channels
+ */
+function formatHexColor(rgb: RGB): string {
+  return '#' + rgb.map(c => Math.round(c * 255).toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Move a color by [hue, saturation, lightness] deltas in 0..1, wrapping
+ * the hue and clamping the rest, as canonical #rrggbb. Unsupported colors
+ * are returned unchanged.
+ */
+export function shiftColor(color: string, [dh, ds, dl]: RGB): string {
+  const rgb = parseColor(color);
+  if (!rgb) {
+    return color;
+  }
+
+  const [h, s, l] = rgbToHSL(rgb);
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  return formatHexColor(hslToRGB((((h + dh) % 1) + 1) % 1, clamp(s + ds), clamp(l + dl)));
+}
+
+/**
+ * Parse a color into linear RGB (as Three.js does with color management),
+ * falling back to white for malformed input
+ */
+export function colorToLinearRGB(color: string): RGB {
+  const srgb = parseColor(color) || [1, 1, 1];
+  return srgb.map(srgbToLinear) as RGB;
+}
+
+/**
+ * rgb() channels: all plain 0-255 numbers or all percentages
+ */
+function parseRGBArgs(args: string[]): RGB | null {
+  const percent = args.every(arg => arg.endsWith('%'));
+  if (!percent && args.some(arg => arg.endsWith('%'))) {
+    return null;
+  }
+
+  const scale = percent ? 100 : 255;
+  const channels = args.map(arg => parseUnsigned(percent ? arg.slice(0, -1) : arg));
+  if (channels.some(c => c === null || c > scale)) {
+    return null;
+  }
+
+  return channels.map(c => c! / scale) as RGB;
+}
+
+/**
+ * hsl() channels: hue in degrees, saturation and lightness as percentages
+ */
+function parseHSLArgs([hueArg, saturationArg, lightnessArg]: string[]): RGB | null {
+  const hue = Number(hueArg.replace(/deg$/, ''));
+  if (hueArg === '' || !Number.isFinite(hue) || !saturationArg.endsWith('%') || !lightnessArg.endsWith('%')) {
+    return null;
+  }
+
+  const s = parseUnsigned(saturationArg.slice(0, -1));
+  const l = parseUnsigned(lightnessArg.slice(0, -1));
+  if (s === null || l === null || s > 100 || l > 100) {
+    return null;
+  }
+
+  return hslToRGB((((hue % 360) + 360) % 360) / 360, s / 100, l / 100);
+}
+
+/**
+ * Convert hue, saturation and lightness in 0..1 to sRGB channels
+ */
+function hslToRGB(hue: number, saturation: number, lightness: number): RGB {
+  const q = lightness <= 0.5 ? lightness * (1 + saturation) : lightness + saturation - lightness * saturation;
+  const p = 2 * lightness - q;
+
+  return [hue + 1 / 3, hue, hue - 1 / 3].map(t => hueToRGB(p, q, t)) as RGB;
+}
+
+/**
+ * Convert sRGB channels to hue, saturation and lightness in 0..1
+ */
+function rgbToHSL([r, g, b]: RGB): RGB {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  if (delta === 0) {
+    return [0, 0, lightness];
+  }
+
+  const saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  const hue = max === r ? (g - b) / delta + (g < b ? 6 : 0) : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  return [hue / 6, saturation, lightness];
+}
+
+/**
+ * One RGB channel of an HSL color
+ */
+function hueToRGB(p: number, q: number, t: number): number {
+  if (t < 0) t += 1;
+  if (t > 1) t -= 1;
+  if (t < 1 / 6) return p + (q - p) * 6 * t;
+  if (t < 1 / 2) return q;
+  if (t < 2 / 3) return p + (q - p) * 6 * (2 / 3 - t);
+  return p;
+}
+
+/**
+ * Parse a non-negative decimal number, or null
+ */
+function parseUnsigned(value: string): number | null {
+  return /^(\d+(\.\d*)?|\.\d+)$/.test(value) ? Number(value) : null;
+}
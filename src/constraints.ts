@@ -0,0 +1,279 @@
+import { SceneDSL, ObjectConfig, ConstraintConfig, Axis, ValidationIssue, Vector3Array } from './types/dsl.js';
+import { roundVector } from './math3d.js';
+import { Box, BoundingBoxes, transformBox, translateBox } from './bounds.js';
+
+/** Distance within which two constraints agree on a position */
+const TOLERANCE = 1e-6;
+
+const AXES: Axis[] = ['x', 'y', 'z'];
+const AXIS_INDEX: Record<Axis, number> = { x: 0, y: 1, z: 2 };
+
+type Edge = 'min' | 'center' | 'max';
+
+/**
+ * What one constraint asks of one axis: the object's edge at a value.
+ * Firm requirements must all agree; loose ones (e.g. centering an object
+ * set on top of another) apply when nothing firm sets the axis.
+ */
+interface Requirement {
+  axis: Axis;
+  edge: Edge;
+  value: number;
+  firm: boolean;
+}
+
+/**
+ * Where a constraint target is: the sibling holding it and the child
+ * indices leading from that sibling down to it
+ */
+interface Location {
+  sibling: number;
+  children: number[];
+}
+
+/**
+ * Fill in the position of every object with constraints, from the
+ * bounding boxes of its geometry and of its targets. Groups are solved
+ * from the inside out, since where a group's children sit does not
+ * depend on where the group is, and siblings in dependency order.
+ *
+ * Returns the solved scene and the constraints that could not be met:
+ * conflicts, cycles, targets outside the group and objects that do not
+ * fit inside their target.
+ */
+export function solveConstraints(dsl: SceneDSL): { dsl: SceneDSL; issues: ValidationIssue[] } {
+  const solver = new ConstraintSolver();
+  const objects = solver.solveList(dsl.objects, 'objects');
+  return { dsl: { ...dsl, objects }, issues: solver.issues };
+}
+
+/**
+ * Solves one list of siblings at a time
+ */
+class ConstraintSolver {
+  issues: ValidationIssue[] = [];
+  private boxes = new BoundingBoxes();
+
+  /**
+   * Solve the children of every group in the list, then the list itself
+   */
+  solveList(objects: ObjectConfig[], path: string): ObjectConfig[] {
+    const solved = objects.map((obj, index) => obj.type === 'group'
+      ? { ...obj, children: this.solveList(obj.children, `${path}[${index}].children`) }
+      : obj);
+    if (!solved.some(obj => obj.constraints?.length)) return solved;
+
+    for (const index of this.order(solved, path)) {
+      solved[index] = this.place(solved, index, `${path}[${index}]`);
+    }
+    return solved;
+  }
+
+  /**
+   * Indices of the constrained siblings, each after the siblings its
+   * targets are in; siblings caught in a cycle are reported and left out
+   */
+  private order(siblings: ObjectConfig[], path: string): number[] {
+    const dependencies = siblings.map((obj, index) => (obj.constraints || []).flatMap((constraint, constraintIndex) => {
+      const location = this.locate(siblings, constraint.target);
+      const constraintPath = `${path}[${index}].constraints[${constraintIndex}].target`;
+      if (!location) {
+        this.report(constraintPath, `"${constraint.target}" is not in the same group as this object; constraints only relate objects in one group`);
+        return [];
+      }
+      if (location.sibling === index) {
+        this.report(constraintPath, 'An object cannot be placed relative to itself or its own children');
+        return [];
+      }
+      return [location.sibling];
+    }));
+
+    const order: number[] = [];
+    const state: ('visiting' | 'done' | 'cycle')[] = [];
+    const visit = (index: number, trail: number[]): boolean => {
+      if (state[index] === 'done') return true;
+      if (state[index] === 'cycle') return false;
+      if (state[index] === 'visiting') {
+        const cycle = [...trail.slice(trail.indexOf(index)), index];
+        const names = cycle.map(member => siblings[member].id ?? `${path}[${member}]`);
+        this.report(`${path}[${index}].constraints`, `Constraints form a cycle: ${names.join(' → ')}`);
+        cycle.forEach(member => state[member] = 'cycle');
+        return false;
+      }
+
+      state[index] = 'visiting';
+      const ready = dependencies[index].every(dependency => visit(dependency, [...trail, index]));
+      if (!ready) {
+        state[index] = 'cycle';
+        return false;
+      }
+      state[index] = 'done';
+      if (siblings[index].constraints?.length) order.push(index);
+      return true;
+    };
+
+    siblings.forEach((_, index) => visit(index, []));
+    return order;
+  }
+
+  /**
+   * Find an object by id among the siblings and inside the groups among them
+   */
+  private locate(siblings: ObjectConfig[], id: string): Location | null {
+    const search = (objects: ObjectConfig[]): number[] | null => {
+      for (let index = 0; index < objects.length; index++) {
+        const obj = objects[index];
+        if (obj.id === id) return [index];
+        const inner = obj.type === 'group' ? search(obj.children) : null;
+        if (inner) return [index, ...inner];
+      }
+      return null;
+    };
+
+    const found = search(siblings);
+    return found ? { sibling: found[0], children: found.slice(1) } : null;
+  }
+
+  /**
+   * The object with its position computed from its constraints. Axes no
+   * constraint sets keep the given position.
+   */
+  private place(siblings: ObjectConfig[], index: number, path: string): ObjectConfig {
+    const obj = siblings[index];
+    const constraints = obj.constraints || [];
+    const extent = this.boxes.extent(obj);
+    const firm = new Map<Axis, { position: number; constraint: number }>();
+    const loose = new Map<Axis, number>();
+    const targets: (Box | null)[] = [];
+
+    if (obj.type === 'model') {
+      this.report(`${path}.constraints`, 'Model sizes are not known before loading, so its origin is placed as a point', 'warning');
+    }
+
+    constraints.forEach((constraint, constraintIndex) => {
+      const constraintPath = `${path}.constraints[${constraintIndex}]`;
+      const location = this.locate(siblings, constraint.target);
+      targets.push(null);
+      if (!location || location.sibling === index) return;
+
+      const { box, model } = this.targetBox(siblings, location);
+      targets[constraintIndex] = box;
+      if (model) {
+        this.report(`${constraintPath}.target`, 'Model sizes are not known before loading, so the target is treated as a point at its origin', 'warning');
+      }
+
+      for (const { axis, edge, value, firm: isFirm } of requirements(constraint, box)) {
+        const position = value - edgeOf(extent, axis, edge) + (constraint.offset?.[AXIS_INDEX[axis]] ?? 0);
+        if (!isFirm) {
+          if (!loose.has(axis)) loose.set(axis, position);
+          continue;
+        }
+
+        const existing = firm.get(axis);
+        if (existing && Math.abs(existing.position - position) > TOLERANCE) {
+          this.report(constraintPath, `Conflicts with constraints[${existing.constraint}] on the ${axis} axis`);
+        } else if (!existing) {
+          firm.set(axis, { position, constraint: constraintIndex });
+        }
+      }
+    });
+
+    const position = roundVector(AXES.map((axis, axisIndex) =>
+      firm.get(axis)?.position ?? loose.get(axis) ?? obj.position?.[axisIndex] ?? 0) as Vector3Array);
+
+    constraints.forEach((constraint, constraintIndex) => {
+      const target = targets[constraintIndex];
+      if (constraint.type !== 'inside' || !target) return;
+
+      const placed = translateBox(extent, position);
+      const outside = AXES.filter((_, axisIndex) =>
+        placed.min[axisIndex] < target.min[axisIndex] - TOLERANCE || placed.max[axisIndex] > target.max[axisIndex] + TOLERANCE);
+      if (outside.length > 0) {
+        const tooBig = outside.some(axis => size(extent, axis) > size(target, axis) + TOLERANCE);
+        this.report(`${path}.constraints[${constraintIndex}]`, tooBig
+          ? `Does not fit inside "${constraint.target}" along ${outside.join(', ')}`
+          : `Sticks out of "${constraint.target}" along ${outside.join(', ')}`);
+      }
+    });
+
+    return { ...obj, position };
+  }
+
+  /**
+   * Bounding box of a target in the siblings' space, and whether a model
+   * stands in for its size
+   */
+  private targetBox(siblings: ObjectConfig[], location: Location): { box: Box; model: boolean } {
+    const chain = [siblings[location.sibling]];
+    for (const childIndex of location.children) {
+      const parent = chain[chain.length - 1];
+      if (parent.type === 'group') chain.push(parent.children[childIndex]);
+    }
+
+    const target = chain[chain.length - 1];
+    let box = translateBox(this.boxes.extent(target), target.position || [0, 0, 0]);
+    for (const ancestor of chain.slice(0, -1).reverse()) {
+      box = transformBox(box, ancestor.position || [0, 0, 0], ancestor.rotation, ancestor.scale);
+    }
+    return { box, model: target.type === 'model' };
+  }
+
+  /**
+   * Record a problem with a constraint
+   */
+  private report(path: string, message: string, severity: ValidationIssue['severity'] = 'error'): void {
+    this.issues.push({ path, message, severity });
+  }
+}
+
+/**
+ * What a constraint asks of each axis, given the target's box
+ */
+function requirements(constraint: ConstraintConfig, target: Box): Requirement[] {
+  const at = (axis: Axis, edge: Edge, targetEdge: Edge = edge, firm = true, shift = 0): Requirement =>
+    ({ axis, edge, value: edgeOf(target, axis, targetEdge) + shift, firm });
+  const centered = (axes: Axis[], firm: boolean) => axes.map(axis => at(axis, 'center', 'center', firm));
+
+  switch (constraint.type) {
+    case 'onTopOf':
+      return [at('y', 'min', 'max'), ...centered(['x', 'z'], false)];
+
+    case 'nextTo': {
+      const gap = constraint.gap ?? 0;
+      switch (constraint.side) {
+        case 'right': return [at('x', 'min', 'max', true, gap), at('y', 'min', 'min', false), ...centered(['z'], false)];
+        case 'left': return [at('x', 'max', 'min', true, -gap), at('y', 'min', 'min', false), ...centered(['z'], false)];
+        case 'front': return [at('z', 'min', 'max', true, gap), at('y', 'min', 'min', false), ...centered(['x'], false)];
+        case 'back': return [at('z', 'max', 'min', true, -gap), at('y', 'min', 'min', false), ...centered(['x'], false)];
+        case 'above': return [at('y', 'min', 'max', true, gap), ...centered(['x', 'z'], false)];
+        case 'below': return [at('y', 'max', 'min', true, -gap), ...centered(['x', 'z'], false)];
+      }
+    }
+
+    case 'inside':
+      return [at('y', 'min', 'min', false), ...centered(['x', 'z'], false)];
+
+    case 'alignedWith':
+      return constraint.axes.map(axis => at(axis, constraint.edge ?? 'center'));
+
+    case 'centeredOn':
+      return centered(constraint.axes ?? ['x', 'z'], true);
+  }
+}
+
+/**
+ * Coordinate of a box's edge or center along an axis
+ */
+function edgeOf(box: Box, axis: Axis, edge: Edge): number {
+  const index = AXIS_INDEX[axis];
+  if (edge === 'min') return box.min[index];
+  if (edge === 'max') return box.max[index];
+  return (box.min[index] + box.max[index]) / 2;
+}
+
+/**
+ * Extent of a box along an axis
+ */
+function size(box: Box, axis: Axis): number {
+  return box.max[AXIS_INDEX[axis]] - box.min[AXIS_INDEX[axis]];
+}
@@ -1,6 +1,8 @@
 import 'dotenv/config';
 import { OpenAIService } from './openaiService.js';
+import { createProviderFromEnv } from './providers/index.js';
 import { SceneGenerator } from './sceneGenerator.js';
+import { BatchGenerator, formatBatchReport } from './batchGenerator.js';
 import { createDefaultDSL } from './types/dsl.js';
 import { writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
@@ -12,15 +14,18 @@ async function demo() {
   console.log('🎬 Three.js AI Scene Generator - Demo\n');
   console.log('=' .repeat(50));
 
-  // Check for API key
-  if (!process.env.OPENAI_API_KEY) {
-    console.error('❌ Error: OPENAI_API_KEY not found in environment variables');
+  // Pick an LLM backend
+  const provider = createProviderFromEnv();
+  if (!provider) {
+    console.error('❌ Error: no LLM backend configured');
     console.log('Please create a .env file with your OpenAI API key:');
     console.log('OPENAI_API_KEY=your_key_here\n');
+    console.log('Or set OPENAI_BASE_URL to an OpenAI-compatible server,');
+    console.log('or LLM_FIXTURES=examples/fixtures.json to run offline.\n');
     process.exit(1);
   }
 
-  const aiService = new OpenAIService();
+  const aiService = new OpenAIService(undefined, process.env.OPENAI_MODEL || undefined, { provider });
   const sceneGenerator = new SceneGenerator();
 
   // Create output directory
@@ -47,36 +52,41 @@ async function demo() {
     }
   ];
 
-  for (let i = 0; i < demos.length; i++) {
-    const demo = demos[i];
-    console.log(`\n📝 Demo ${i + 1}: ${demo.name}`);
-    console.log(`Prompt: "${demo.prompt}"`);
-    console.log('-'.repeat(50));
+  // Generated two at a time; rate limits are retried with backoff, and
+  // scenes already generated are read from the cache
+  const batch = new BatchGenerator(aiService, {
+    concurrency: 2,
+    cacheDir: join(outputDir, '.cache'),
+    onRetry: (demo, error, delay) => {
+      console.log(`⏳ ${demo.name}: ${error instanceof Error ? error.message : 'Unknown error'}, retrying in ${delay} ms`);
+    },
+    onResult: result => {
+      const i = result.index;
+      console.log(`\n📝 Demo ${i + 1}: ${result.name}`);
+      console.log(`Prompt: "${result.prompt}"`);
+      console.log('-'.repeat(50));
 
-    try {
-      console.log('🤖 Generating DSL...');
-      const dsl = await aiService.generateDSL(demo.prompt);
-      
-      console.log(`✅ Generated ${dsl.objects.length} objects, ${dsl.lights.length} lights`);
+      if (result.status === 'failed') {
+        console.error(`❌ Error in demo ${i + 1}:`, result.error);
+        return;
+      }
+      console.log(`✅ ${result.status === 'cached' ? 'Cached' : 'Generated'} ${result.dsl.objects.length} objects, ${result.dsl.lights.length} lights`);
 
       // Generate HTML
-      const html = sceneGenerator.generateHTML(dsl, demo.name);
-      const filename = `demo-${i + 1}-${demo.name.toLowerCase().replace(/\s+/g, '-')}.html`;
+      const html = sceneGenerator.generateHTML(result.dsl, result.name);
+      const filename = `demo-${i + 1}-${result.name!.toLowerCase().replace(/\s+/g, '-')}.html`;
       const filepath = join(outputDir, filename);
-      
+
       writeFileSync(filepath, html);
       console.log(`💾 Saved to: ${filepath}`);
-
-      // Small delay to avoid rate limiting
-      if (i < demos.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-      }
-    } catch (error) {
-      console.error(`❌ Error in demo ${i + 1}:`, error instanceof Error ? error.message : 'Unknown error');
     }
-  }
+  });
+
+  console.log('\n🤖 Generating DSL...');
+  const report = await batch.run(demos);
 
   console.log('\n' + '='.repeat(50));
+  console.log(formatBatchReport(report));
   console.log('✨ Demo complete!');
   console.log(`\n💡 Open the HTML files in ${outputDir}/ to view the scenes!`);
 }
@@ -1,59 +1,239 @@
-import { SceneDSL, validateDSL } from './types/dsl.js';
+import { SceneDSL, ObjectConfig, MaterialConfig, AnimationConfig, ValidationIssue } from './types/dsl.js';
+import { DSLValidator, DSLValidationError, DSLValidatorOptions } from './dslValidator.js';
+import { normalizeColor } from './colors.js';
+import { parseSceneText, printSceneText } from './sceneText/index.js';
+import { assignIds, carryIds } from './sceneIds.js';
+import { solveConstraints } from './constraints.js';
 
 /**
  * Parser for Scene DSL
  */
 export class DSLParser {
+  private validator: DSLValidator;
+
+  constructor(options: DSLValidatorOptions = {}) {
+    this.validator = new DSLValidator(options);
+  }
+
   /**
    * Parse a JSON string into a SceneDSL object
+   *
+   * @throws DSLValidationError with the full issue list when validation fails
    */
   parse(dslString: string): SceneDSL {
+    return this.parseWithIssues(dslString).dsl;
+  }
+
+  /**
+   * Parse a JSON string and also return non-fatal validation warnings.
+   * When the scene is a revision of previous, items that lost their id
+   * get it back (see parseObject).
+   */
+  parseWithIssues(dslString: string, previous?: SceneDSL): { dsl: SceneDSL; issues: ValidationIssue[] } {
     try {
-      const parsed = JSON.parse(dslString);
-      
-      if (!validateDSL(parsed)) {
-        throw new Error('Invalid DSL structure');
-      }
-      
-      return this.normalizeDSL(parsed);
+      return this.parseObject(JSON.parse(dslString), previous);
     } catch (error) {
       if (error instanceof SyntaxError) {
-        throw new Error(`DSL parsing error: ${error.message}`);
+        throw new Error(`DSL parsing error${this.jsonErrorLocation(dslString, error.message)}: ${error.message.replace(/ in JSON at position \d+.*$/, '')}`);
       }
       throw error;
     }
   }
 
   /**
-   * Normalize and add defaults to DSL
+   * Parse the text syntax into a SceneDSL object
+   *
+   * @throws SceneTextError with line and column on syntax errors
+   * @throws DSLValidationError with the full issue list when validation fails
    */
-  private normalizeDSL(dsl: SceneDSL): SceneDSL {
-    return {
+  parseText(text: string): SceneDSL {
+    return this.parseTextWithIssues(text).dsl;
+  }
+
+  /**
+   * Parse the text syntax and also return non-fatal validation warnings
+   */
+  parseTextWithIssues(text: string): { dsl: SceneDSL; issues: ValidationIssue[] } {
+    return this.parseObject(parseSceneText(text));
+  }
+
+  /**
+   * Parse a scene file's contents, JSON or the text syntax, told apart
+   * by the first non-blank character, and report which it was
+   *
+   * @throws like parse and parseText
+   */
+  parseSourceWithIssues(source: string): { dsl: SceneDSL; issues: ValidationIssue[]; format: 'json' | 'text' } {
+    const format = source.trimStart().startsWith('{') ? 'json' : 'text';
+    const { dsl, issues } = format === 'json' ? this.parseWithIssues(source) : this.parseTextWithIssues(source);
+    return { dsl, issues, format };
+  }
+
+  /**
+   * Validate and normalize an already-parsed value, e.g. a patched scene.
+   * When the value is a revision of previous, the camera, lights and
+   * objects without an id take the id of their counterpart in previous,
+   * so ids survive a model rewriting the scene; the rest get new ones.
+   *
+   * @throws DSLValidationError with the full issue list when validation fails
+   */
+  parseObject(value: unknown, previous?: SceneDSL): { dsl: SceneDSL; issues: ValidationIssue[] } {
+    const scene = previous ? carryIds(value, previous) : value;
+    const issues = this.validate(scene);
+
+    if (issues.some(issue => issue.severity === 'error')) {
+      throw new DSLValidationError(issues);
+    }
+
+    return { dsl: this.normalizeDSL(scene as SceneDSL), issues };
+  }
+
+  /**
+   * Validate an already-parsed DSL object and return all issues
+   */
+  validate(dsl: unknown): ValidationIssue[] {
+    return this.validator.validate(dsl);
+  }
+
+  /**
+   * Normalize and add defaults to DSL; colors are rewritten to canonical
+   * #rrggbb, constrained objects get their positions and items without an
+   * id get one
+   */
+  normalizeDSL(dsl: SceneDSL): SceneDSL {
+    return assignIds(solveConstraints({
       ...dsl,
       camera: {
         fov: 75,
         ...dsl.camera
       },
-      background: dsl.background || '#000000',
-      objects: dsl.objects.map(obj => ({
+      lights: dsl.lights.map(light => ({
+        ...light,
+        color: this.normalizeColor(light.color),
+        ...(light.animations && { animations: this.normalizeAnimations(light.animations) })
+      })),
+      background: this.normalizeColor(dsl.background || '#000000'),
+      objects: dsl.objects.map(obj => this.normalizeObject(obj))
+    }).dsl);
+  }
+
+  /**
+   * Add defaults to an object and, for groups and repeats, to what they contain
+   */
+  private normalizeObject(obj: ObjectConfig): ObjectConfig {
+    if (obj.type === 'repeat') {
+      return {
         rotation: [0, 0, 0],
         scale: [1, 1, 1],
         ...obj,
-        material: {
-          type: 'standard',
-          metalness: 0.5,
-          roughness: 0.5,
-          wireframe: false,
-          ...obj.material
-        }
-      }))
+        object: this.normalizeObject(obj.object),
+        ...(obj.animations && { animations: this.normalizeAnimations(obj.animations) })
+      };
+    }
+    if (obj.type === 'group') {
+      return {
+        rotation: [0, 0, 0],
+        scale: [1, 1, 1],
+        ...obj,
+        children: obj.children.map(child => this.normalizeObject(child))
+      };
+    }
+    if (obj.type === 'model') {
+      return {
+        rotation: [0, 0, 0],
+        scale: [1, 1, 1],
+        ...obj,
+        ...(obj.animations && { animations: this.normalizeAnimations(obj.animations) })
+      };
+    }
+
+    return {
+      rotation: [0, 0, 0],
+      scale: [1, 1, 1],
+      ...obj,
+      material: this.normalizeMaterial(obj.material),
+      ...(obj.animations && { animations: this.normalizeAnimations(obj.animations) })
     };
   }
 
+  /**
+   * Add material defaults; transparency follows opacity unless set explicitly
+   */
+  private normalizeMaterial(material: MaterialConfig): MaterialConfig {
+    const normalized: MaterialConfig = {
+      metalness: 0.5,
+      roughness: 0.5,
+      wireframe: false,
+      opacity: 1,
+      transparent: (material.opacity ?? 1) < 1,
+      side: 'front',
+      flatShading: false,
+      ...material,
+      type: material.type || 'standard',
+      color: this.normalizeColor(material.color)
+    };
+
+    if (material.emissive !== undefined) {
+      normalized.emissive = this.normalizeColor(material.emissive);
+      normalized.emissiveIntensity = material.emissiveIntensity ?? 1;
+    }
+    for (const slot of ['map', 'normalMap', 'roughnessMap', 'emissiveMap'] as const) {
+      const texture = material[slot];
+      if (texture?.colors) {
+        normalized[slot] = { ...texture, colors: [this.normalizeColor(texture.colors[0]), this.normalizeColor(texture.colors[1])] };
+      }
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Canonicalize keyframe colors
+   */
+  private normalizeAnimations(animations: AnimationConfig[]): AnimationConfig[] {
+    return animations.map(animation => animation.type !== 'keyframes' ? animation : {
+      ...animation,
+      tracks: animation.tracks.map(track => ({
+        ...track,
+        keyframes: track.keyframes.map(keyframe => typeof keyframe.value === 'string'
+          ? { ...keyframe, value: this.normalizeColor(keyframe.value) }
+          : keyframe)
+      }))
+    });
+  }
+
+  /**
+   * Canonical #rrggbb form of a validated color
+   */
+  private normalizeColor(color: string): string {
+    return normalizeColor(color) ?? color;
+  }
+
   /**
    * Convert DSL object to formatted JSON string
    */
   stringify(dsl: SceneDSL): string {
     return JSON.stringify(dsl, null, 2);
   }
+
+  /**
+   * Convert DSL object to the text syntax; parseText gives back an equal object
+   */
+  stringifyText(dsl: SceneDSL): string {
+    return printSceneText(dsl);
+  }
+
+  /**
+   * " at line L, column C" for JSON.parse errors that report a position
+   */
+  private jsonErrorLocation(source: string, message: string): string {
+    const match = message.match(/at position (\d+)/);
+    const offset = match ? Number(match[1]) : message.startsWith('Unexpected end') ? source.length : -1;
+    if (offset < 0) return '';
+
+    const before = source.slice(0, offset);
+    const line = before.split('\n').length;
+    const column = offset - before.lastIndexOf('\n');
+    return ` at line ${line}, column ${column}`;
+  }
 }
@@ -0,0 +1,979 @@
+import { SceneDSL, ValidationIssue, ValidationSeverity } from './types/dsl.js';
+import { parseColor } from './colors.js';
+import { IMAGE_MIME_TYPES } from './textures.js';
+import { FONTS, parsePath } from './geometry.js';
+import { MODEL_MIME_TYPES, checkAssetFile } from './assets.js';
+import { ID_PATTERN } from './sceneIds.js';
+import { MAX_COPIES, layoutSlots } from './layouts.js';
+import { solveConstraints } from './constraints.js';
+
+const LIGHT_TYPES = ['ambient', 'directional', 'point', 'spot'];
+export const OBJECT_TYPES = [
+  'cube', 'sphere', 'plane', 'cylinder', 'cone', 'torus', 'capsule', 'ring',
+  'icosahedron', 'dodecahedron', 'octahedron', 'lathe', 'extrude', 'tube', 'text', 'group', 'model', 'repeat'
+];
+const MATERIAL_TYPES = ['basic', 'standard', 'phong', 'lambert'];
+const ANIMATION_TYPES = ['keyframes', 'spin', 'bob', 'orbit'];
+const TRACK_PROPERTIES = ['position', 'rotation', 'scale', 'color'];
+const EASINGS = ['linear', 'easeIn', 'easeOut', 'easeInOut', 'step'];
+const LOOP_MODES = ['once', 'repeat', 'pingpong'];
+const AXES = ['x', 'y', 'z'];
+const SIDES = ['front', 'back', 'double'];
+const PROCEDURAL_TEXTURES = ['checker', 'gradient', 'noise'];
+const GRADIENT_DIRECTIONS = ['horizontal', 'vertical', 'radial'];
+const TEXTURE_SLOTS = ['map', 'normalMap', 'roughnessMap', 'emissiveMap'];
+const SHADOW_TYPES = ['basic', 'pcf', 'pcfSoft', 'vsm'];
+
+const SCENE_KEYS = ['camera', 'lights', 'objects', 'background', 'shadows'];
+const IDENTITY_KEYS = ['id', 'name'];
+const CAMERA_KEYS = [...IDENTITY_KEYS, 'position', 'lookAt', 'fov', 'animations'];
+const LIGHT_KEYS = [...IDENTITY_KEYS, 'type', 'color', 'intensity', 'position', 'target', 'castShadow', 'shadow', 'animations'];
+const LIGHT_SHADOW_KEYS = ['mapSize', 'bias', 'normalBias', 'radius', 'camera'];
+const SHADOW_CAMERA_KEYS = ['left', 'right', 'top', 'bottom', 'near', 'far'];
+const OBJECT_KEYS = [...IDENTITY_KEYS, 'type', 'position', 'constraints', 'rotation', 'scale', 'material', 'castShadow', 'receiveShadow', 'ground', 'animations'];
+const SWEEP_KEYS = ['thetaStart', 'thetaLength'];
+const BEVEL_KEYS = ['bevelEnabled', 'bevelThickness', 'bevelSize', 'bevelOffset', 'bevelSegments'];
+const POLYHEDRON_KEYS = ['radius', 'detail'];
+/**
+ * Geometry parameters each mesh type takes
+ */
+const GEOMETRY_KEYS: Record<string, string[]> = {
+  cube: ['width', 'height', 'depth', 'widthSegments', 'heightSegments', 'depthSegments'],
+  sphere: ['radius', 'segments', 'widthSegments', 'heightSegments', 'phiStart', 'phiLength', ...SWEEP_KEYS],
+  plane: ['width', 'height', 'widthSegments', 'heightSegments'],
+  cylinder: ['radius', 'radiusTop', 'radiusBottom', 'height', 'segments', 'radialSegments', 'heightSegments', 'openEnded', ...SWEEP_KEYS],
+  cone: ['radius', 'height', 'segments', 'radialSegments', 'heightSegments', 'openEnded', ...SWEEP_KEYS],
+  torus: ['radius', 'tube', 'radialSegments', 'tubularSegments', 'arc'],
+  capsule: ['radius', 'length', 'capSegments', 'radialSegments'],
+  ring: ['innerRadius', 'outerRadius', 'thetaSegments', 'phiSegments', ...SWEEP_KEYS],
+  icosahedron: POLYHEDRON_KEYS,
+  dodecahedron: POLYHEDRON_KEYS,
+  octahedron: POLYHEDRON_KEYS,
+  lathe: ['points', 'segments', 'phiStart', 'phiLength'],
+  extrude: ['shape', 'holes', 'depth', 'steps', 'curveSegments', ...BEVEL_KEYS],
+  tube: ['path', 'radius', 'tubularSegments', 'radialSegments', 'closed'],
+  text: ['text', 'font', 'bold', 'size', 'depth', 'curveSegments', ...BEVEL_KEYS]
+};
+const POSITIVE_KEYS = ['radius', 'width', 'height', 'depth', 'tube', 'outerRadius', 'size'];
+const NON_NEGATIVE_KEYS = ['radiusTop', 'radiusBottom', 'length', 'innerRadius', 'bevelThickness', 'bevelSize'];
+const SEGMENT_KEYS = [
+  'widthSegments', 'heightSegments', 'depthSegments', 'radialSegments', 'tubularSegments', 'capSegments',
+  'thetaSegments', 'phiSegments', 'curveSegments', 'steps', 'bevelSegments'
+];
+/** Angles and offsets, which may be any finite number */
+const UNBOUNDED_KEYS = ['phiStart', 'phiLength', 'thetaStart', 'thetaLength', 'arc', 'bevelOffset'];
+const GROUP_KEYS = [...IDENTITY_KEYS, 'type', 'position', 'constraints', 'rotation', 'scale', 'children', 'animations'];
+const MODEL_KEYS = [...IDENTITY_KEYS, 'type', 'file', 'position', 'constraints', 'rotation', 'scale', 'castShadow', 'receiveShadow', 'animations'];
+const REPEAT_KEYS = [...IDENTITY_KEYS, 'type', 'position', 'constraints', 'rotation', 'scale', 'layout', 'object', 'jitter', 'seed', 'animations'];
+const LAYOUT_TYPES = ['linear', 'grid', 'radial', 'scatter', 'path'];
+const LAYOUT_KEYS: Record<string, string[]> = {
+  linear: ['type', 'count', 'step'],
+  grid: ['type', 'count', 'spacing'],
+  radial: ['type', 'count', 'radius', 'startAngle', 'arc', 'faceOutward'],
+  scatter: ['type', 'count', 'size', 'radius', 'minSpacing'],
+  path: ['type', 'count', 'points', 'closed', 'align']
+};
+const JITTER_KEYS = ['position', 'rotation', 'scale', 'color'];
+const CONSTRAINT_KEYS: Record<string, string[]> = {
+  onTopOf: ['type', 'target', 'offset'],
+  nextTo: ['type', 'target', 'side', 'gap', 'offset'],
+  inside: ['type', 'target', 'offset'],
+  alignedWith: ['type', 'target', 'axes', 'edge', 'offset'],
+  centeredOn: ['type', 'target', 'axes', 'offset']
+};
+const NEXT_TO_SIDES = ['left', 'right', 'front', 'back', 'above', 'below'];
+const BOX_EDGES = ['min', 'center', 'max'];
+const MATERIAL_KEYS = [
+  'type', 'color', 'metalness', 'roughness', 'wireframe', 'opacity', 'transparent',
+  'emissive', 'emissiveIntensity', 'side', 'flatShading', ...TEXTURE_SLOTS
+];
+const TEXTURE_KEYS = ['file', 'procedural', 'colors', 'size', 'scale', 'seed', 'direction', 'repeat', 'offset'];
+const ANIMATION_KEYS: Record<string, string[]> = {
+  keyframes: ['type', 'tracks', 'duration', 'loop'],
+  spin: ['type', 'axis', 'speed'],
+  bob: ['type', 'axis', 'amplitude', 'frequency'],
+  orbit: ['type', 'center', 'axis', 'radius', 'speed']
+};
+
+/**
+ * Error thrown when a DSL document fails validation
+ */
+export class DSLValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[]) {
+    super(`Invalid DSL structure:\n${formatIssues(issues)}`);
+    this.name = 'DSLValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Format issues one per line as "path: message"
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues
+    .map(issue => `  [${issue.severity}] ${issue.path || '(root)'}: ${issue.message}`)
+    .join('\n');
+}
+
+export interface DSLValidatorOptions {
+  /** Directory texture and model file paths are resolved against (default: the working directory) */
+  assetDir?: string;
+  /** Report referenced files that are missing or unreadable (default: true) */
+  checkAssets?: boolean;
+}
+
+/**
+ * Validates raw (untrusted) DSL documents and reports every issue found
+ */
+export class DSLValidator {
+  private issues: ValidationIssue[] = [];
+  /** Path of the item declaring each id seen so far */
+  private ids = new Map<string, string>();
+  private objectIds = new Set<string>();
+  /** Object ids used in place of a point, checked once every id is known */
+  private references: { id: string; path: string }[] = [];
+  /** How many repeats the object being validated is inside */
+  private repeatDepth = 0;
+  private assetDir: string;
+  private checkAssets: boolean;
+
+  constructor(options: DSLValidatorOptions = {}) {
+    this.assetDir = options.assetDir || process.cwd();
+    this.checkAssets = options.checkAssets ?? true;
+  }
+
+  /**
+   * Validate a parsed DSL document
+   */
+  validate(dsl: unknown): ValidationIssue[] {
+    this.issues = [];
+    this.ids = new Map();
+    this.objectIds = new Set();
+    this.references = [];
+    this.repeatDepth = 0;
+
+    if (!this.isRecord(dsl)) {
+      this.report('', 'Scene must be a JSON object');
+      return this.issues;
+    }
+
+    this.checkUnknownKeys(dsl, '', SCENE_KEYS);
+    this.validateCamera(dsl.camera, 'camera');
+    this.validateArray(dsl.lights, 'lights', (light, path) => this.validateLight(light, path));
+    this.validateArray(dsl.objects, 'objects', (obj, path) => this.validateObject(obj, path));
+    this.checkReferences();
+    if (!this.issues.some(issue => issue.severity === 'error')) {
+      this.issues.push(...solveConstraints(dsl as unknown as SceneDSL).issues);
+    }
+
+    if (dsl.background !== undefined) {
+      this.checkColor(dsl.background, 'background');
+    }
+    if (dsl.shadows !== undefined) {
+      if (this.isRecord(dsl.shadows)) {
+        this.checkUnknownKeys(dsl.shadows, 'shadows', ['type']);
+        this.checkEnum(dsl.shadows.type, 'shadows.type', SHADOW_TYPES, false);
+      } else {
+        this.report('shadows', 'Must be an object');
+      }
+    }
+
+    return this.issues;
+  }
+
+  /**
+   * Validate camera configuration
+   */
+  private validateCamera(camera: unknown, path: string): void {
+    if (!this.isRecord(camera)) {
+      this.report(path, 'Camera is required and must be an object');
+      return;
+    }
+
+    this.checkUnknownKeys(camera, path, CAMERA_KEYS);
+    this.checkIdentity(camera, path, false);
+    this.checkVector(camera.position, `${path}.position`, true);
+    this.checkPoint(camera.lookAt, `${path}.lookAt`, true);
+
+    if (camera.fov !== undefined) {
+      this.checkNumber(camera.fov, `${path}.fov`, { min: 0, max: 180, exclusive: true });
+    }
+    this.validateAnimations(camera.animations, `${path}.animations`, false);
+  }
+
+  /**
+   * Validate a single light
+   */
+  private validateLight(light: unknown, path: string): void {
+    if (!this.isRecord(light)) {
+      this.report(path, 'Light entry must be a JSON object');
+      return;
+    }
+
+    this.checkUnknownKeys(light, path, LIGHT_KEYS);
+    this.checkIdentity(light, path, false);
+    this.checkEnum(light.type, `${path}.type`, LIGHT_TYPES, true);
+    this.checkColor(light.color, `${path}.color`);
+    this.checkNumber(light.intensity, `${path}.intensity`, { min: 0 });
+    this.checkVector(light.position, `${path}.position`, false);
+    this.checkPoint(light.target, `${path}.target`, false);
+    if (light.target !== undefined && (light.type === 'ambient' || light.type === 'point')) {
+      this.report(`${path}.target`, 'Only directional and spot lights have a target', 'warning');
+    }
+    this.checkBooleans(light, path, ['castShadow']);
+
+    if (light.type === 'ambient' && (light.castShadow || light.shadow !== undefined)) {
+      this.report(light.castShadow ? `${path}.castShadow` : `${path}.shadow`, 'Ambient lights cannot cast shadows');
+    } else if (light.shadow !== undefined) {
+      this.validateLightShadow(light.shadow, `${path}.shadow`, light.type === 'directional');
+      if (!light.castShadow) {
+        this.report(`${path}.shadow`, 'Has no effect unless castShadow is true', 'warning');
+      }
+    }
+    this.validateAnimations(light.animations, `${path}.animations`, true);
+  }
+
+  /**
+   * Validate shadow map settings; only directional lights have camera bounds
+   */
+  private validateLightShadow(shadow: unknown, path: string, directional: boolean): void {
+    if (!this.isRecord(shadow)) {
+      this.report(path, 'Must be an object');
+      return;
+    }
+
+    this.checkUnknownKeys(shadow, path, LIGHT_SHADOW_KEYS);
+    if (shadow.mapSize !== undefined) {
+      this.checkNumber(shadow.mapSize, `${path}.mapSize`, { min: 16, max: 8192, integer: true });
+    }
+    for (const key of ['bias', 'normalBias']) {
+      if (shadow[key] !== undefined) {
+        this.checkNumber(shadow[key], `${path}.${key}`);
+      }
+    }
+    if (shadow.radius !== undefined) {
+      this.checkNumber(shadow.radius, `${path}.radius`, { min: 0 });
+    }
+    if (shadow.camera === undefined) return;
+
+    const camera = shadow.camera;
+    const cameraPath = `${path}.camera`;
+    if (!this.isRecord(camera)) {
+      this.report(cameraPath, 'Must be an object');
+      return;
+    }
+
+    this.checkUnknownKeys(camera, cameraPath, SHADOW_CAMERA_KEYS);
+    for (const key of SHADOW_CAMERA_KEYS) {
+      if (camera[key] !== undefined) {
+        this.checkNumber(camera[key], `${cameraPath}.${key}`);
+      }
+    }
+    if (!directional) {
+      for (const key of ['left', 'right', 'top', 'bottom']) {
+        if (camera[key] !== undefined) {
+          this.report(`${cameraPath}.${key}`, 'Only directional lights have shadow camera bounds', 'warning');
+        }
+      }
+    }
+
+    const ordered = (low: unknown, high: unknown) => typeof low !== 'number' || typeof high !== 'number' || low < high;
+    if (!ordered(camera.left, camera.right)) {
+      this.report(`${cameraPath}.right`, 'Must be greater than left');
+    }
+    if (!ordered(camera.bottom, camera.top)) {
+      this.report(`${cameraPath}.top`, 'Must be greater than bottom');
+    }
+    if (camera.near !== undefined) {
+      this.checkNumber(camera.near, `${cameraPath}.near`, { min: 0, exclusive: true });
+    }
+    if (!ordered(camera.near, camera.far)) {
+      this.report(`${cameraPath}.far`, 'Must be greater than near');
+    }
+  }
+
+  /**
+   * Validate a single object
+   */
+  private validateObject(obj: unknown, path: string): void {
+    if (!this.isRecord(obj)) {
+      this.report(path, 'Object entry must be a JSON object');
+      return;
+    }
+    if (obj.type === 'group') {
+      this.validateGroup(obj, path);
+      return;
+    }
+    if (obj.type === 'model') {
+      this.validateModel(obj, path);
+      return;
+    }
+    if (obj.type === 'repeat') {
+      this.validateRepeat(obj, path);
+      return;
+    }
+
+    const geometryKeys = typeof obj.type === 'string' && Object.prototype.hasOwnProperty.call(GEOMETRY_KEYS, obj.type)
+      ? GEOMETRY_KEYS[obj.type]
+      : [];
+    this.checkUnknownKeys(obj, path, [...OBJECT_KEYS, ...geometryKeys]);
+    this.checkIdentity(obj, path, true);
+    this.checkEnum(obj.type, `${path}.type`, OBJECT_TYPES, true);
+    this.checkPlacement(obj, path);
+    this.checkVector(obj.rotation, `${path}.rotation`, false);
+    this.checkVector(obj.scale, `${path}.scale`, false);
+    this.validateGeometry(obj, path);
+
+    this.checkBooleans(obj, path, ['castShadow', 'receiveShadow', 'ground']);
+    this.validateMaterial(obj.material, `${path}.material`);
+    this.validateAnimations(obj.animations, `${path}.animations`, true);
+  }
+
+  /**
+   * Validate the geometry parameters of a mesh
+   */
+  private validateGeometry(obj: Record<string, any>, path: string): void {
+    const check = (keys: string[], range: { min?: number; max?: number; exclusive?: boolean; integer?: boolean }) => {
+      for (const key of keys) {
+        if (obj[key] !== undefined) {
+          this.checkNumber(obj[key], `${path}.${key}`, range);
+        }
+      }
+    };
+    check(POSITIVE_KEYS, { min: 0, exclusive: true });
+    check(NON_NEGATIVE_KEYS, { min: 0 });
+    check(['segments'], { min: 3, integer: true });
+    check(SEGMENT_KEYS, { min: 1, integer: true });
+    check(['detail'], { min: 0, max: 6, integer: true });
+    check(UNBOUNDED_KEYS, {});
+    this.checkBooleans(obj, path, ['openEnded', 'bevelEnabled', 'closed', 'bold']);
+
+    if (typeof obj.innerRadius === 'number' && typeof obj.outerRadius === 'number' && obj.innerRadius >= obj.outerRadius) {
+      this.report(`${path}.innerRadius`, 'Must be less than outerRadius');
+    }
+
+    if (obj.points !== undefined) {
+      this.checkOutline(obj.points, `${path}.points`, 2);
+    }
+    if (obj.shape !== undefined) {
+      this.checkOutline(obj.shape, `${path}.shape`, 3);
+    }
+    if (obj.holes !== undefined) {
+      this.validateArray(obj.holes, `${path}.holes`, (hole, holePath) => this.checkOutline(hole, holePath, 3));
+    }
+    if (obj.path !== undefined) {
+      if (!Array.isArray(obj.path) || obj.path.length < 2) {
+        this.report(`${path}.path`, 'Must be a list of at least 2 [x, y, z] points');
+      } else {
+        obj.path.forEach((point: unknown, index: number) => this.checkVector(point, `${path}.path[${index}]`, true));
+      }
+    }
+
+    if (obj.type === 'text') {
+      if (typeof obj.text !== 'string' || obj.text.trim() === '') {
+        this.report(`${path}.text`, 'Text geometry needs a non-empty "text" string');
+      }
+      this.checkEnum(obj.font, `${path}.font`, Object.keys(FONTS), false);
+    }
+  }
+
+  /**
+   * Check a 2D outline: a list of [x, y] points or a path string
+   */
+  private checkOutline(value: unknown, path: string, minPoints: number): void {
+    if (typeof value === 'string') {
+      try {
+        parsePath(value);
+      } catch (error) {
+        this.report(path, error instanceof Error ? error.message : String(error));
+      }
+      return;
+    }
+    if (!Array.isArray(value) || value.length < minPoints) {
+      this.report(path, `Must be a path string or a list of at least ${minPoints} [x, y] points`);
+      return;
+    }
+    value.forEach((point, index) => this.checkUV(point, `${path}[${index}]`, '[x, y]'));
+  }
+
+  /**
+   * Validate a group and, recursively, its children
+   */
+  private validateGroup(group: Record<string, any>, path: string): void {
+    this.checkUnknownKeys(group, path, GROUP_KEYS);
+    this.checkIdentity(group, path, true);
+    this.checkPlacement(group, path);
+    this.checkVector(group.rotation, `${path}.rotation`, false);
+    this.checkVector(group.scale, `${path}.scale`, false);
+    this.validateArray(group.children, `${path}.children`, (child, childPath) => this.validateObject(child, childPath));
+    this.validateAnimations(group.animations, `${path}.animations`, false);
+  }
+
+  /**
+   * Validate a model and check that its file, and any files it references, can be read
+   */
+  private validateModel(model: Record<string, any>, path: string): void {
+    this.checkUnknownKeys(model, path, MODEL_KEYS);
+    this.checkIdentity(model, path, true);
+    this.checkPlacement(model, path);
+    this.checkVector(model.rotation, `${path}.rotation`, false);
+    this.checkVector(model.scale, `${path}.scale`, false);
+    this.checkBooleans(model, path, ['castShadow', 'receiveShadow']);
+    this.checkAssetPath(model.file, `${path}.file`, MODEL_MIME_TYPES, 'model');
+    this.validateAnimations(model.animations, `${path}.animations`, false);
+  }
+
+  /**
+   * Check an object's position and constraints; the position may be left
+   * out when constraints set it
+   */
+  private checkPlacement(obj: Record<string, any>, path: string): void {
+    if (obj.constraints !== undefined) {
+      if (this.repeatDepth > 0) {
+        this.report(`${path}.constraints`, 'Objects inside a repeat cannot have constraints; constrain the repeat instead');
+      } else {
+        this.validateArray(obj.constraints, `${path}.constraints`, (constraint, constraintPath) =>
+          this.validateConstraint(constraint, constraintPath));
+      }
+    }
+    this.checkVector(obj.position, `${path}.position`, obj.constraints === undefined);
+  }
+
+  /**
+   * Validate one constraint; its target is checked once every id is known
+   */
+  private validateConstraint(constraint: unknown, path: string): void {
+    if (!this.isRecord(constraint)) {
+      this.report(path, 'Constraint must be an object');
+      return;
+    }
+
+    const types = Object.keys(CONSTRAINT_KEYS);
+    this.checkEnum(constraint.type, `${path}.type`, types, true);
+    if (!types.includes(constraint.type)) return;
+
+    this.checkUnknownKeys(constraint, path, CONSTRAINT_KEYS[constraint.type]);
+    if (typeof constraint.target === 'string' && constraint.target !== '') {
+      this.references.push({ id: constraint.target, path: `${path}.target` });
+    } else {
+      this.report(`${path}.target`, 'Must be the id of an object');
+    }
+    this.checkVector(constraint.offset, `${path}.offset`, false);
+
+    if (constraint.type === 'nextTo') {
+      this.checkEnum(constraint.side, `${path}.side`, NEXT_TO_SIDES, true);
+      if (constraint.gap !== undefined) {
+        this.checkNumber(constraint.gap, `${path}.gap`, { min: 0 });
+      }
+    }
+    if (constraint.type === 'alignedWith') {
+      this.checkEnum(constraint.edge, `${path}.edge`, BOX_EDGES, false);
+    }
+    if (constraint.axes !== undefined || constraint.type === 'alignedWith') {
+      const axes = constraint.axes;
+      if (!Array.isArray(axes) || axes.length === 0 || axes.some(axis => !AXES.includes(axis)) || new Set(axes).size !== axes.length) {
+        this.report(`${path}.axes`, 'Must be a non-empty list of distinct axes: "x", "y", "z"');
+      }
+    }
+  }
+
+  /**
+   * Validate a repeat: its layout, jitter and the object it copies
+   */
+  private validateRepeat(repeat: Record<string, any>, path: string): void {
+    this.checkUnknownKeys(repeat, path, REPEAT_KEYS);
+    this.checkIdentity(repeat, path, true);
+    this.checkPlacement(repeat, path);
+    this.checkVector(repeat.rotation, `${path}.rotation`, false);
+    this.checkVector(repeat.scale, `${path}.scale`, false);
+
+    const before = this.issues.length;
+    this.validateLayout(repeat.layout, `${path}.layout`);
+    if (repeat.seed !== undefined) {
+      this.checkNumber(repeat.seed, `${path}.seed`, { integer: true });
+    }
+    if (this.issues.length === before && repeat.layout.type === 'scatter') {
+      const placed = layoutSlots(repeat.layout, repeat.seed).length;
+      if (placed < repeat.layout.count) {
+        this.report(`${path}.layout`, `Only ${placed} of ${repeat.layout.count} copies fit this far apart; lower minSpacing or enlarge the area`, 'warning');
+      }
+    }
+
+    if (repeat.jitter !== undefined) {
+      this.validateJitter(repeat.jitter, `${path}.jitter`);
+    }
+    if (this.isRecord(repeat.object)) {
+      this.repeatDepth++;
+      this.validateObject(repeat.object, `${path}.object`);
+      this.repeatDepth--;
+    } else {
+      this.report(`${path}.object`, 'The object to repeat is required and must be a JSON object');
+    }
+    this.validateAnimations(repeat.animations, `${path}.animations`, false);
+  }
+
+  /**
+   * Validate a repeat layout and the number of copies it makes
+   */
+  private validateLayout(layout: unknown, path: string): void {
+    if (!this.isRecord(layout)) {
+      this.report(path, 'Layout is required and must be an object');
+      return;
+    }
+
+    this.checkEnum(layout.type, `${path}.type`, LAYOUT_TYPES, true);
+    if (!LAYOUT_TYPES.includes(layout.type)) return;
+
+    this.checkUnknownKeys(layout, path, LAYOUT_KEYS[layout.type]);
+    let copies = layout.count;
+    if (layout.type === 'grid') {
+      this.checkVector(layout.count, `${path}.count`, true);
+      if (Array.isArray(layout.count)) {
+        layout.count.forEach((count: unknown, index: number) =>
+          this.checkNumber(count, `${path}.count[${index}]`, { min: 1, integer: true }));
+        copies = layout.count.reduce((product: number, count: unknown) => product * (typeof count === 'number' ? count : 1), 1);
+      }
+    } else {
+      this.checkNumber(layout.count, `${path}.count`, { min: 1, integer: true });
+    }
+    if (typeof copies === 'number' && copies > MAX_COPIES) {
+      this.report(`${path}.count`, `Makes ${copies} copies, at most ${MAX_COPIES} are allowed`);
+    }
+
+    switch (layout.type) {
+      case 'linear':
+        this.checkVector(layout.step, `${path}.step`, true);
+        break;
+      case 'grid':
+        this.checkVector(layout.spacing, `${path}.spacing`, true);
+        break;
+      case 'radial':
+        this.checkNumber(layout.radius, `${path}.radius`, { min: 0, exclusive: true });
+        for (const key of ['startAngle', 'arc']) {
+          if (layout[key] !== undefined) {
+            this.checkNumber(layout[key], `${path}.${key}`);
+          }
+        }
+        this.checkBooleans(layout, path, ['faceOutward']);
+        break;
+      case 'scatter':
+        if ((layout.size === undefined) === (layout.radius === undefined)) {
+          this.report(path, 'Scatter needs exactly one of "size" (a box) or "radius" (a disc)');
+        }
+        this.checkVector(layout.size, `${path}.size`, false);
+        if (Array.isArray(layout.size) && layout.size.some((component: unknown) => typeof component === 'number' && component < 0)) {
+          this.report(`${path}.size`, 'Must not be negative');
+        }
+        if (layout.radius !== undefined) {
+          this.checkNumber(layout.radius, `${path}.radius`, { min: 0, exclusive: true });
+        }
+        if (layout.minSpacing !== undefined) {
+          this.checkNumber(layout.minSpacing, `${path}.minSpacing`, { min: 0 });
+        }
+        break;
+      case 'path':
+        if (!Array.isArray(layout.points) || layout.points.length < 2) {
+          this.report(`${path}.points`, 'Must be a list of at least 2 [x, y, z] points');
+        } else {
+          layout.points.forEach((point: unknown, index: number) => this.checkVector(point, `${path}.points[${index}]`, true));
+        }
+        this.checkBooleans(layout, path, ['closed', 'align']);
+        break;
+    }
+  }
+
+  /**
+   * Validate the per-copy variation of a repeat
+   */
+  private validateJitter(jitter: unknown, path: string): void {
+    if (!this.isRecord(jitter)) {
+      this.report(path, 'Must be an object');
+      return;
+    }
+
+    this.checkUnknownKeys(jitter, path, JITTER_KEYS);
+    this.checkVector(jitter.position, `${path}.position`, false);
+    this.checkVector(jitter.rotation, `${path}.rotation`, false);
+    if (jitter.scale !== undefined) {
+      this.checkNumber(jitter.scale, `${path}.scale`, { min: 0, max: 1, exclusive: true });
+    }
+    if (jitter.color !== undefined) {
+      this.checkNumber(jitter.color, `${path}.color`, { min: 0, max: 1 });
+    }
+  }
+
+  /**
+   * Validate an optional list of animations; color tracks need a target with a color
+   */
+  private validateAnimations(value: unknown, path: string, allowColor: boolean): void {
+    if (value === undefined) return;
+
+    this.validateArray(value, path, (animation, animationPath) => {
+      if (!this.isRecord(animation)) {
+        this.report(animationPath, 'Animation entry must be a JSON object');
+        return;
+      }
+
+      this.checkEnum(animation.type, `${animationPath}.type`, ANIMATION_TYPES, true);
+      if (!ANIMATION_TYPES.includes(animation.type)) return;
+
+      this.checkUnknownKeys(animation, animationPath, ANIMATION_KEYS[animation.type]);
+      this.checkEnum(animation.axis, `${animationPath}.axis`, AXES, false);
+      this.checkEnum(animation.loop, `${animationPath}.loop`, LOOP_MODES, false);
+      this.checkVector(animation.center, `${animationPath}.center`, false);
+
+      for (const key of ['speed', 'amplitude']) {
+        if (animation[key] !== undefined) {
+          this.checkNumber(animation[key], `${animationPath}.${key}`);
+        }
+      }
+      for (const key of ['frequency', 'radius', 'duration']) {
+        if (animation[key] !== undefined) {
+          this.checkNumber(animation[key], `${animationPath}.${key}`, { min: 0, exclusive: true });
+        }
+      }
+
+      if (animation.type === 'keyframes') {
+        this.validateArray(animation.tracks, `${animationPath}.tracks`, (track, trackPath) =>
+          this.validateTrack(track, trackPath, allowColor)
+        );
+      }
+    });
+  }
+
+  /**
+   * Validate a keyframe track: known property, matching value types, increasing times
+   */
+  private validateTrack(track: unknown, path: string, allowColor: boolean): void {
+    if (!this.isRecord(track)) {
+      this.report(path, 'Track entry must be a JSON object');
+      return;
+    }
+
+    this.checkUnknownKeys(track, path, ['property', 'keyframes', 'easing']);
+    this.checkEnum(track.property, `${path}.property`, TRACK_PROPERTIES, true);
+    this.checkEnum(track.easing, `${path}.easing`, EASINGS, false);
+    if (track.property === 'color' && !allowColor) {
+      this.report(`${path}.property`, 'Color tracks are only supported on meshes and lights');
+    }
+
+    if (Array.isArray(track.keyframes) && track.keyframes.length === 0) {
+      this.report(`${path}.keyframes`, 'Must contain at least one keyframe');
+    }
+
+    let previousTime = -Infinity;
+    this.validateArray(track.keyframes, `${path}.keyframes`, (keyframe, keyframePath) => {
+      if (!this.isRecord(keyframe)) {
+        this.report(keyframePath, 'Keyframe must be a JSON object with time and value');
+        return;
+      }
+
+      this.checkNumber(keyframe.time, `${keyframePath}.time`, { min: 0 });
+      if (typeof keyframe.time === 'number') {
+        if (keyframe.time <= previousTime) {
+          this.report(`${keyframePath}.time`, 'Keyframe times must be strictly increasing');
+        }
+        previousTime = keyframe.time;
+      }
+
+      if (track.property === 'color') {
+        this.checkColor(keyframe.value, `${keyframePath}.value`);
+      } else {
+        this.checkVector(keyframe.value, `${keyframePath}.value`, true);
+      }
+    });
+  }
+
+  /**
+   * Validate a material
+   */
+  private validateMaterial(material: unknown, path: string): void {
+    if (!this.isRecord(material)) {
+      this.report(path, 'Material is required and must be an object');
+      return;
+    }
+
+    this.checkUnknownKeys(material, path, MATERIAL_KEYS);
+    this.checkEnum(material.type, `${path}.type`, MATERIAL_TYPES, false);
+    this.checkColor(material.color, `${path}.color`);
+
+    for (const key of ['metalness', 'roughness', 'opacity']) {
+      if (material[key] !== undefined) {
+        this.checkNumber(material[key], `${path}.${key}`, { min: 0, max: 1 });
+      }
+    }
+    this.checkBooleans(material, path, ['wireframe', 'transparent', 'flatShading']);
+
+    if (material.emissive !== undefined) {
+      this.checkColor(material.emissive, `${path}.emissive`);
+    }
+    if (material.emissiveIntensity !== undefined) {
+      this.checkNumber(material.emissiveIntensity, `${path}.emissiveIntensity`, { min: 0 });
+    }
+    this.checkEnum(material.side, `${path}.side`, SIDES, false);
+
+    for (const slot of TEXTURE_SLOTS) {
+      if (material[slot] !== undefined) {
+        this.validateTexture(material[slot], `${path}.${slot}`);
+      }
+    }
+  }
+
+  /**
+   * Validate a texture: exactly one of an image file or a procedural pattern
+   */
+  private validateTexture(texture: unknown, path: string): void {
+    if (!this.isRecord(texture)) {
+      this.report(path, 'Texture must be an object with "file" or "procedural"');
+      return;
+    }
+
+    this.checkUnknownKeys(texture, path, TEXTURE_KEYS);
+    if ((texture.file === undefined) === (texture.procedural === undefined)) {
+      this.report(path, 'Texture needs exactly one of "file" or "procedural"');
+    }
+
+    if (texture.file !== undefined) {
+      this.checkAssetPath(texture.file, `${path}.file`, IMAGE_MIME_TYPES, 'image');
+    }
+    this.checkEnum(texture.procedural, `${path}.procedural`, PROCEDURAL_TEXTURES, false);
+    this.checkEnum(texture.direction, `${path}.direction`, GRADIENT_DIRECTIONS, false);
+
+    if (texture.colors !== undefined) {
+      if (!Array.isArray(texture.colors) || texture.colors.length !== 2) {
+        this.report(`${path}.colors`, 'Must be a list of two colors');
+      } else {
+        texture.colors.forEach((color, index) => this.checkColor(color, `${path}.colors[${index}]`));
+      }
+    }
+    if (texture.size !== undefined) {
+      this.checkNumber(texture.size, `${path}.size`, { min: 1, max: 2048, integer: true });
+    }
+    if (texture.scale !== undefined) {
+      this.checkNumber(texture.scale, `${path}.scale`, { min: 0, exclusive: true });
+    }
+    if (texture.seed !== undefined) {
+      this.checkNumber(texture.seed, `${path}.seed`, { integer: true });
+    }
+    this.checkUV(texture.repeat, `${path}.repeat`);
+    this.checkUV(texture.offset, `${path}.offset`);
+  }
+
+  /**
+   * Check a referenced file: a non-empty path with a supported extension
+   * that, unless asset checks are off, can be read
+   */
+  private checkAssetPath(value: unknown, path: string, mimeTypes: Record<string, string>, kind: string): void {
+    if (typeof value !== 'string' || value === '') {
+      this.report(path, 'Must be a non-empty file path');
+      return;
+    }
+    if (!mimeTypes[value.slice(value.lastIndexOf('.')).toLowerCase()]) {
+      this.report(path, `Unsupported ${kind} type, expected one of ${Object.keys(mimeTypes).join(', ')}`);
+      return;
+    }
+    if (this.checkAssets) {
+      const problem = checkAssetFile(value, this.assetDir);
+      if (problem) {
+        this.report(path, problem);
+      }
+    }
+  }
+
+  /**
+   * Check the optional id and name of the camera, a light or an object;
+   * ids must be unique across the whole scene
+   */
+  private checkIdentity(value: Record<string, any>, path: string, isObject: boolean): void {
+    if (value.name !== undefined && typeof value.name !== 'string') {
+      this.report(`${path}.name`, 'Must be a string');
+    }
+    if (value.id === undefined) return;
+
+    if (this.repeatDepth > 0) {
+      this.report(`${path}.id`, 'Objects inside a repeat cannot have an id, as every copy would share it; give the repeat one instead');
+      return;
+    }
+    if (typeof value.id !== 'string' || !ID_PATTERN.test(value.id)) {
+      this.report(`${path}.id`, 'Must be a string of letters, digits and underscores, not starting with a digit');
+      return;
+    }
+    const previous = this.ids.get(value.id);
+    if (previous !== undefined) {
+      this.report(`${path}.id`, `Duplicate id "${value.id}", already used by ${previous}`);
+      return;
+    }
+    this.ids.set(value.id, path);
+    if (isObject) {
+      this.objectIds.add(value.id);
+    }
+  }
+
+  /**
+   * Check a point given as [x, y, z] or as the id of an object
+   */
+  private checkPoint(value: unknown, path: string, required: boolean): void {
+    if (typeof value === 'string') {
+      this.references.push({ id: value, path });
+      return;
+    }
+    this.checkVector(value, path, required);
+  }
+
+  /**
+   * Check that every id used in place of a point names an object
+   */
+  private checkReferences(): void {
+    for (const { id, path } of this.references) {
+      if (this.objectIds.has(id)) continue;
+      this.report(path, this.ids.has(id)
+        ? `"${id}" is not an object; only objects can be referred to by id`
+        : `No object with id "${id}"`);
+    }
+  }
+
+  /**
+   * Validate that a value is an array and validate each item
+   */
+  private validateArray(value: unknown, path: string, validateItem: (item: unknown, path: string) => void): void {
+    if (!Array.isArray(value)) {
+      this.report(path, 'Must be an array');
+      return;
+    }
+
+    value.forEach((item, index) => validateItem(item, `${path}[${index}]`));
+  }
+
+  /**
+   * Check a [x, y, z] tuple of finite numbers
+   */
+  private checkVector(value: unknown, path: string, required: boolean): void {
+    if (value === undefined) {
+      if (required) this.report(path, 'Required [x, y, z] array is missing');
+      return;
+    }
+    if (!Array.isArray(value)) {
+      this.report(path, 'Must be an [x, y, z] array');
+      return;
+    }
+    if (value.length !== 3) {
+      this.report(path, `Must have exactly 3 components, got ${value.length}`);
+      return;
+    }
+    value.forEach((component, index) => {
+      if (typeof component !== 'number' || !Number.isFinite(component)) {
+        this.report(`${path}[${index}]`, 'Must be a finite number');
+      }
+    });
+  }
+
+  /**
+   * Check an optional pair of finite numbers, [u, v] unless named otherwise
+   */
+  private checkUV(value: unknown, path: string, shape: string = '[u, v]'): void {
+    if (value === undefined) return;
+    if (!Array.isArray(value) || value.length !== 2) {
+      this.report(path, `Must be a ${shape} array`);
+      return;
+    }
+    value.forEach((component, index) => {
+      if (typeof component !== 'number' || !Number.isFinite(component)) {
+        this.report(`${path}[${index}]`, 'Must be a finite number');
+      }
+    });
+  }
+
+  /**
+   * Check that the given properties, where present, are booleans
+   */
+  private checkBooleans(value: Record<string, any>, path: string, keys: string[]): void {
+    for (const key of keys) {
+      if (value[key] !== undefined && typeof value[key] !== 'boolean') {
+        this.report(`${path}.${key}`, 'Must be a boolean');
+      }
+    }
+  }
+
+  /**
+   * Check a finite number, optionally within a range
+   */
+  private checkNumber(
+    value: unknown,
+    path: string,
+    range: { min?: number; max?: number; exclusive?: boolean; integer?: boolean } = {}
+  ): void {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.report(path, 'Must be a finite number');
+      return;
+    }
+    if (range.integer && !Number.isInteger(value)) {
+      this.report(path, 'Must be an integer');
+    }
+
+    const { min, max, exclusive } = range;
+    const belowMin = min !== undefined && (exclusive ? value <= min : value < min);
+    const aboveMax = max !== undefined && (exclusive ? value >= max : value > max);
+
+    if (belowMin || aboveMax) {
+      const bounds = max === undefined
+        ? `${exclusive ? 'greater than' : 'at least'} ${min}`
+        : min === undefined
+          ? `${exclusive ? 'less than' : 'at most'} ${max}`
+          : `between ${min} and ${max}${exclusive ? ' (exclusive)' : ''}`;
+      this.report(path, `Must be ${bounds}, got ${value}`);
+    }
+  }
+
+  /**
+   * Check a color string: hex (#rgb or #rrggbb), a CSS color name, rgb() or hsl()
+   */
+  private checkColor(value: unknown, path: string): void {
+    if (typeof value !== 'string') {
+      this.report(path, 'Color is required and must be a string like "#ff0000"');
+      return;
+    }
+    if (!parseColor(value)) {
+      this.report(path, `Invalid color ${JSON.stringify(value)}, expected hex ("#ff0000"), a color name ("red"), rgb() or hsl()`);
+    }
+  }
+
+  /**
+   * Check that a value is one of the allowed strings
+   */
+  private checkEnum(value: unknown, path: string, allowed: string[], required: boolean): void {
+    if (value === undefined) {
+      if (required) this.report(path, `Required, expected one of ${allowed.join(', ')}`);
+      return;
+    }
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+      this.report(path, `Invalid value ${JSON.stringify(value)}, expected one of ${allowed.join(', ')}`);
+    }
+  }
+
+  /**
+   * Warn about properties the generator will ignore
+   */
+  private checkUnknownKeys(value: Record<string, unknown>, path: string, known: string[]): void {
+    for (const key of Object.keys(value)) {
+      if (!known.includes(key)) {
+        this.report(path ? `${path}.${key}` : key, 'Unknown property will be ignored', 'warning');
+      }
+    }
+  }
+
+  /**
+   * Check for a plain (non-array) object
+   */
+  private isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Record an issue at a JSON path
+   */
+  private report(path: string, message: string, severity: ValidationSeverity = 'error'): void {
+    this.issues.push({ path, severity, message });
+  }
+}
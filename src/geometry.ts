@@ -0,0 +1,314 @@
+import { MeshConfig, Outline, Vector3Array } from './types/dsl.js';
+
+/**
+ * Absolute path drawing command, in the argument order of the Three.js
+ * Path methods (moveTo, lineTo, quadraticCurveTo, bezierCurveTo, closePath)
+ */
+export type PathCommand =
+  | ['M', number, number]
+  | ['L', number, number]
+  | ['Q', number, number, number, number]
+  | ['C', number, number, number, number, number, number]
+  | ['Z'];
+
+/**
+ * Constructor call for a Three.js geometry, with every DSL default resolved
+ *
+ * Both SceneGenerator (which prints the call) and the tessellator (which
+ * runs it) build geometry from this, so they always agree.
+ */
+export type GeometrySpec =
+  | { kind: 'primitive'; className: string; args: (number | boolean)[] }
+  | { kind: 'lathe'; points: PathCommand[]; args: number[] }
+  | { kind: 'extrude'; shape: PathCommand[]; holes: PathCommand[][]; options: Record<string, number | boolean> }
+  | { kind: 'tube'; path: Vector3Array[]; args: (number | boolean)[] }
+  | { kind: 'text'; text: string; font: string; options: Record<string, number | boolean> };
+
+/**
+ * Typeface files shipped in three/examples/fonts
+ */
+export const FONTS: Record<string, string> = {
+  helvetiker: 'helvetiker',
+  optimer: 'optimer',
+  gentilis: 'gentilis',
+  droid_sans: 'droid/droid_sans',
+  droid_serif: 'droid/droid_serif'
+};
+
+const POLYHEDRA: Record<string, string> = {
+  icosahedron: 'IcosahedronGeometry',
+  dodecahedron: 'DodecahedronGeometry',
+  octahedron: 'OctahedronGeometry'
+};
+
+const DEFAULT_LATHE: Outline = [[0, -1], [0.5, -1], [0.5, 1], [0, 1]];
+const DEFAULT_SHAPE: Outline = [[-0.5, -0.5], [0.5, -0.5], [0.5, 0.5], [-0.5, 0.5]];
+const DEFAULT_PATH: Vector3Array[] = [[-1, 0, 0], [0, 1, 0], [1, 0, 0]];
+
+/**
+ * Resolve the geometry of a mesh
+ *
+ * @throws Error when a path string cannot be parsed
+ */
+export function geometrySpec(obj: MeshConfig): GeometrySpec {
+  const primitive = (className: string, ...args: (number | boolean)[]): GeometrySpec =>
+    ({ kind: 'primitive', className, args });
+  const sweep = (start: number | undefined, length: number | undefined): number[] =>
+    [start ?? 0, length ?? Math.PI * 2];
+
+  switch (obj.type) {
+    case 'cube':
+      return primitive(
+        'BoxGeometry',
+        obj.width || 1,
+        obj.height || 1,
+        obj.depth || 1,
+        obj.widthSegments ?? 1,
+        obj.heightSegments ?? 1,
+        obj.depthSegments ?? 1
+      );
+
+    case 'sphere':
+      return primitive(
+        'SphereGeometry',
+        obj.radius || 1,
+        obj.widthSegments ?? obj.segments ?? 32,
+        obj.heightSegments ?? obj.segments ?? 32,
+        ...sweep(obj.phiStart, obj.phiLength),
+        obj.thetaStart ?? 0,
+        obj.thetaLength ?? Math.PI
+      );
+
+    case 'plane':
+      return primitive('PlaneGeometry', obj.width || 10, obj.height || 10, obj.widthSegments ?? 1, obj.heightSegments ?? 1);
+
+    case 'cylinder':
+      return primitive(
+        'CylinderGeometry',
+        obj.radiusTop ?? (obj.radius || 1),
+        obj.radiusBottom ?? (obj.radius || 1),
+        obj.height || 2,
+        obj.radialSegments ?? obj.segments ?? 32,
+        obj.heightSegments ?? 1,
+        obj.openEnded ?? false,
+        ...sweep(obj.thetaStart, obj.thetaLength)
+      );
+
+    case 'cone':
+      return primitive(
+        'ConeGeometry',
+        obj.radius || 1,
+        obj.height || 2,
+        obj.radialSegments ?? obj.segments ?? 32,
+        obj.heightSegments ?? 1,
+        obj.openEnded ?? false,
+        ...sweep(obj.thetaStart, obj.thetaLength)
+      );
+
+    case 'torus':
+      const torusR = obj.radius || 1;
+      return primitive(
+        'TorusGeometry',
+        torusR,
+        obj.tube ?? torusR * 0.4,
+        obj.radialSegments ?? 16,
+        obj.tubularSegments ?? 100,
+        obj.arc ?? Math.PI * 2
+      );
+
+    case 'capsule':
+      return primitive('CapsuleGeometry', obj.radius || 0.5, obj.length ?? 1, obj.capSegments ?? 8, obj.radialSegments ?? 16);
+
+    case 'ring':
+      return primitive(
+        'RingGeometry',
+        obj.innerRadius ?? 0.5,
+        obj.outerRadius ?? 1,
+        obj.thetaSegments ?? 32,
+        obj.phiSegments ?? 1,
+        ...sweep(obj.thetaStart, obj.thetaLength)
+      );
+
+    case 'icosahedron':
+    case 'dodecahedron':
+    case 'octahedron':
+      return primitive(POLYHEDRA[obj.type], obj.radius || 1, obj.detail ?? 0);
+
+    case 'lathe':
+      return {
+        kind: 'lathe',
+        points: outlineCommands(obj.points ?? DEFAULT_LATHE, false),
+        args: [obj.segments ?? 32, ...sweep(obj.phiStart, obj.phiLength)]
+      };
+
+    case 'extrude':
+      return {
+        kind: 'extrude',
+        shape: outlineCommands(obj.shape ?? DEFAULT_SHAPE, true),
+        holes: (obj.holes || []).map(hole => outlineCommands(hole, true)),
+        options: {
+          depth: obj.depth ?? 1,
+          steps: obj.steps ?? 1,
+          curveSegments: obj.curveSegments ?? 12,
+          ...bevelOptions(obj)
+        }
+      };
+
+    case 'tube':
+      return {
+        kind: 'tube',
+        path: obj.path && obj.path.length >= 2 ? obj.path : DEFAULT_PATH,
+        args: [obj.tubularSegments ?? 64, obj.radius ?? 0.1, obj.radialSegments ?? 8, obj.closed ?? false]
+      };
+
+    case 'text':
+      return {
+        kind: 'text',
+        text: obj.text ?? '',
+        font: `${FONTS[obj.font || 'helvetiker'] || FONTS.helvetiker}_${obj.bold ? 'bold' : 'regular'}`,
+        options: {
+          size: obj.size ?? 1,
+          // Called height until Three.js r163
+          height: obj.depth ?? 0.2,
+          curveSegments: obj.curveSegments ?? 12,
+          ...bevelOptions(obj)
+        }
+      };
+
+    default:
+      return primitive('BoxGeometry', 1, 1, 1);
+  }
+}
+
+/**
+ * Bevel options shared by extrude and text; bevels are off unless enabled
+ */
+function bevelOptions(obj: MeshConfig): Record<string, number | boolean> {
+  if (!obj.bevelEnabled) {
+    return { bevelEnabled: false };
+  }
+  return {
+    bevelEnabled: true,
+    bevelThickness: obj.bevelThickness ?? 0.1,
+    bevelSize: obj.bevelSize ?? 0.05,
+    bevelOffset: obj.bevelOffset ?? 0,
+    bevelSegments: obj.bevelSegments ?? 3
+  };
+}
+
+/**
+ * Drawing commands for an outline given as points or a path string
+ *
+ * @param close whether a point list forms a closed shape
+ */
+export function outlineCommands(outline: Outline, close: boolean): PathCommand[] {
+  if (typeof outline === 'string') {
+    return parsePath(outline);
+  }
+
+  const commands: PathCommand[] = outline.map(([x, y], index) => [index === 0 ? 'M' : 'L', x, y]);
+  if (close) commands.push(['Z']);
+  return commands;
+}
+
+const COMMAND_ARITY: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, Q: 4, C: 6, Z: 0 };
+
+/**
+ * Parse an SVG-like path string into absolute commands
+ *
+ * Supports M, L, H, V, Q, C and Z; lowercase letters take coordinates
+ * relative to the current point. As in SVG, extra coordinate pairs after
+ * M are treated as L.
+ *
+ * @throws Error describing the first problem found
+ */
+export function parsePath(d: string): PathCommand[] {
+  const tokens = d.match(/[A-Za-z]|-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/g) || [];
+  const leftover = d.replace(/[A-Za-z]|-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?|[\s,]/g, '');
+  if (leftover) {
+    throw new Error(`Invalid path: unexpected ${JSON.stringify(leftover[0])}`);
+  }
+
+  const commands: PathCommand[] = [];
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  let command = '';
+  let i = 0;
+
+  while (i < tokens.length) {
+    if (/[A-Za-z]/.test(tokens[i])) {
+      command = tokens[i++];
+      if (COMMAND_ARITY[command.toUpperCase()] === undefined) {
+        throw new Error(`Invalid path: unknown command "${command}"`);
+      }
+    } else if (!command) {
+      throw new Error('Invalid path: must start with a command');
+    }
+
+    const upper = command.toUpperCase();
+    const relative = command !== upper;
+    const arity = COMMAND_ARITY[upper];
+    const args = tokens.slice(i, i + arity).map(Number);
+    if (args.length < arity || args.some(Number.isNaN)) {
+      throw new Error(`Invalid path: "${command}" needs ${arity} numbers`);
+    }
+    i += arity;
+
+    if (upper !== 'M' && commands.length === 0) {
+      throw new Error('Invalid path: must start with M');
+    }
+
+    // Relative coordinates are offsets from the point before this command
+    const px = (value: number) => (relative ? x + value : value);
+    const py = (value: number) => (relative ? y + value : value);
+
+    switch (upper) {
+      case 'M':
+        x = px(args[0]);
+        y = py(args[1]);
+        startX = x;
+        startY = y;
+        commands.push(['M', x, y]);
+        // Further pairs continue as lines
+        command = relative ? 'l' : 'L';
+        break;
+      case 'L':
+        commands.push(['L', (x = px(args[0])), (y = py(args[1]))]);
+        break;
+      case 'H':
+        commands.push(['L', (x = px(args[0])), y]);
+        break;
+      case 'V':
+        commands.push(['L', x, (y = py(args[0]))]);
+        break;
+      case 'Q': {
+        const next: PathCommand = ['Q', px(args[0]), py(args[1]), px(args[2]), py(args[3])];
+        commands.push(next);
+        [x, y] = [next[3], next[4]];
+        break;
+      }
+      case 'C': {
+        const next: PathCommand = ['C', px(args[0]), py(args[1]), px(args[2]), py(args[3]), px(args[4]), py(args[5])];
+        commands.push(next);
+        [x, y] = [next[5], next[6]];
+        break;
+      }
+      case 'Z':
+        commands.push(['Z']);
+        x = startX;
+        y = startY;
+        break;
+    }
+
+    if (upper === 'Z' && i < tokens.length && !/[A-Za-z]/.test(tokens[i])) {
+      throw new Error('Invalid path: "Z" takes no numbers');
+    }
+  }
+
+  if (commands.length === 0) {
+    throw new Error('Invalid path: no commands');
+  }
+  return commands;
+}
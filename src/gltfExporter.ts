@@ -0,0 +1,549 @@
+import { SceneDSL, ObjectConfig, MeshConfig, LightConfig, MaterialConfig, TextureConfig, Vector3Array } from './types/dsl.js';
+import { tessellate, wireframeIndices } from './tessellator.js';
+import { geometrySpec } from './geometry.js';
+import { eulerToQuaternion, lookAtQuaternion } from './math3d.js';
+import { colorToLinearRGB } from './colors.js';
+import { objectPositions, resolvePoint } from './sceneIds.js';
+import { expandRepeat } from './layouts.js';
+import { loadTextureImage, textureImageKey } from './textures.js';
+
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const FLOAT = 5126;
+const UNSIGNED_SHORT = 5123;
+const UNSIGNED_INT = 5125;
+const MODE_LINES = 1;
+const MODE_TRIANGLES = 4;
+const REPEAT = 10497;
+const LINEAR = 9729;
+const LINEAR_MIPMAP_LINEAR = 9987;
+
+/** Image types core glTF can reference */
+const GLTF_IMAGE_TYPES = ['image/png', 'image/jpeg'];
+
+const GLB_MAGIC = 0x46546c67;
+const GLB_CHUNK_JSON = 0x4e4f534a;
+const GLB_CHUNK_BIN = 0x004e4942;
+
+/**
+ * Default light positions when the DSL omits them (same as buildSceneIR)
+ */
+const LIGHT_POSITIONS: Record<string, Vector3Array> = {
+  directional: [5, 10, 7.5],
+  point: [0, 5, 0],
+  spot: [0, 10, 0]
+};
+
+export interface GLTFNode {
+  name?: string;
+  children?: number[];
+  mesh?: number;
+  camera?: number;
+  translation?: number[];
+  rotation?: number[];
+  scale?: number[];
+  extensions?: Record<string, unknown>;
+  extras?: Record<string, unknown>;
+}
+
+/**
+ * glTF 2.0 JSON document (only the parts this exporter writes)
+ */
+export interface GLTFDocument {
+  asset: { version: '2.0'; generator: string };
+  scene: number;
+  scenes: { name?: string; nodes: number[]; extras?: Record<string, unknown> }[];
+  nodes: GLTFNode[];
+  meshes: { name?: string; primitives: Record<string, unknown>[] }[];
+  materials: Record<string, unknown>[];
+  cameras: Record<string, unknown>[];
+  accessors: Record<string, unknown>[];
+  bufferViews: Record<string, unknown>[];
+  images?: { bufferView: number; mimeType: string }[];
+  samplers?: Record<string, unknown>[];
+  textures?: { sampler: number; source: number }[];
+  /** Absent when the scene has no mesh data */
+  buffers?: { byteLength: number; uri?: string }[];
+  extensionsUsed?: string[];
+  extensions?: Record<string, unknown>;
+}
+
+export interface GLTFExportOptions {
+  /** File name the .gltf references for its binary buffer (default scene.bin) */
+  binName?: string;
+  /** Directory texture file paths are resolved against (default: the working directory) */
+  assetDir?: string;
+}
+
+/**
+ * Builds glTF 2.0 assets (JSON + .bin, or a single .glb) from DSL
+ *
+ * Runs in plain Node: meshes are tessellated in TypeScript and written
+ * into a Buffer, no DOM or WebGL required.
+ */
+export class GLTFExporter {
+  private doc!: GLTFDocument;
+  private chunks: Buffer[] = [];
+  private byteLength = 0;
+  private extensionsUsed = new Set<string>();
+  private lights: Record<string, unknown>[] = [];
+  /** Image index by texture image key */
+  private images = new Map<string, number>();
+  /** Accessors of each tessellated geometry, by geometry key */
+  private primitives = new Map<string, { attributes: Record<string, number>; indices: number }>();
+  /** Mesh index by geometry and material */
+  private meshIndices = new Map<string, number>();
+  private assetDir = process.cwd();
+  /** World positions of the objects lights and the camera may aim at, by id */
+  private positions = new Map<string, Vector3Array>();
+
+  /**
+   * Export as a .gltf JSON document and its binary buffer
+   */
+  exportGLTF(dsl: SceneDSL, options: GLTFExportOptions = {}): { json: GLTFDocument; bin: Buffer } {
+    const { json, bin } = this.build(dsl, options);
+    if (json.buffers) {
+      json.buffers[0].uri = options.binName || 'scene.bin';
+    }
+    return { json, bin };
+  }
+
+  /**
+   * Export as a single binary .glb file
+   */
+  exportGLB(dsl: SceneDSL, options: Pick<GLTFExportOptions, 'assetDir'> = {}): Buffer {
+    const { json, bin } = this.build(dsl, options);
+    const jsonChunk = this.pad(Buffer.from(JSON.stringify(json), 'utf-8'), 0x20);
+    const chunks = [this.chunkHeader(jsonChunk.length, GLB_CHUNK_JSON), jsonChunk];
+
+    // The BIN chunk is optional and omitted for scenes without meshes
+    if (bin.length > 0) {
+      const binChunk = this.pad(bin, 0);
+      chunks.push(this.chunkHeader(binChunk.length, GLB_CHUNK_BIN), binChunk);
+    }
+
+    const header = Buffer.alloc(12);
+    const totalLength = 12 + chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+    header.writeUInt32LE(GLB_MAGIC, 0);
+    header.writeUInt32LE(2, 4);
+    header.writeUInt32LE(totalLength, 8);
+
+    return Buffer.concat([header, ...chunks]);
+  }
+
+  /**
+   * Build the document and binary buffer
+   */
+  private build(dsl: SceneDSL, options: GLTFExportOptions): { json: GLTFDocument; bin: Buffer } {
+    this.doc = {
+      asset: { version: '2.0', generator: 'threejs-ai-scene-generator' },
+      scene: 0,
+      scenes: [{ nodes: [], extras: { background: dsl.background || '#000000' } }],
+      nodes: [],
+      meshes: [],
+      materials: [],
+      cameras: [],
+      accessors: [],
+      bufferViews: [],
+      images: [],
+      samplers: [],
+      textures: [],
+      buffers: [{ byteLength: 0 }]
+    };
+    this.chunks = [];
+    this.byteLength = 0;
+    this.extensionsUsed = new Set();
+    this.lights = [];
+    this.images = new Map();
+    this.primitives = new Map();
+    this.meshIndices = new Map();
+    this.assetDir = options.assetDir || process.cwd();
+    this.positions = objectPositions(dsl);
+
+    const roots = this.doc.scenes[0].nodes;
+    roots.push(this.addCamera(dsl));
+    dsl.lights.forEach((light, index) => {
+      const node = this.addLight(light, index);
+      if (node !== null) roots.push(node);
+    });
+    dsl.objects.forEach(obj => roots.push(this.addNode(obj)));
+
+    if (this.lights.length > 0) {
+      this.doc.extensions = { KHR_lights_punctual: { lights: this.lights } };
+    }
+    if (this.extensionsUsed.size > 0) {
+      this.doc.extensionsUsed = [...this.extensionsUsed];
+    }
+
+    const bin = Buffer.concat(this.chunks);
+    this.doc.buffers![0].byteLength = bin.length;
+    this.removeEmptyArrays();
+
+    return { json: this.doc, bin };
+  }
+
+  /**
+   * Add the perspective camera node
+   */
+  private addCamera(dsl: SceneDSL): number {
+    const { position, lookAt, fov = 75 } = dsl.camera;
+
+    this.doc.cameras.push({
+      type: 'perspective',
+      perspective: { yfov: (fov * Math.PI) / 180, znear: 0.1, zfar: 1000 }
+    });
+
+    return this.pushNode({
+      name: dsl.camera.name ?? dsl.camera.id ?? 'camera',
+      camera: this.doc.cameras.length - 1,
+      translation: position,
+      rotation: lookAtQuaternion(position, resolvePoint(lookAt, this.positions))
+    });
+  }
+
+  /**
+   * Add a KHR_lights_punctual light node; ambient light has no glTF equivalent
+   */
+  private addLight(light: LightConfig, index: number): number | null {
+    if (light.type === 'ambient') return null;
+
+    const position = light.position || LIGHT_POSITIONS[light.type];
+    const target = resolvePoint(light.target || [0, 0, 0], this.positions);
+    const definition: Record<string, unknown> = {
+      name: light.name ?? light.id ?? `${light.type}Light${index}`,
+      type: light.type,
+      color: colorToLinearRGB(light.color),
+      intensity: light.intensity
+    };
+
+    if (light.type === 'spot') {
+      // THREE.SpotLight defaults: angle PI / 3, no penumbra; the inner cone
+      // must be strictly smaller, so keep the falloff as narrow as possible
+      definition.spot = { innerConeAngle: (Math.PI / 3) * 0.99, outerConeAngle: Math.PI / 3 };
+    }
+
+    this.extensionsUsed.add('KHR_lights_punctual');
+    this.lights.push(definition);
+
+    return this.pushNode({
+      name: definition.name as string,
+      translation: position,
+      ...(light.type === 'point' ? {} : { rotation: lookAtQuaternion(position, target) }),
+      extensions: { KHR_lights_punctual: { light: this.lights.length - 1 } }
+    });
+  }
+
+  /**
+   * Add a mesh or group node and, recursively, its children. Models are
+   * not merged in: they become empty nodes naming the file in extras.model.
+   * Repeats become a group node of copies.
+   */
+  private addNode(obj: ObjectConfig): number {
+    const transform = {
+      translation: obj.position,
+      rotation: eulerToQuaternion(obj.rotation || [0, 0, 0]),
+      scale: obj.scale || [1, 1, 1]
+    };
+
+    if (obj.type === 'group') {
+      const index = this.pushNode({ name: obj.name ?? obj.id ?? 'group', ...transform });
+      const children = obj.children.map(child => this.addNode(child));
+      if (children.length > 0) {
+        this.doc.nodes[index].children = children;
+      }
+      return index;
+    }
+
+    if (obj.type === 'model') {
+      return this.pushNode({ name: obj.name ?? obj.id ?? 'model', ...transform, extras: { model: obj.file } });
+    }
+
+    if (obj.type === 'repeat') {
+      return this.addNode(expandRepeat(obj));
+    }
+
+    return this.pushNode({ name: obj.name ?? obj.id ?? obj.type, mesh: this.addMesh(obj), ...transform });
+  }
+
+  /**
+   * Tessellate a primitive and add its mesh and material. Objects with the
+   * same geometry, e.g. the copies a repeat makes, share its accessors, and
+   * share the whole mesh when their materials match too.
+   */
+  private addMesh(obj: MeshConfig): number {
+    const wireframe = !!obj.material.wireframe;
+    const geometryKey = JSON.stringify([geometrySpec(obj), wireframe]);
+    const meshKey = JSON.stringify([geometryKey, obj.material]);
+    const existing = this.meshIndices.get(meshKey);
+    if (existing !== undefined) return existing;
+
+    let primitive = this.primitives.get(geometryKey);
+    if (!primitive) {
+      primitive = this.addPrimitive(obj, wireframe);
+      this.primitives.set(geometryKey, primitive);
+    }
+
+    this.doc.meshes.push({
+      name: obj.type,
+      primitives: [{
+        ...primitive,
+        material: this.addMaterial(obj.material),
+        mode: wireframe ? MODE_LINES : MODE_TRIANGLES
+      }]
+    });
+
+    const index = this.doc.meshes.length - 1;
+    this.meshIndices.set(meshKey, index);
+    return index;
+  }
+
+  /**
+   * Tessellate a primitive into vertex attribute and index accessors
+   */
+  private addPrimitive(obj: MeshConfig, wireframe: boolean): { attributes: Record<string, number>; indices: number } {
+    const data = tessellate(obj);
+    const vertexCount = data.positions.length / 3;
+    const indices = wireframe ? wireframeIndices(data.indices) : data.indices;
+
+    const attributes = {
+      POSITION: this.addAccessor(new Float32Array(data.positions), 'VEC3', ARRAY_BUFFER, true),
+      NORMAL: this.addAccessor(new Float32Array(data.normals), 'VEC3', ARRAY_BUFFER),
+      // Three.js UVs start at the bottom of the image, glTF UVs at the top
+      TEXCOORD_0: this.addAccessor(
+        new Float32Array(data.uvs.map((value, i) => (i % 2 === 1 ? 1 - value : value))),
+        'VEC2',
+        ARRAY_BUFFER
+      )
+    };
+    const indexArray = vertexCount > 65535 ? new Uint32Array(indices) : new Uint16Array(indices);
+
+    return { attributes, indices: this.addAccessor(indexArray, 'SCALAR', ELEMENT_ARRAY_BUFFER) };
+  }
+
+  /**
+   * Convert a DSL material to a metallic-roughness PBR material
+   */
+  private addMaterial(material: MaterialConfig): number {
+    const opacity = material.opacity ?? 1;
+    const baseColorFactor = [...colorToLinearRGB(material.color), opacity];
+    const gltfMaterial: Record<string, unknown> = {
+      name: `${material.type || 'standard'}-${material.color}`
+    };
+
+    if (material.transparent || opacity < 1) {
+      gltfMaterial.alphaMode = 'BLEND';
+    }
+    if (material.side === 'double') {
+      gltfMaterial.doubleSided = true;
+    }
+
+    switch (material.type) {
+      case 'basic':
+        this.extensionsUsed.add('KHR_materials_unlit');
+        gltfMaterial.pbrMetallicRoughness = { baseColorFactor, metallicFactor: 0, roughnessFactor: 1 };
+        gltfMaterial.extensions = { KHR_materials_unlit: {} };
+        break;
+
+      case 'phong':
+      case 'lambert':
+        gltfMaterial.pbrMetallicRoughness = {
+          baseColorFactor,
+          metallicFactor: 0,
+          roughnessFactor: material.type === 'lambert' ? 1 : 0.5
+        };
+        break;
+
+      case 'standard':
+      default:
+        gltfMaterial.pbrMetallicRoughness = {
+          baseColorFactor,
+          metallicFactor: material.metalness ?? 0,
+          roughnessFactor: material.roughness ?? 1
+        };
+        break;
+    }
+
+    this.addMaterialTextures(material, gltfMaterial);
+    if (material.type !== 'basic') {
+      this.addEmission(material, gltfMaterial);
+    }
+
+    this.doc.materials.push(gltfMaterial);
+    return this.doc.materials.length - 1;
+  }
+
+  /**
+   * Emissive color, with KHR_materials_emissive_strength for intensities above 1
+   */
+  private addEmission(material: MaterialConfig, gltfMaterial: Record<string, unknown>): void {
+    if (material.emissive === undefined && !material.emissiveMap) return;
+
+    // Like Three.js, an emissive map without a color is multiplied by white
+    const intensity = material.emissiveIntensity ?? 1;
+    const color = colorToLinearRGB(material.emissive ?? '#ffffff');
+    const scale = Math.min(intensity, 1);
+    gltfMaterial.emissiveFactor = color.map(channel => channel * scale);
+
+    if (intensity > 1) {
+      this.extensionsUsed.add('KHR_materials_emissive_strength');
+      gltfMaterial.extensions = {
+        ...(gltfMaterial.extensions as Record<string, unknown> | undefined),
+        KHR_materials_emissive_strength: { emissiveStrength: intensity }
+      };
+    }
+  }
+
+  /**
+   * Color, normal and emissive maps. glTF packs roughness into the green
+   * channel of a combined metallic-roughness texture whose blue channel
+   * scales metalness, so roughness maps are left out rather than guessed at.
+   */
+  private addMaterialTextures(material: MaterialConfig, gltfMaterial: Record<string, unknown>): void {
+    const pbr = gltfMaterial.pbrMetallicRoughness as Record<string, unknown>;
+
+    const map = material.map && this.addTexture(material.map);
+    if (map) pbr.baseColorTexture = map;
+
+    if (material.type === 'basic') return;
+
+    const normalMap = material.normalMap && this.addTexture(material.normalMap);
+    if (normalMap) gltfMaterial.normalTexture = normalMap;
+
+    const emissiveMap = material.emissiveMap && this.addTexture(material.emissiveMap);
+    if (emissiveMap) gltfMaterial.emissiveTexture = emissiveMap;
+  }
+
+  /**
+   * Texture info for a DSL texture, embedding its image in the binary buffer
+   * once; null for image types glTF cannot hold (WebP, GIF)
+   */
+  private addTexture(texture: TextureConfig): Record<string, unknown> | null {
+    const key = textureImageKey(texture);
+    let source = this.images.get(key);
+
+    if (source === undefined) {
+      const { mimeType, bytes } = loadTextureImage(texture, this.assetDir);
+      if (!GLTF_IMAGE_TYPES.includes(mimeType)) return null;
+
+      this.doc.images!.push({ bufferView: this.addBufferView(bytes), mimeType });
+      source = this.doc.images!.length - 1;
+      this.images.set(key, source);
+    }
+
+    if (this.doc.samplers!.length === 0) {
+      this.doc.samplers!.push({ magFilter: LINEAR, minFilter: LINEAR_MIPMAP_LINEAR, wrapS: REPEAT, wrapT: REPEAT });
+    }
+    this.doc.textures!.push({ sampler: 0, source });
+    const info: Record<string, unknown> = { index: this.doc.textures!.length - 1 };
+
+    const [repeatU, repeatV] = texture.repeat || [1, 1];
+    const [offsetU, offsetV] = texture.offset || [0, 0];
+    if (repeatU !== 1 || repeatV !== 1 || offsetU !== 0 || offsetV !== 0) {
+      // Three.js offsets in flipped-V texture space; glTF UVs start at the top
+      this.extensionsUsed.add('KHR_texture_transform');
+      info.extensions = {
+        KHR_texture_transform: { offset: [offsetU, 1 - repeatV - offsetV], scale: [repeatU, repeatV] }
+      };
+    }
+
+    return info;
+  }
+
+  /**
+   * Append raw bytes (such as an image) to the binary buffer
+   */
+  private addBufferView(bytes: Buffer): number {
+    this.doc.bufferViews.push({ buffer: 0, byteOffset: this.byteLength, byteLength: bytes.length });
+    const padded = this.pad(bytes, 0);
+    this.chunks.push(padded);
+    this.byteLength += padded.length;
+    return this.doc.bufferViews.length - 1;
+  }
+
+  /**
+   * Append typed array data to the binary buffer and describe it with an accessor
+   */
+  private addAccessor(
+    data: Float32Array | Uint16Array | Uint32Array,
+    type: 'SCALAR' | 'VEC2' | 'VEC3',
+    target: number,
+    withBounds: boolean = false
+  ): number {
+    const bytes = this.pad(Buffer.from(data.buffer, data.byteOffset, data.byteLength), 0);
+
+    this.doc.bufferViews.push({
+      buffer: 0,
+      byteOffset: this.byteLength,
+      byteLength: data.byteLength,
+      target
+    });
+    this.chunks.push(bytes);
+    this.byteLength += bytes.length;
+
+    const size = type === 'SCALAR' ? 1 : type === 'VEC2' ? 2 : 3;
+    const accessor: Record<string, unknown> = {
+      bufferView: this.doc.bufferViews.length - 1,
+      componentType: data instanceof Float32Array ? FLOAT : data instanceof Uint32Array ? UNSIGNED_INT : UNSIGNED_SHORT,
+      count: data.length / size,
+      type
+    };
+
+    // POSITION accessors must declare their bounds
+    if (withBounds) {
+      const min = new Array(size).fill(Infinity);
+      const max = new Array(size).fill(-Infinity);
+      for (let i = 0; i < data.length; i++) {
+        min[i % size] = Math.min(min[i % size], data[i]);
+        max[i % size] = Math.max(max[i % size], data[i]);
+      }
+      accessor.min = min;
+      accessor.max = max;
+    }
+
+    this.doc.accessors.push(accessor);
+    return this.doc.accessors.length - 1;
+  }
+
+  /**
+   * Drop top-level arrays left empty (glTF requires at least one item),
+   * including the buffer when no mesh data was written
+   */
+  private removeEmptyArrays(): void {
+    const doc = this.doc as unknown as Record<string, unknown>;
+
+    if (this.doc.buffers?.[0]?.byteLength === 0) {
+      delete doc.buffers;
+    }
+    for (const key of ['meshes', 'materials', 'cameras', 'accessors', 'bufferViews', 'images', 'samplers', 'textures']) {
+      if (Array.isArray(doc[key]) && (doc[key] as unknown[]).length === 0) {
+        delete doc[key];
+      }
+    }
+  }
+
+  /**
+   * Add a node and return its index
+   */
+  private pushNode(node: GLTFNode): number {
+    this.doc.nodes.push(node);
+    return this.doc.nodes.length - 1;
+  }
+
+  /**
+   * Pad to a 4-byte boundary as glTF requires for buffer views and GLB chunks
+   */
+  private pad(buffer: Buffer, fill: number): Buffer {
+    const remainder = buffer.length % 4;
+    return remainder === 0 ? buffer : Buffer.concat([buffer, Buffer.alloc(4 - remainder, fill)]);
+  }
+
+  /**
+   * GLB chunk header: length and type
+   */
+  private chunkHeader(length: number, type: number): Buffer {
+    const header = Buffer.alloc(8);
+    header.writeUInt32LE(length, 0);
+    header.writeUInt32LE(type, 4);
+    return header;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Minimal RFC 6902 JSON Patch implementation
+ */
+
+export type JSONPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+const OPERATIONS = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+
+/**
+ * Error thrown when a patch is malformed or cannot be applied
+ */
+export class JSONPatchError extends Error {
+  /** Index of the failing operation, -1 when the patch itself is malformed */
+  readonly operationIndex: number;
+
+  constructor(message: string, operationIndex: number = -1) {
+    super(operationIndex >= 0 ? `Patch operation ${operationIndex}: ${message}` : message);
+    this.name = 'JSONPatchError';
+    this.operationIndex = operationIndex;
+  }
+}
+
+/**
+ * Check that a value is a well-formed list of patch operations
+ */
+export function validatePatch(patch: unknown): JSONPatchOperation[] {
+  if (!Array.isArray(patch)) {
+    throw new JSONPatchError('Patch must be an array of operations');
+  }
+
+  patch.forEach((operation, index) => {
+    if (typeof operation !== 'object' || operation === null) {
+      throw new JSONPatchError('Operation must be an object', index);
+    }
+    if (!OPERATIONS.includes(operation.op)) {
+      throw new JSONPatchError(`Unknown op ${JSON.stringify(operation.op)}, expected one of ${OPERATIONS.join(', ')}`, index);
+    }
+    if (typeof operation.path !== 'string') {
+      throw new JSONPatchError('Missing "path" string', index);
+    }
+    if ((operation.op === 'move' || operation.op === 'copy') && typeof operation.from !== 'string') {
+      throw new JSONPatchError(`"${operation.op}" requires a "from" string`, index);
+    }
+    if ((operation.op === 'add' || operation.op === 'replace' || operation.op === 'test') && !('value' in operation)) {
+      throw new JSONPatchError(`"${operation.op}" requires a "value"`, index);
+    }
+  });
+
+  return patch as JSONPatchOperation[];
+}
+
+/**
+ * Apply a patch to a deep copy of the document; the input is never modified.
+ * Either every operation succeeds or an error is thrown.
+ */
+export function applyPatch<T>(document: T, patch: JSONPatchOperation[]): T {
+  let result: unknown = clone(document);
+
+  patch.forEach((operation, index) => {
+    try {
+      result = applyOperation(result, operation);
+    } catch (error) {
+      throw new JSONPatchError(error instanceof Error ? error.message : String(error), index);
+    }
+  });
+
+  return result as T;
+}
+
+/**
+ * Apply one operation and return the (possibly replaced) root
+ */
+function applyOperation(root: unknown, operation: JSONPatchOperation): unknown {
+  switch (operation.op) {
+    case 'add':
+      return add(root, operation.path, clone(operation.value));
+
+    case 'remove':
+      remove(root, operation.path);
+      return root;
+
+    case 'replace':
+      if (operation.path === '') return clone(operation.value);
+      get(root, operation.path);
+      remove(root, operation.path);
+      return add(root, operation.path, clone(operation.value));
+
+    case 'move': {
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new Error(`Cannot move ${operation.from} into its own child ${operation.path}`);
+      }
+      const value = get(root, operation.from);
+      remove(root, operation.from);
+      return add(root, operation.path, value);
+    }
+
+    case 'copy':
+      return add(root, operation.path, clone(get(root, operation.from)));
+
+    case 'test':
+      if (!jsonEqual(get(root, operation.path), operation.value)) {
+        throw new Error(`Test failed at ${operation.path}`);
+      }
+      return root;
+  }
+}
+
+/**
+ * Split a JSON pointer into unescaped segments
+ */
+function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new Error(`Invalid JSON pointer "${pointer}", must start with "/"`);
+  }
+
+  return pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Resolve the container holding the pointer's last segment
+ */
+function resolveParent(root: unknown, pointer: string): { parent: any; key: string } {
+  const segments = parsePointer(pointer);
+  if (segments.length === 0) {
+    throw new Error('Operation needs a path below the document root');
+  }
+
+  const key = segments.pop()!;
+  let parent: any = root;
+  for (const segment of segments) {
+    parent = child(parent, segment, pointer);
+  }
+  if (typeof parent !== 'object' || parent === null) {
+    throw new Error(`Path ${pointer} does not point into an object or array`);
+  }
+
+  return { parent, key };
+}
+
+/**
+ * Step into an object property or array index
+ */
+function child(value: any, segment: string, pointer: string): any {
+  if (Array.isArray(value)) {
+    const index = arrayIndex(value, segment, false);
+    return value[index];
+  }
+  if (typeof value === 'object' && value !== null && Object.prototype.hasOwnProperty.call(value, segment)) {
+    return value[segment];
+  }
+  throw new Error(`Path ${pointer} does not exist`);
+}
+
+/**
+ * Parse an array index segment; "-" (append) is only valid when adding
+ */
+function arrayIndex(array: unknown[], segment: string, forAdd: boolean): number {
+  if (segment === '-' && forAdd) return array.length;
+  if (!/^(0|[1-9][0-9]*)$/.test(segment)) {
+    throw new Error(`Invalid array index "${segment}"`);
+  }
+
+  const index = Number(segment);
+  const max = forAdd ? array.length : array.length - 1;
+  if (index > max) {
+    throw new Error(`Array index ${index} out of bounds (length ${array.length})`);
+  }
+  return index;
+}
+
+/**
+ * Read the value at a pointer
+ */
+function get(root: unknown, pointer: string): unknown {
+  let value: any = root;
+  for (const segment of parsePointer(pointer)) {
+    value = child(value, segment, pointer);
+  }
+  return value;
+}
+
+/**
+ * Insert into an array or set an object property
+ */
+function add(root: unknown, pointer: string, value: unknown): unknown {
+  if (pointer === '') return value;
+
+  const { parent, key } = resolveParent(root, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, true), 0, value);
+  } else {
+    parent[key] = value;
+  }
+  return root;
+}
+
+/**
+ * Remove an array element or object property
+ */
+function remove(root: unknown, pointer: string): void {
+  const { parent, key } = resolveParent(root, pointer);
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(parent, key, false), 1);
+  } else {
+    if (!Object.prototype.hasOwnProperty.call(parent, key)) {
+      throw new Error(`Path ${pointer} does not exist`);
+    }
+    delete parent[key];
+  }
+}
+
+/**
+ * Deep copy of a JSON value
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Structural equality of JSON values (RFC 6902 section 4.6): arrays in
+ * order, objects by their members whatever order the keys are in
+ */
+function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => jsonEqual(item, b[i]));
+  }
+
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length
+    && keys.every(key => Object.prototype.hasOwnProperty.call(b, key)
+      && jsonEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
@@ -0,0 +1,257 @@
+import * as THREE from 'three';
+import { SceneDSL, ObjectConfig, RepeatConfig, GroupConfig, LayoutConfig, Vector3Array } from './types/dsl.js';
+import { eulerToQuaternion, lookAtQuaternion, multiplyQuaternions, quaternionToEuler, rotateVector, roundVector } from './math3d.js';
+import { shiftColor } from './colors.js';
+import { mulberry32 } from './textures.js';
+
+/** Most copies a single repeat may make */
+export const MAX_COPIES = 10000;
+
+/** Random spots tried for a scattered copy before it is left out */
+const SCATTER_ATTEMPTS = 30;
+
+/**
+ * Where a layout puts one copy, relative to the repeat
+ */
+export interface LayoutSlot {
+  position: Vector3Array;
+  rotation: Vector3Array;
+}
+
+/**
+ * Transform of one copy of a repeated object, and how far its colors move
+ */
+export interface Instance {
+  position: Vector3Array;
+  rotation: Vector3Array;
+  scale: Vector3Array;
+  /** Hue, saturation and lightness change from color jitter, null without it */
+  colorShift: Vector3Array | null;
+}
+
+/**
+ * Replace every repeat, nested ones included, with a group holding its
+ * copies, for outputs that have no instancing of their own
+ */
+export function expandLayouts(dsl: SceneDSL): SceneDSL {
+  const expand = (obj: ObjectConfig): ObjectConfig => {
+    if (obj.type === 'repeat') return expand(expandRepeat(obj));
+    if (obj.type === 'group') return { ...obj, children: obj.children.map(expand) };
+    return obj;
+  };
+  return { ...dsl, objects: dsl.objects.map(expand) };
+}
+
+/**
+ * The group a repeat stands for: the repeat's id, name, transform and
+ * animations, with one copy of its object per instance as children
+ */
+export function expandRepeat(repeat: RepeatConfig): GroupConfig {
+  return {
+    type: 'group',
+    ...(repeat.id !== undefined && { id: repeat.id }),
+    ...(repeat.name !== undefined && { name: repeat.name }),
+    position: repeat.position,
+    rotation: repeat.rotation || [0, 0, 0],
+    scale: repeat.scale || [1, 1, 1],
+    children: layoutInstances(repeat).map((instance, i) => placeCopy(repeat.object, instance, i)),
+    ...(repeat.animations && { animations: repeat.animations })
+  };
+}
+
+/**
+ * Transforms of the copies a repeat makes: its layout's slots with the
+ * jitter and the repeated object's own transform applied
+ */
+export function layoutInstances(repeat: RepeatConfig): Instance[] {
+  // Jitter has its own stream, and every copy draws the same number of
+  // values, so adding one kind of jitter leaves the others unchanged
+  const random = mulberry32((repeat.seed ?? 1) ^ 0x9e3779b9);
+  const spread = (max: number = 0) => (random() * 2 - 1) * max;
+  const jitter = repeat.jitter || {};
+  const [dx, dy, dz] = jitter.position || [0, 0, 0];
+  const [rx, ry, rz] = jitter.rotation || [0, 0, 0];
+  const { position: offset, rotation = [0, 0, 0], scale = [1, 1, 1] } = repeat.object;
+  const ownRotation = eulerToQuaternion(rotation);
+
+  return layoutSlots(repeat.layout, repeat.seed).map(slot => {
+    const moved: Vector3Array = [slot.position[0] + spread(dx), slot.position[1] + spread(dy), slot.position[2] + spread(dz)];
+    const turn = eulerToQuaternion([slot.rotation[0] + spread(rx), slot.rotation[1] + spread(ry), slot.rotation[2] + spread(rz)]);
+    const size = 1 + spread(jitter.scale);
+    const colorShift: Vector3Array = [spread((jitter.color ?? 0) / 10), spread(jitter.color), spread(jitter.color)];
+
+    // The slot scales uniformly, so it composes with the object's transform without shear
+    const placed = rotateVector(offset, turn);
+    return {
+      position: roundVector([moved[0] + size * placed[0], moved[1] + size * placed[1], moved[2] + size * placed[2]]),
+      rotation: roundVector(quaternionToEuler(multiplyQuaternions(turn, ownRotation))),
+      scale: roundVector([scale[0] * size, scale[1] * size, scale[2] * size]),
+      colorShift: jitter.color ? colorShift : null
+    };
+  });
+}
+
+/**
+ * Positions and rotations a layout gives its copies, before jitter.
+ * Scatter layouts may return fewer than count when minSpacing leaves no room.
+ */
+export function layoutSlots(layout: LayoutConfig, seed: number = 1): LayoutSlot[] {
+  const slot = (position: Vector3Array, rotation: Vector3Array = [0, 0, 0]): LayoutSlot => ({ position, rotation });
+
+  switch (layout.type) {
+    case 'linear':
+      return Array.from({ length: layout.count }, (_, i) =>
+        slot([layout.step[0] * i, layout.step[1] * i, layout.step[2] * i]));
+
+    case 'grid': {
+      const [nx, ny, nz] = layout.count;
+      const centered = (index: number, count: number, spacing: number) => (index - (count - 1) / 2) * spacing;
+      const slots: LayoutSlot[] = [];
+      for (let y = 0; y < ny; y++) {
+        for (let z = 0; z < nz; z++) {
+          for (let x = 0; x < nx; x++) {
+            slots.push(slot([
+              centered(x, nx, layout.spacing[0]),
+              centered(y, ny, layout.spacing[1]),
+              centered(z, nz, layout.spacing[2])
+            ]));
+          }
+        }
+      }
+      return slots;
+    }
+
+    case 'radial': {
+      const arc = layout.arc ?? Math.PI * 2;
+      // A full circle would put the last copy on top of the first
+      const full = Math.abs(arc) >= Math.PI * 2 - 1e-9;
+      const step = full ? arc / layout.count : layout.count > 1 ? arc / (layout.count - 1) : 0;
+      return Array.from({ length: layout.count }, (_, i) => {
+        const angle = (layout.startAngle ?? 0) + step * i;
+        return slot(
+          [layout.radius * Math.sin(angle), 0, layout.radius * Math.cos(angle)],
+          layout.faceOutward ? [0, angle, 0] : [0, 0, 0]
+        );
+      });
+    }
+
+    case 'scatter':
+      return scatter(layout.size, layout.radius, layout.count, layout.minSpacing ?? 0, mulberry32(seed)).map(position => slot(position));
+
+    case 'path': {
+      const curve = new THREE.CatmullRomCurve3(layout.points.map(point => new THREE.Vector3(...point)), !!layout.closed);
+      return Array.from({ length: layout.count }, (_, i) => {
+        const u = layout.closed ? i / layout.count : layout.count > 1 ? i / (layout.count - 1) : 0;
+        const point = curve.getPointAt(u).toArray() as Vector3Array;
+        if (!layout.align) return slot(point);
+
+        // lookAtQuaternion aims -Z, so aim it backwards along the tangent
+        const [tx, ty, tz] = curve.getTangentAt(u).toArray();
+        return slot(point, quaternionToEuler(lookAtQuaternion([0, 0, 0], [-tx, -ty, -tz])));
+      });
+    }
+  }
+}
+
+/**
+ * Random points in a box (or a disc when radius is given) at least
+ * minSpacing apart; points that find no room are left out. Placed points
+ * are bucketed in cells minSpacing wide, so each candidate is only
+ * compared with the points in the neighbouring cells.
+ */
+function scatter(
+  size: Vector3Array | undefined,
+  radius: number | undefined,
+  count: number,
+  minSpacing: number,
+  random: () => number
+): Vector3Array[] {
+  const candidate = (): Vector3Array => {
+    if (radius !== undefined) {
+      // sqrt keeps the density uniform across the disc
+      const distance = radius * Math.sqrt(random());
+      const angle = random() * Math.PI * 2;
+      return [distance * Math.sin(angle), 0, distance * Math.cos(angle)];
+    }
+    const [sx, sy, sz] = size || [0, 0, 0];
+    return [(random() - 0.5) * sx, (random() - 0.5) * sy, (random() - 0.5) * sz];
+  };
+
+  const points: Vector3Array[] = [];
+  const cells = new Map<string, Vector3Array[]>();
+  const cellOf = (point: Vector3Array) => point.map(value => Math.floor(value / minSpacing));
+  const fits = (point: Vector3Array): boolean => {
+    if (minSpacing <= 0) return true;
+    const [cx, cy, cz] = cellOf(point);
+    for (let x = cx - 1; x <= cx + 1; x++) {
+      for (let y = cy - 1; y <= cy + 1; y++) {
+        for (let z = cz - 1; z <= cz + 1; z++) {
+          const near = cells.get(`${x},${y},${z}`) || [];
+          if (near.some(other => Math.hypot(point[0] - other[0], point[1] - other[1], point[2] - other[2]) < minSpacing)) {
+            return false;
+          }
+        }
+      }
+    }
+    return true;
+  };
+
+  for (let i = 0; i < count; i++) {
+    for (let attempt = 0; attempt < SCATTER_ATTEMPTS; attempt++) {
+      const point = candidate();
+      if (!fits(point)) continue;
+
+      points.push(point);
+      if (minSpacing > 0) {
+        const key = cellOf(point).join(',');
+        const bucket = cells.get(key);
+        if (bucket) bucket.push(point);
+        else cells.set(key, [point]);
+      }
+      break;
+    }
+  }
+  return points;
+}
+
+/**
+ * A copy of an object at an instance's transform, with its colors moved
+ * and its ids numbered by the copy
+ */
+function placeCopy(obj: ObjectConfig, instance: Instance, index: number): ObjectConfig {
+  const placed = { ...suffixIds(obj, `_${index}`), position: instance.position, rotation: instance.rotation, scale: instance.scale };
+  return instance.colorShift ? shiftColors(placed, instance.colorShift) : placed;
+}
+
+/**
+ * Append a suffix to the ids of an object and everything inside it, so
+ * that copies keep ids unique. Validation rejects ids inside repeats, but
+ * expandLayouts is exported and may be given scenes that skipped it.
+ */
+function suffixIds(obj: ObjectConfig, suffix: string): ObjectConfig {
+  const renamed = obj.id !== undefined ? { ...obj, id: `${obj.id}${suffix}` } : obj;
+  switch (renamed.type) {
+    case 'group':
+      return { ...renamed, children: renamed.children.map(child => suffixIds(child, suffix)) };
+    case 'repeat':
+      return { ...renamed, object: suffixIds(renamed.object, suffix) };
+    default:
+      return renamed;
+  }
+}
+
+/**
+ * Move the material color of every mesh in an object; models keep theirs
+ */
+function shiftColors(obj: ObjectConfig, shift: Vector3Array): ObjectConfig {
+  switch (obj.type) {
+    case 'group':
+      return { ...obj, children: obj.children.map(child => shiftColors(child, shift)) };
+    case 'repeat':
+      return { ...obj, object: shiftColors(obj.object, shift) };
+    case 'model':
+      return obj;
+    default:
+      return { ...obj, material: { ...obj.material, color: shiftColor(obj.material.color, shift) } };
+  }
+}
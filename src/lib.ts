@@ -1,13 +1,120 @@
-import { OpenAIService } from './openaiService.js';
-import { SceneGenerator } from './sceneGenerator.js';
+import { OpenAIService, OpenAIServiceOptions, GenerationResult, PatchRefinementResult, DSLRepairError } from './openaiService.js';
+import { JSONPatchOperation, JSONPatchError, applyPatch, validatePatch } from './jsonPatch.js';
+import { SceneChange, diffScenes, summarizeChanges } from './sceneDiff.js';
+import { SceneSession, SceneSessionOptions, SceneRevision, SessionPromptResult } from './sceneSession.js';
+import { BatchGenerator, BatchGeneratorOptions, BatchPrompt, BatchResult, BatchReport, parsePromptList, formatBatchReport } from './batchGenerator.js';
+import { SceneGenerator, SceneGeneratorOptions } from './sceneGenerator.js';
+import { R3FGenerator, R3FGeneratorOptions } from './r3fGenerator.js';
+import { buildSceneIR, SceneIROptions } from './sceneIR.js';
+import { assignIds, carryIds, objectPositions, resolvePoint } from './sceneIds.js';
+import { solveConstraints } from './constraints.js';
+import { lintScene, LintOptions } from './sceneLint.js';
+import { expandLayouts, expandRepeat, layoutInstances, layoutSlots, Instance, LayoutSlot } from './layouts.js';
+import { BlenderGenerator, BlenderGeneratorOptions } from './blenderGenerator.js';
+import { GLTFExporter, GLTFDocument, GLTFExportOptions } from './gltfExporter.js';
+import { PreviewRenderer, PreviewRenderOptions } from './previewRenderer.js';
+import { PreviewServer, PreviewServerOptions, SceneUpdate } from './previewServer.js';
 import { DSLParser } from './dslParser.js';
-import { SceneDSL, createDefaultDSL, validateDSL } from './types/dsl.js';
+import { DSLValidator, DSLValidatorOptions, DSLValidationError, formatIssues } from './dslValidator.js';
+import { generateProceduralTexture, textureDataURI } from './textures.js';
+import { checkAssetFile, copyModelAssets, modelDataURI } from './assets.js';
+import { THREE_VERSION, copyThreeModules } from './threeModules.js';
+import { encodePNG, RGBAImage } from './png.js';
+import { SceneTextError, parseSceneText, printSceneText } from './sceneText/index.js';
+import { OpenAIProvider, FixtureProvider, RecordingProvider, createProviderFromEnv } from './providers/index.js';
+import { LLMProvider, ChatMessage, CompletionRequest } from './types/llm.js';
+import { SceneIR } from './types/sceneIR.js';
+import { SceneDSL, PointReference, ModelConfig, RepeatConfig, LayoutConfig, JitterConfig, ConstraintConfig, TextureConfig, ValidationIssue, LintIssue, LintRule, createDefaultDSL, validateDSL } from './types/dsl.js';
 
 export {
   OpenAIService,
+  OpenAIServiceOptions,
+  GenerationResult,
+  PatchRefinementResult,
+  DSLRepairError,
+  JSONPatchOperation,
+  JSONPatchError,
+  applyPatch,
+  validatePatch,
+  SceneChange,
+  diffScenes,
+  summarizeChanges,
+  SceneSession,
+  SceneSessionOptions,
+  SceneRevision,
+  SessionPromptResult,
+  BatchGenerator,
+  BatchGeneratorOptions,
+  BatchPrompt,
+  BatchResult,
+  BatchReport,
+  parsePromptList,
+  formatBatchReport,
+  OpenAIProvider,
+  FixtureProvider,
+  RecordingProvider,
+  createProviderFromEnv,
+  LLMProvider,
+  ChatMessage,
+  CompletionRequest,
   SceneGenerator,
+  SceneGeneratorOptions,
+  R3FGenerator,
+  R3FGeneratorOptions,
+  buildSceneIR,
+  SceneIROptions,
+  SceneIR,
+  assignIds,
+  carryIds,
+  objectPositions,
+  resolvePoint,
+  solveConstraints,
+  lintScene,
+  LintOptions,
+  expandLayouts,
+  expandRepeat,
+  layoutInstances,
+  layoutSlots,
+  Instance,
+  LayoutSlot,
+  BlenderGenerator,
+  BlenderGeneratorOptions,
+  GLTFExporter,
+  GLTFDocument,
+  GLTFExportOptions,
+  PreviewRenderer,
+  PreviewRenderOptions,
+  PreviewServer,
+  PreviewServerOptions,
+  SceneUpdate,
   DSLParser,
+  DSLValidator,
+  DSLValidatorOptions,
+  DSLValidationError,
+  formatIssues,
+  SceneTextError,
+  parseSceneText,
+  printSceneText,
+  generateProceduralTexture,
+  textureDataURI,
+  checkAssetFile,
+  copyModelAssets,
+  modelDataURI,
+  THREE_VERSION,
+  copyThreeModules,
+  encodePNG,
+  RGBAImage,
   SceneDSL,
+  PointReference,
+  ModelConfig,
+  RepeatConfig,
+  LayoutConfig,
+  JitterConfig,
+  ConstraintConfig,
+  TextureConfig,
+  ValidationIssue,
+  LintIssue,
+  LintRule,
   createDefaultDSL,
   validateDSL
 };
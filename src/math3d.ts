@@ -0,0 +1,169 @@
+import { Vector3Array } from './types/dsl.js';
+
+/**
+ * Quaternion as [x, y, z, w]
+ */
+export type Quaternion = [number, number, number, number];
+
+/**
+ * Convert an XYZ Euler rotation in radians (Three.js default order) to a quaternion
+ */
+export function eulerToQuaternion([x, y, z]: Vector3Array): Quaternion {
+  const c1 = Math.cos(x / 2);
+  const c2 = Math.cos(y / 2);
+  const c3 = Math.cos(z / 2);
+  const s1 = Math.sin(x / 2);
+  const s2 = Math.sin(y / 2);
+  const s3 = Math.sin(z / 2);
+
+  return [
+    s1 * c2 * c3 + c1 * s2 * s3,
+    c1 * s2 * c3 - s1 * c2 * s3,
+    c1 * c2 * s3 + s1 * s2 * c3,
+    c1 * c2 * c3 - s1 * s2 * s3
+  ];
+}
+
+/**
+ * Convert a unit quaternion to an XYZ Euler rotation in radians, as
+ * THREE.Euler.setFromQuaternion does
+ */
+export function quaternionToEuler([x, y, z, w]: Quaternion): Vector3Array {
+  const m11 = 1 - 2 * (y * y + z * z);
+  const m12 = 2 * (x * y - w * z);
+  const m13 = 2 * (x * z + w * y);
+  const m22 = 1 - 2 * (x * x + z * z);
+  const m23 = 2 * (y * z - w * x);
+  const m32 = 2 * (y * z + w * x);
+  const m33 = 1 - 2 * (x * x + y * y);
+
+  const ry = Math.asin(Math.min(1, Math.max(-1, m13)));
+  return Math.abs(m13) < 0.9999999
+    ? [Math.atan2(-m23, m33), ry, Math.atan2(-m12, m11)]
+    : [Math.atan2(m32, m22), ry, 0];
+}
+
+/**
+ * Hamilton product a * b: the rotation b followed by a
+ */
+export function multiplyQuaternions([ax, ay, az, aw]: Quaternion, [bx, by, bz, bw]: Quaternion): Quaternion {
+  return [
+    ax * bw + aw * bx + ay * bz - az * by,
+    ay * bw + aw * by + az * bx - ax * bz,
+    az * bw + aw * bz + ax * by - ay * bx,
+    aw * bw - ax * bx - ay * by - az * bz
+  ];
+}
+
+/**
+ * Rotation that points an object's -Z axis from eye towards target with +Y up,
+ * as Object3D.lookAt does for cameras and lights
+ */
+export function lookAtQuaternion(eye: Vector3Array, target: Vector3Array, up: Vector3Array = [0, 1, 0]): Quaternion {
+  let z = normalize(subtract(eye, target));
+  if (length(z) === 0) z = [0, 0, 1];
+
+  let x = cross(up, z);
+  if (length(x) === 0) {
+    // Looking straight along the up axis: nudge z so the basis is defined
+    z = normalize(Math.abs(up[2]) === 1 ? [z[0] + 0.0001, z[1], z[2]] : [z[0], z[1], z[2] + 0.0001]);
+    x = cross(up, z);
+  }
+  x = normalize(x);
+  const y = cross(z, x);
+
+  return rotationMatrixToQuaternion(x, y, z);
+}
+
+/**
+ * Convert a rotation matrix given by its column vectors to a quaternion
+ */
+function rotationMatrixToQuaternion(x: Vector3Array, y: Vector3Array, z: Vector3Array): Quaternion {
+  const [m11, m21, m31] = x;
+  const [m12, m22, m32] = y;
+  const [m13, m23, m33] = z;
+  const trace = m11 + m22 + m33;
+
+  if (trace > 0) {
+    const s = 0.5 / Math.sqrt(trace + 1);
+    return [(m32 - m23) * s, (m13 - m31) * s, (m21 - m12) * s, 0.25 / s];
+  }
+  if (m11 > m22 && m11 > m33) {
+    const s = 2 * Math.sqrt(1 + m11 - m22 - m33);
+    return [0.25 * s, (m12 + m21) / s, (m13 + m31) / s, (m32 - m23) / s];
+  }
+  if (m22 > m33) {
+    const s = 2 * Math.sqrt(1 + m22 - m11 - m33);
+    return [(m12 + m21) / s, 0.25 * s, (m23 + m32) / s, (m13 - m31) / s];
+  }
+  const s = 2 * Math.sqrt(1 + m33 - m11 - m22);
+  return [(m13 + m31) / s, (m23 + m32) / s, 0.25 * s, (m21 - m12) / s];
+}
+
+/**
+ * Component-wise a - b
+ */
+export function subtract(a: Vector3Array, b: Vector3Array): Vector3Array {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+/**
+ * Cross product a x b
+ */
+export function cross(a: Vector3Array, b: Vector3Array): Vector3Array {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+/**
+ * Dot product a . b
+ */
+export function dot(a: Vector3Array, b: Vector3Array): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+/**
+ * Euclidean length
+ */
+export function length(v: Vector3Array): number {
+  return Math.hypot(v[0], v[1], v[2]);
+}
+
+/**
+ * Unit vector in the same direction, or zero for a zero vector
+ */
+export function normalize(v: Vector3Array): Vector3Array {
+  const len = length(v);
+  return len > 0 ? [v[0] / len, v[1] / len, v[2] / len] : [0, 0, 0];
+}
+
+/**
+ * Round to 4 decimals, which keeps generated code short, and turn -0 into 0
+ */
+export function roundVector(vector: Vector3Array): Vector3Array {
+  return vector.map(value => Math.round(value * 10000) / 10000 + 0) as Vector3Array;
+}
+
+/**
+ * Rotate a vector by a unit quaternion
+ */
+export function rotateVector(v: Vector3Array, [qx, qy, qz, qw]: Quaternion): Vector3Array {
+  const axis: Vector3Array = [qx, qy, qz];
+  const t = cross(axis, v).map(component => component * 2) as Vector3Array;
+  const u = cross(axis, t);
+  return [v[0] + qw * t[0] + u[0], v[1] + qw * t[1] + u[1], v[2] + qw * t[2] + u[2]];
+}
+
+/**
+ * Map a point from an object's local space to its parent's: scale, then
+ * rotate (XYZ Euler), then translate, as Three.js composes transforms
+ */
+export function transformPoint(
+  point: Vector3Array,
+  position: Vector3Array,
+  rotation: Vector3Array = [0, 0, 0],
+  scale: Vector3Array = [1, 1, 1]
+): Vector3Array {
+  const scaled: Vector3Array = [point[0] * scale[0], point[1] * scale[1], point[2] * scale[2]];
+  const rotated = rotateVector(scaled, eulerToQuaternion(rotation));
+  return [rotated[0] + position[0], rotated[1] + position[1], rotated[2] + position[2]];
+}
@@ -1,50 +1,123 @@
-import OpenAI from 'openai';
-import { SceneDSL, createDefaultDSL } from './types/dsl.js';
+import { SceneDSL, ValidationIssue, createDefaultDSL } from './types/dsl.js';
+import { ChatMessage, LLMProvider } from './types/llm.js';
 import { DSLParser } from './dslParser.js';
+import { DSLValidationError, formatIssues } from './dslValidator.js';
+import { OpenAIProvider } from './providers/openaiProvider.js';
+import { JSONPatchOperation, applyPatch, validatePatch } from './jsonPatch.js';
+import { SceneChange, diffScenes, summarizeChanges } from './sceneDiff.js';
+import { lintScene } from './sceneLint.js';
+
+const PATCH_INSTRUCTIONS = `Do NOT return the whole scene. Return a JSON object {"patch": [...]} whose "patch" is an RFC 6902 JSON Patch against the current scene DSL, e.g.
+{"patch": [
+  {"op": "replace", "path": "/objects/0/material/color", "value": "#00ff00"},
+  {"op": "add", "path": "/objects/-", "value": {"type": "sphere", "position": [2, 1, 0], "material": {"type": "standard", "color": "#0000ff"}}},
+  {"op": "remove", "path": "/lights/1"}
+]}
+Only include operations needed for the request; leave everything else untouched.`;
+
+export interface OpenAIServiceOptions {
+  /** Backend to run on instead of the OpenAI API (e.g. a FixtureProvider) */
+  provider?: LLMProvider;
+  /** Base URL of an OpenAI-compatible server, ignored when provider is set */
+  baseURL?: string;
+  /** How many times to send errors back to the model before giving up (default 2) */
+  maxRepairAttempts?: number;
+  /** Directory texture and model file paths in generated scenes are checked against */
+  assetDir?: string;
+  /**
+   * Send what lintScene finds in a generated scene back to the model once,
+   * keeping its answer when that is valid and lints cleaner (default false)
+   */
+  fixLintIssues?: boolean;
+}
+
+/**
+ * Result of a generation, including how many model calls it took
+ */
+export interface GenerationResult {
+  dsl: SceneDSL;
+  /** Number of model responses requested, 1 when the first one was valid */
+  attempts: number;
+  /** Non-fatal validation issues of the accepted response */
+  warnings: ValidationIssue[];
+  /** Raw model output that was accepted */
+  rawResponse: string;
+}
+
+/**
+ * Result of a patch-based refinement
+ */
+export interface PatchRefinementResult extends GenerationResult {
+  /** Operations the model returned, as applied */
+  patch: JSONPatchOperation[];
+  changes: SceneChange[];
+  /** One line per added, removed or changed value */
+  summary: string;
+}
+
+/**
+ * Error thrown when the model never produced a valid DSL within the repair budget
+ */
+export class DSLRepairError extends Error {
+  readonly attempts: number;
+  readonly lastResponse: string;
+  readonly issues: ValidationIssue[];
+
+  constructor(attempts: number, lastResponse: string, cause: unknown) {
+    super(`No valid scene DSL after ${attempts} attempt(s): ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'DSLRepairError';
+    this.attempts = attempts;
+    this.lastResponse = lastResponse;
+    this.issues = cause instanceof DSLValidationError ? cause.issues : [];
+  }
+}
 
 /**
- * Service for interacting with OpenAI API to generate scene DSL
+ * Service for generating scene DSL with an LLM provider (OpenAI by default)
  */
 export class OpenAIService {
-  private openai: OpenAI;
+  private provider: LLMProvider;
   private parser: DSLParser;
-  private model: string;
+  /** Model requests are sent to */
+  readonly model: string;
+  private maxRepairAttempts: number;
+  private fixLintIssues: boolean;
 
-  constructor(apiKey?: string, model: string = 'gpt-4-turbo-preview') {
-    this.openai = new OpenAI({
-      apiKey: apiKey || process.env.OPENAI_API_KEY
-    });
-    this.parser = new DSLParser();
+  constructor(apiKey?: string, model: string = 'gpt-4-turbo-preview', options: OpenAIServiceOptions = {}) {
+    this.provider = options.provider || new OpenAIProvider({ apiKey, baseURL: options.baseURL });
+    this.parser = new DSLParser({ assetDir: options.assetDir });
     this.model = model;
+    this.maxRepairAttempts = options.maxRepairAttempts ?? 2;
+    this.fixLintIssues = options.fixLintIssues ?? false;
   }
 
   /**
    * Generate DSL from natural language prompt
    */
   async generateDSL(prompt: string): Promise<SceneDSL> {
+    return (await this.generateDSLWithReport(prompt)).dsl;
+  }
+
+  /**
+   * Generate DSL from natural language prompt, reporting repair attempts.
+   * Earlier conversation turns, if any, are sent before the prompt.
+   */
+  async generateDSLWithReport(prompt: string, history: ChatMessage[] = []): Promise<GenerationResult> {
     const systemPrompt = this.buildSystemPrompt();
     
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: prompt }
-        ],
-        temperature: 0.7,
-        response_format: { type: 'json_object' }
-      });
-
-      const content = completion.choices[0]?.message?.content;
-      
-      if (!content) {
-        throw new Error('No response from OpenAI');
-      }
-
-      return this.parser.parse(content);
+      return await this.completeDSL([
+        { role: 'system', content: systemPrompt },
+        ...history,
+        { role: 'user', content: prompt }
+      ]);
     } catch (error) {
       console.error('Error generating DSL:', error);
-      throw new Error(`Failed to generate scene DSL: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (error instanceof DSLRepairError) {
+        throw error;
+      }
+      // Keep the provider's error, e.g. its HTTP status, as the cause
+      throw new Error(`Failed to generate scene DSL: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
@@ -52,40 +125,198 @@ export class OpenAIService {
    * Refine existing DSL with additional prompt
    */
   async refineDSL(currentDSL: SceneDSL, refinementPrompt: string): Promise<SceneDSL> {
+    return (await this.refineDSLWithReport(currentDSL, refinementPrompt)).dsl;
+  }
+
+  /**
+   * Refine existing DSL with additional prompt, reporting repair attempts.
+   * Ids the model leaves out are carried over from the current scene.
+   */
+  async refineDSLWithReport(
+    currentDSL: SceneDSL,
+    refinementPrompt: string,
+    history: ChatMessage[] = []
+  ): Promise<GenerationResult> {
     const systemPrompt = this.buildSystemPrompt();
     const currentDSLString = this.parser.stringify(currentDSL);
     
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: this.model,
-        messages: [
+      return await this.completeDSL([
+        { role: 'system', content: systemPrompt },
+        ...history,
+        { role: 'user', content: `Current scene DSL:\n${currentDSLString}\n\nRefinement request: ${refinementPrompt}` }
+      ], currentDSL);
+    } catch (error) {
+      console.error('Error refining DSL:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Refine existing DSL by asking the model for an RFC 6902 JSON Patch
+   * instead of the whole scene. Objects the patch does not touch are kept
+   * exactly as they were.
+   */
+  async refineDSLWithPatch(
+    currentDSL: SceneDSL,
+    refinementPrompt: string,
+    history: ChatMessage[] = []
+  ): Promise<PatchRefinementResult> {
+    const systemPrompt = this.buildSystemPrompt();
+    const currentDSLString = this.parser.stringify(currentDSL);
+
+    try {
+      const { result, attempts, rawResponse } = await this.completeWithRepair(
+        [
           { role: 'system', content: systemPrompt },
-          { role: 'user', content: `Current scene DSL:\n${currentDSLString}\n\nRefinement request: ${refinementPrompt}` }
+          ...history,
+          { role: 'user', content: `Current scene DSL:\n${currentDSLString}\n\nRefinement request: ${refinementPrompt}\n\n${PATCH_INSTRUCTIONS}` }
         ],
-        temperature: 0.7,
-        response_format: { type: 'json_object' }
-      });
-
-      const content = completion.choices[0]?.message?.content;
-      
-      if (!content) {
-        throw new Error('No response from OpenAI');
-      }
+        content => {
+          const patch = validatePatch(JSON.parse(content).patch);
+          const { dsl, issues } = this.parser.parseObject(applyPatch(currentDSL, patch), currentDSL);
+          return { patch, dsl, issues };
+        },
+        `Return a corrected {"patch": [...]} against the current scene DSL that fixes every problem listed above. Return ONLY the JSON, no explanations.`
+      );
 
-      return this.parser.parse(content);
+      // Compare against the normalized input so filled-in defaults are not reported
+      const changes = diffScenes(this.parser.normalizeDSL(currentDSL), result.dsl);
+      return {
+        dsl: result.dsl,
+        attempts,
+        warnings: result.issues,
+        rawResponse,
+        patch: result.patch,
+        changes,
+        summary: summarizeChanges(changes)
+      };
     } catch (error) {
       console.error('Error refining DSL:', error);
       throw error;
     }
   }
 
+  /**
+   * Request a full scene DSL, repairing invalid responses; previous is the
+   * scene being refined, if any
+   */
+  private async completeDSL(messages: ChatMessage[], previous?: SceneDSL): Promise<GenerationResult> {
+    const { result, attempts, rawResponse } = await this.completeWithRepair(
+      messages,
+      content => this.parser.parseWithIssues(content, previous),
+      'Return the complete corrected JSON that fixes every problem listed above. Return ONLY the JSON, no explanations.'
+    );
+
+    const generated = { dsl: result.dsl, attempts, warnings: result.issues, rawResponse };
+    return this.fixLintIssues ? this.completeLintFix(messages, generated, previous) : generated;
+  }
+
+  /**
+   * Ask the model once to fix what lintScene finds in a valid scene. The
+   * answer replaces the scene only when it is valid and has fewer lint
+   * issues; otherwise the scene is kept as it was.
+   */
+  private async completeLintFix(messages: ChatMessage[], generated: GenerationResult, previous?: SceneDSL): Promise<GenerationResult> {
+    const lint = lintScene(generated.dsl);
+    if (lint.length === 0) return generated;
+
+    const attempts = generated.attempts + 1;
+
+    try {
+      const content = await this.complete([
+        ...messages,
+        { role: 'assistant', content: generated.rawResponse },
+        {
+          role: 'user',
+          content: `The scene is valid, but these problems will make it look wrong:
+${formatIssues(lint)}
+
+Return the complete corrected JSON that fixes them, changing nothing else. Return ONLY the JSON, no explanations.`
+        }
+      ]);
+      const fixed = this.parser.parseWithIssues(content, previous);
+      if (lintScene(fixed.dsl).length < lint.length) {
+        return { dsl: fixed.dsl, attempts, warnings: fixed.issues, rawResponse: content };
+      }
+    } catch {
+      // The fix is optional: a failed request or an invalid fix is dropped
+      // in favour of the valid scene
+    }
+    return { ...generated, attempts };
+  }
+
+  /**
+   * Request a completion and parse it, feeding errors back to the model
+   * until accept() succeeds or the repair budget runs out
+   */
+  private async completeWithRepair<T>(
+    messages: ChatMessage[],
+    accept: (content: string) => T,
+    repairInstruction: string
+  ): Promise<{ result: T; attempts: number; rawResponse: string }> {
+    const conversation = [...messages];
+    const maxAttempts = this.maxRepairAttempts + 1;
+    let lastResponse = '';
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const content = await this.complete(conversation);
+      lastResponse = content;
+
+      try {
+        if (!content) {
+          throw new Error(`No response from ${this.provider.name}`);
+        }
+
+        return { result: accept(content), attempts: attempt, rawResponse: content };
+      } catch (error) {
+        lastError = error;
+        conversation.push(
+          { role: 'assistant', content },
+          { role: 'user', content: this.buildRepairPrompt(error, repairInstruction) }
+        );
+      }
+    }
+
+    throw new DSLRepairError(maxAttempts, lastResponse, lastError);
+  }
+
+  /**
+   * Send a chat completion request and return the raw message content
+   */
+  private async complete(messages: ChatMessage[]): Promise<string> {
+    return this.provider.complete({
+      model: this.model,
+      messages,
+      temperature: 0.7,
+      json: true
+    });
+  }
+
+  /**
+   * Build the follow-up message asking the model to fix its previous response
+   */
+  private buildRepairPrompt(error: unknown, instruction: string): string {
+    const details = error instanceof DSLValidationError
+      ? formatIssues(error.issues.filter(issue => issue.severity === 'error'))
+      : `  ${error instanceof Error ? error.message : String(error)}`;
+
+    return `Your previous response could not be used:
+${details}
+
+${instruction}`;
+  }
+
   /**
    * Build the system prompt for the AI
    */
-  private buildSystemPrompt(): string {
+  buildSystemPrompt(): string {
     const exampleDSL = createDefaultDSL();
     exampleDSL.objects = [
       {
+        id: 'redCube',
+        name: 'Red cube',
         type: 'cube',
         position: [0, 1, 0],
         rotation: [0, 0.785, 0],
@@ -102,22 +333,98 @@ export class OpenAIService {
     return `You are a 3D scene generation assistant. Convert natural language descriptions into a JSON DSL for Three.js scenes.
 
 The DSL schema:
-- camera: {position: [x,y,z], lookAt: [x,y,z], fov?: number}
-- lights: array of {type: 'ambient'|'directional'|'point'|'spot', color: string, intensity: number, position?: [x,y,z]}
+- camera: {id?: string, name?: string, position: [x,y,z], lookAt: [x,y,z] or object id, fov?: number}
+- lights: array of {id?: string, name?: string, type: 'ambient'|'directional'|'point'|'spot', color: string, intensity: number, position?: [x,y,z],
+    target?: [x,y,z] or object id (directional and spot),
+    castShadow?: boolean (not ambient), shadow?: {mapSize?: number, bias?: number, camera?: {left?, right?, top?, bottom?, near?, far?}}}
 - objects: array of {
-    type: 'cube'|'sphere'|'plane'|'cylinder'|'cone'|'torus',
+    id?: string, name?: string,
+    type: 'cube'|'sphere'|'plane'|'cylinder'|'cone'|'torus'|'capsule'|'ring'|'icosahedron'|'dodecahedron'|'octahedron'|'lathe'|'extrude'|'tube'|'text',
     position: [x,y,z],
+    ...geometry parameters for the type (see below),
     rotation?: [x,y,z] (in radians),
     scale?: [x,y,z],
+    castShadow?: boolean, receiveShadow?: boolean,
+    ground?: boolean (the floor; receives shadows instead of casting them),
     material: {
       type: 'basic'|'standard'|'phong'|'lambert',
       color: string (hex),
       metalness?: 0-1,
       roughness?: 0-1,
-      wireframe?: boolean
+      wireframe?: boolean,
+      opacity?: 0-1 (below 1 makes it see-through),
+      emissive?: string (glow color), emissiveIntensity?: number,
+      side?: 'front'|'back'|'double',
+      flatShading?: boolean,
+      map?, normalMap?, roughnessMap?, emissiveMap?: texture
     }
   }
+  or a group: {
+    id?: string, name?: string,
+    type: 'group',
+    position: [x,y,z],
+    rotation?: [x,y,z] (in radians),
+    scale?: [x,y,z],
+    children: array of objects or groups (transforms relative to the group)
+  }
+  or a model: {
+    id?: string, name?: string,
+    type: 'model',
+    file: path to a local .glb, .gltf or .obj file,
+    position: [x,y,z],
+    rotation?: [x,y,z] (in radians),
+    scale?: [x,y,z],
+    castShadow?: boolean, receiveShadow?: boolean
+  }
+  or a repeat, many copies of one object: {
+    id?: string, name?: string,
+    type: 'repeat',
+    position: [x,y,z],
+    rotation?: [x,y,z] (in radians),
+    scale?: [x,y,z],
+    layout: {type: 'linear', count, step: [x,y,z]}
+      or {type: 'grid', count: [nx,ny,nz], spacing: [x,y,z]} (centered on the repeat)
+      or {type: 'radial', count, radius, startAngle?, arc? (default a full circle), faceOutward?: boolean} (in the XZ plane)
+      or {type: 'scatter', count, size?: [x,y,z] (a box) or radius? (a disc), minSpacing?: number}
+      or {type: 'path', count, points: list of [x,y,z], closed?: boolean, align?: boolean},
+    object: the object or group to copy, without an id (its transform is relative to each copy),
+    jitter?: {position?: [x,y,z], rotation?: [x,y,z], scale?: 0-1, color?: 0-1} (random variation per copy),
+    seed?: integer
+  }
+- geometry parameters (all optional unless noted; angles in radians):
+    cube: width, height, depth, widthSegments, heightSegments, depthSegments
+    sphere: radius, widthSegments, heightSegments, phiStart, phiLength, thetaStart, thetaLength
+    plane: width, height, widthSegments, heightSegments
+    cylinder: radiusTop, radiusBottom (or radius for both), height, radialSegments, heightSegments, openEnded, thetaStart, thetaLength
+    cone: radius, height, radialSegments, heightSegments, openEnded, thetaStart, thetaLength
+    torus: radius, tube, radialSegments, tubularSegments, arc
+    capsule: radius, length, capSegments, radialSegments
+    ring: innerRadius, outerRadius, thetaSegments, phiSegments, thetaStart, thetaLength
+    icosahedron, dodecahedron, octahedron: radius, detail (0-6, higher is rounder)
+    lathe: points (profile rotated around Y: [[x,y], ...] or a path string like "M 0 0 L 1 0 Q 1.5 1 0.5 2"), segments, phiStart, phiLength
+    extrude: shape ([[x,y], ...] or path string with M, L, H, V, Q, C, Z), holes?: list of shapes, depth, steps, curveSegments, bevelEnabled, bevelThickness, bevelSize, bevelSegments
+    tube: path (list of [x,y,z] points, smoothed into a curve), radius, tubularSegments, radialSegments, closed
+    text: text (required), font: 'helvetiker'|'optimer'|'gentilis'|'droid_sans'|'droid_serif', bold, size, depth, curveSegments, bevelEnabled
+- objects, groups, models and repeats may have constraints?: array of relationships to another object in the same group (or at the top level, to another top-level object or anything inside one), which set its position:
+    {type: 'onTopOf', target: id} (resting on it, centered)
+    {type: 'nextTo', target: id, side: 'left'|'right'|'front'|'back'|'above'|'below', gap?: number} (standing on the same floor beside it)
+    {type: 'inside', target: id} (on the floor of its box, centered)
+    {type: 'alignedWith', target: id, axes: list of 'x'|'y'|'z', edge?: 'min'|'center'|'max'}
+    {type: 'centeredOn', target: id, axes?: list of 'x'|'y'|'z' (default x and z)}
+    each with offset?: [x,y,z] to shift the result; position may be left out and only fills axes no constraint sets
+- camera, lights, objects, groups, models and repeats may have animations?: array of
+    {type: 'spin', axis?: 'x'|'y'|'z', speed?: radians per second}
+    {type: 'bob', axis?: 'x'|'y'|'z', amplitude?: number, frequency?: cycles per second}
+    {type: 'orbit', center?: [x,y,z], axis?: 'x'|'y'|'z', radius?: number, speed?: radians per second}
+    {type: 'keyframes', duration?: seconds, loop?: 'once'|'repeat'|'pingpong', tracks: array of {
+      property: 'position'|'rotation'|'scale'|'color',
+      easing?: 'linear'|'easeIn'|'easeOut'|'easeInOut'|'step',
+      keyframes: array of {time: seconds, value: [x,y,z] or hex color for 'color'}
+    }}
+- texture: {procedural: 'checker'|'gradient'|'noise', colors?: [hex, hex], scale?: number, direction?: 'horizontal'|'vertical'|'radial' (gradient), seed?: integer (noise), repeat?: [u,v], offset?: [u,v]}
+    or {file: path to a .png/.jpg/.webp/.gif image, repeat?: [u,v], offset?: [u,v]}
 - background?: string (hex color)
+- shadows?: {type?: 'basic'|'pcf'|'pcfSoft'|'vsm'}
 
 Example DSL:
 ${JSON.stringify(exampleDSL, null, 2)}
@@ -130,6 +437,15 @@ Rules:
 5. Rotation is in radians (0 to 2π)
 6. Keep scenes reasonably sized (objects between -10 and 10 in each axis)
 7. Always include at least one light source
+8. Use a group for anything made of several parts that belong together (e.g. a table with a top and four legs), with the parts positioned relative to the group
+9. Add animations only when the description implies motion (spinning, floating, orbiting, pulsing); orbits start from the object's position
+10. For patterned surfaces (floors, tiles, wood, stone) use procedural textures; only use a texture file when the user gives its path
+11. Use lathe for round profiles (vases, bottles, columns), extrude for flat outlines with thickness (arches, signs, gears), tube for pipes, cables and rails, and text for signage
+12. Set castShadow: true on the main directional or spot light and mark the floor plane with ground: true
+13. Only use a model when the user gives the path of a model file; build everything else from primitives
+14. Ids are unique identifiers (letters, digits and underscores) that generated code uses as variable names; give important objects a short camelCase id (e.g. redCube) and a human-readable name. When refining a scene, keep the id of every existing camera, light and object
+15. Place objects that rest on or stand beside others (a vase on a table, a chair next to a desk, anything on the floor) with constraints instead of computing coordinates; the target needs an id
+16. Use a repeat for many similar objects (rows of columns, a ring of chairs, a forest, fence posts along a path) instead of listing each copy
 
 Return ONLY the JSON, no explanations.`;
   }
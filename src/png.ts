@@ -0,0 +1,82 @@
+import { deflateSync } from 'zlib';
+
+/**
+ * 8-bit RGBA image, rows top to bottom
+ */
+export interface RGBAImage {
+  width: number;
+  height: number;
+  /** width * height * 4 bytes */
+  data: Uint8Array;
+}
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Encode an RGBA image as a PNG file
+ */
+export function encodePNG(image: RGBAImage): Buffer {
+  const { width, height, data } = image;
+  if (data.length !== width * height * 4) {
+    throw new Error(`Expected ${width * height * 4} bytes of RGBA data, got ${data.length}`);
+  }
+
+  // Every scanline starts with filter type 0 (none)
+  const stride = width * 4;
+  const raw = Buffer.alloc((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0;
+    raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 6; // color type RGBA
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // no interlace
+
+  return Buffer.concat([
+    SIGNATURE,
+    chunk('IHDR', header),
+    chunk('IDAT', deflateSync(raw)),
+    chunk('IEND', Buffer.alloc(0))
+  ]);
+}
+
+/**
+ * Length-prefixed, CRC-suffixed PNG chunk
+ */
+function chunk(type: string, body: Buffer): Buffer {
+  const typeAndBody = Buffer.concat([Buffer.from(type, 'ascii'), body]);
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(body.length, 0);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndBody), 0);
+  return Buffer.concat([length, typeAndBody, crc]);
+}
+
+/**
+ * CRC-32 as used by PNG
+ */
+function crc32(bytes: Buffer): number {
+  let c = 0xffffffff;
+  for (const byte of bytes) {
+    c = CRC_TABLE[(c ^ byte) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,663 @@
+import { SceneDSL, ObjectConfig, LightConfig, MaterialConfig, MaterialSide, TextureConfig, Vector3Array } from './types/dsl.js';
+import { MeshData, tessellate, wireframeIndices } from './tessellator.js';
+import { geometrySpec } from './geometry.js';
+import { cross, dot, eulerToQuaternion, length, normalize, rotateVector, subtract } from './math3d.js';
+import { RGB, colorToLinearRGB, linearToSRGB, parseColor, srgbToLinear } from './colors.js';
+import { objectPositions, resolvePoint } from './sceneIds.js';
+import { expandLayouts } from './layouts.js';
+import { generateProceduralTexture, textureImageKey } from './textures.js';
+import { encodePNG, RGBAImage } from './png.js';
+
+/** Clipping planes of the generated scene's camera */
+const NEAR = 0.1;
+const FAR = 1000;
+
+/** Largest image side and samples per pixel side a render accepts */
+const MAX_SIZE = 8192;
+const MAX_SAMPLES = 4;
+
+/**
+ * Default light positions when the DSL omits them (same as buildSceneIR)
+ */
+const LIGHT_POSITIONS: Record<string, Vector3Array> = {
+  directional: [5, 10, 7.5],
+  point: [0, 5, 0],
+  spot: [0, 10, 0]
+};
+
+/** THREE.SpotLight's default cone half-angle */
+const SPOT_ANGLE = Math.PI / 3;
+
+/** MeshPhongMaterial's default specular color (#111111, as linear) and shininess */
+const PHONG_SPECULAR = srgbToLinear(0x11 / 255);
+const PHONG_SHININESS = 30;
+
+/** MeshStandardMaterial clamps roughness to at least this */
+const MIN_ROUGHNESS = 0.0525;
+
+/** Reflectance of non-metals seen head on */
+const DIELECTRIC_F0 = 0.04;
+
+export interface PreviewRenderOptions {
+  /** Image width in pixels (default 480) */
+  width?: number;
+  /** Image height in pixels (default 270) */
+  height?: number;
+  /** Samples per pixel along each side; 2 smooths edges at four times the work (default 2) */
+  samples?: number;
+}
+
+/**
+ * Affine transform as the top three rows of a 4x4 matrix, row-major
+ */
+type Matrix = number[];
+
+/**
+ * A material resolved to what the shading needs, colors in linear RGB
+ */
+interface Surface {
+  type: MaterialConfig['type'];
+  color: RGB;
+  opacity: number;
+  /** Emissive color times its intensity */
+  emissive: RGB;
+  metalness: number;
+  roughness: number;
+  side: MaterialSide;
+  flat: boolean;
+  wireframe: boolean;
+  map: TextureSampler | null;
+}
+
+interface TextureSampler {
+  image: RGBAImage;
+  repeat: [number, number];
+  offset: [number, number];
+}
+
+/**
+ * A directional, point or spot light, color times intensity in linear RGB
+ */
+interface Light {
+  type: Exclude<LightConfig['type'], 'ambient'>;
+  color: RGB;
+  position: Vector3Array;
+  /** Unit vector from the target towards the light */
+  direction: Vector3Array;
+}
+
+interface DrawItem {
+  mesh: MeshData;
+  /** Local to world transform */
+  matrix: Matrix;
+  surface: Surface;
+}
+
+/**
+ * Corner of a triangle or line, in camera space (x right, y up, z the
+ * distance ahead) and in world space
+ */
+interface Vertex {
+  view: Vector3Array;
+  world: Vector3Array;
+  normal: Vector3Array;
+  uv: [number, number];
+}
+
+/**
+ * Renders DSL scenes to images on the CPU, as previews of what the
+ * generated page shows: a z-buffered rasterizer shading every pixel the
+ * way Three.js's basic, Lambert, Phong and standard materials do under
+ * ambient, directional, point and spot lights, in sRGB output without
+ * tone mapping.
+ *
+ * Runs in plain Node. Shadows are not cast; models, image file textures
+ * and texture slots other than the color map are left out.
+ */
+export class PreviewRenderer {
+  /** Tessellated geometry by geometry key, kept across renders */
+  private meshes = new Map<string, MeshData>();
+  /** Procedural texture images by texture image key */
+  private images = new Map<string, RGBAImage>();
+  private width = 0;
+  private height = 0;
+  private samples = 1;
+  /** sRGB-encoded color of every sample, three floats each */
+  private color = new Float32Array(0);
+  /** Camera-space distance of the nearest surface at every sample */
+  private depth = new Float32Array(0);
+  private eye: Vector3Array = [0, 0, 0];
+  private right: Vector3Array = [1, 0, 0];
+  private up: Vector3Array = [0, 1, 0];
+  private forward: Vector3Array = [0, 0, -1];
+  /** Projection scale, 1 / tan(fov / 2) */
+  private focal = 1;
+  private lights: Light[] = [];
+  /** Sum of the ambient lights */
+  private ambient: RGB = [0, 0, 0];
+
+  /**
+   * Render the scene from its camera
+   *
+   * @throws Error when the size or sample count is out of range
+   */
+  render(dsl: SceneDSL, options: PreviewRenderOptions = {}): RGBAImage {
+    const { width = 480, height = 270, samples = 2 } = options;
+    for (const [name, value, max] of [['width', width, MAX_SIZE], ['height', height, MAX_SIZE], ['samples', samples, MAX_SAMPLES]] as const) {
+      if (!Number.isInteger(value) || value < 1 || value > max) {
+        throw new Error(`Cannot render preview: ${name} must be a whole number from 1 to ${max}, got ${String(value)}`);
+      }
+    }
+
+    this.samples = samples;
+    this.width = width * samples;
+    this.height = height * samples;
+    this.clear(dsl.background);
+
+    const positions = objectPositions(dsl);
+    this.setCamera(dsl, positions);
+    this.setLights(dsl.lights, positions);
+
+    // Transparent surfaces blend over what is behind them, so they go
+    // last and back to front, as Three.js sorts them
+    const items = this.collect(expandLayouts(dsl).objects, compose([0, 0, 0]), []);
+    const transparent = (item: DrawItem) => item.surface.opacity < 1;
+    const distance = (item: DrawItem) => length(subtract([item.matrix[3], item.matrix[7], item.matrix[11]], this.eye));
+    items.filter(item => !transparent(item)).forEach(item => this.draw(item));
+    items.filter(transparent)
+      .sort((a, b) => distance(b) - distance(a))
+      .forEach(item => this.draw(item));
+
+    return this.resolve(width, height);
+  }
+
+  /**
+   * Render the scene from its camera as a PNG file
+   */
+  renderPNG(dsl: SceneDSL, options: PreviewRenderOptions = {}): Buffer {
+    return encodePNG(this.render(dsl, options));
+  }
+
+  /**
+   * Fill every sample with the background color and clear the depth
+   */
+  private clear(background: string | undefined): void {
+    const [r, g, b] = (background !== undefined && parseColor(background)) || [0, 0, 0];
+    const count = this.width * this.height;
+    this.color = new Float32Array(count * 3);
+    this.depth = new Float32Array(count).fill(Infinity);
+    for (let i = 0; i < count; i++) {
+      this.color[i * 3] = r;
+      this.color[i * 3 + 1] = g;
+      this.color[i * 3 + 2] = b;
+    }
+  }
+
+  /**
+   * Camera basis, aimed like Object3D.lookAt
+   */
+  private setCamera(dsl: SceneDSL, positions: Map<string, Vector3Array>): void {
+    const { position, lookAt, fov = 75 } = dsl.camera;
+    const forward = normalize(subtract(resolvePoint(lookAt, positions), position));
+    const right = cross(forward, [0, 1, 0]);
+
+    this.eye = position;
+    this.forward = length(forward) > 0 ? forward : [0, 0, -1];
+    // Looking straight up or down leaves x as the right-hand side, as in Three.js
+    this.right = length(right) > 1e-9 ? normalize(right) : [1, 0, 0];
+    this.up = cross(this.right, this.forward);
+    this.focal = 1 / Math.tan((fov * Math.PI) / 360);
+  }
+
+  /**
+   * Resolve light positions and aims, summing the ambient lights
+   */
+  private setLights(lights: LightConfig[], positions: Map<string, Vector3Array>): void {
+    this.ambient = [0, 0, 0];
+    this.lights = [];
+    for (const light of lights) {
+      const color = scaled(colorToLinearRGB(light.color), light.intensity);
+      if (light.type === 'ambient') {
+        this.ambient = addColors(this.ambient, color);
+        continue;
+      }
+
+      const position = light.position || LIGHT_POSITIONS[light.type];
+      const target = resolvePoint(light.target || [0, 0, 0], positions);
+      this.lights.push({ type: light.type, color, position, direction: normalize(subtract(position, target)) });
+    }
+  }
+
+  /**
+   * Meshes of the objects with their world transforms; groups are walked
+   * into and models left out
+   */
+  private collect(objects: ObjectConfig[], parent: Matrix, items: DrawItem[]): DrawItem[] {
+    for (const obj of objects) {
+      const matrix = multiply(parent, compose(obj.position, obj.rotation, obj.scale));
+      if (obj.type === 'group') {
+        this.collect(obj.children, matrix, items);
+      } else if (obj.type !== 'model' && obj.type !== 'repeat') {
+        const key = JSON.stringify(geometrySpec(obj));
+        let mesh = this.meshes.get(key);
+        if (!mesh) {
+          mesh = tessellate(obj);
+          this.meshes.set(key, mesh);
+        }
+        items.push({ mesh, matrix, surface: this.surface(obj.material) });
+      }
+    }
+    return items;
+  }
+
+  /**
+   * Material parameters with the Three.js defaults filled in
+   */
+  private surface(material: MaterialConfig): Surface {
+    const emissive = material.emissive !== undefined ? colorToLinearRGB(material.emissive) : [0, 0, 0] as RGB;
+    return {
+      type: material.type,
+      color: colorToLinearRGB(material.color),
+      opacity: material.opacity ?? 1,
+      emissive: scaled(emissive, material.emissiveIntensity ?? 1),
+      metalness: material.metalness ?? 0,
+      roughness: Math.min(1, Math.max(MIN_ROUGHNESS, material.roughness ?? 1)),
+      side: material.side || 'front',
+      flat: !!material.flatShading,
+      wireframe: !!material.wireframe,
+      map: material.map ? this.sampler(material.map) : null
+    };
+  }
+
+  /**
+   * Sampler for a procedural texture; image files are not decoded
+   */
+  private sampler(texture: TextureConfig): TextureSampler | null {
+    if (texture.file !== undefined) return null;
+
+    const key = textureImageKey(texture);
+    let image = this.images.get(key);
+    if (!image) {
+      image = generateProceduralTexture(texture);
+      this.images.set(key, image);
+    }
+    return { image, repeat: texture.repeat || [1, 1], offset: texture.offset || [0, 0] };
+  }
+
+  /**
+   * Draw a mesh's triangles, or its edges when the material is a wireframe
+   */
+  private draw({ mesh, matrix, surface }: DrawItem): void {
+    if (surface.opacity <= 0) return;
+
+    const { cofactors, determinant } = normalMatrix(matrix);
+    if (determinant === 0) return;
+
+    const vertices: Vertex[] = [];
+    for (let i = 0; i < mesh.positions.length / 3; i++) {
+      const world = transform(matrix, [mesh.positions[i * 3], mesh.positions[i * 3 + 1], mesh.positions[i * 3 + 2]]);
+      const normal = transform(cofactors, [mesh.normals[i * 3], mesh.normals[i * 3 + 1], mesh.normals[i * 3 + 2]], 0);
+      vertices.push({
+        view: this.toView(world),
+        world,
+        normal: normalize(determinant < 0 ? scaled(normal, -1) : normal),
+        uv: [mesh.uvs[i * 2], mesh.uvs[i * 2 + 1]]
+      });
+    }
+
+    if (surface.wireframe) {
+      const lines = wireframeIndices(mesh.indices);
+      for (let i = 0; i < lines.length; i += 2) {
+        this.drawLine(vertices[lines[i]], vertices[lines[i + 1]], surface);
+      }
+      return;
+    }
+
+    for (let i = 0; i < mesh.indices.length; i += 3) {
+      const corners = [vertices[mesh.indices[i]], vertices[mesh.indices[i + 1]], vertices[mesh.indices[i + 2]]];
+      const faceNormal = cross(subtract(corners[1].world, corners[0].world), subtract(corners[2].world, corners[0].world));
+      const towardsEye = dot(faceNormal, subtract(this.eye, corners[0].world)) > 0;
+      // A mirroring transform turns the winding, and Three.js flips the front face with it
+      const front = towardsEye !== determinant < 0;
+      if ((surface.side === 'front' && !front) || (surface.side === 'back' && front)) continue;
+
+      // Flat shading uses the face's normal, which the shader derives facing the camera
+      const flatNormal = surface.flat ? normalize(scaled(faceNormal, towardsEye ? 1 : -1)) : null;
+      const clipped = clipNear(corners);
+      for (let j = 1; j + 1 < clipped.length; j++) {
+        this.fillTriangle([clipped[0], clipped[j], clipped[j + 1]], surface, front ? 1 : -1, flatNormal);
+      }
+    }
+  }
+
+  /**
+   * Rasterize a triangle in front of the near plane, interpolating its
+   * attributes with perspective correction
+   */
+  private fillTriangle(corners: Vertex[], surface: Surface, facing: number, flatNormal: Vector3Array | null): void {
+    const [p0, p1, p2] = corners.map(corner => this.project(corner.view));
+    const area = edge(p0, p1, p2);
+    if (area === 0) return;
+
+    const minX = Math.max(0, Math.floor(Math.min(p0[0], p1[0], p2[0])));
+    const maxX = Math.min(this.width - 1, Math.ceil(Math.max(p0[0], p1[0], p2[0])));
+    const minY = Math.max(0, Math.floor(Math.min(p0[1], p1[1], p2[1])));
+    const maxY = Math.min(this.height - 1, Math.ceil(Math.max(p0[1], p1[1], p2[1])));
+    const inverseDepths = corners.map(corner => 1 / corner.view[2]);
+
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        const pixel: [number, number] = [x + 0.5, y + 0.5];
+        const w0 = edge(p1, p2, pixel) / area;
+        const w1 = edge(p2, p0, pixel) / area;
+        const w2 = edge(p0, p1, pixel) / area;
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+
+        const weights = [w0 * inverseDepths[0], w1 * inverseDepths[1], w2 * inverseDepths[2]];
+        const sum = weights[0] + weights[1] + weights[2];
+        const depth = 1 / sum;
+        const index = y * this.width + x;
+        if (depth >= this.depth[index] || depth > FAR) continue;
+
+        const vertex = interpolate(corners, weights.map(weight => weight / sum));
+        const normal = flatNormal || normalize(scaled(vertex.normal, facing));
+        this.writeSample(index, depth, this.shade(surface, vertex.world, normal, vertex.uv), surface.opacity);
+      }
+    }
+  }
+
+  /**
+   * Rasterize an edge of a wireframe, as wide as one output pixel
+   */
+  private drawLine(a: Vertex, b: Vertex, surface: Surface): void {
+    const clipped = clipNear([a, b]);
+    if (clipped.length < 2) return;
+
+    const [start, end] = clipped;
+    const from = this.project(start.view);
+    const to = this.project(end.view);
+    const steps = Math.max(1, Math.ceil(Math.max(Math.abs(to[0] - from[0]), Math.abs(to[1] - from[1]))));
+    const half = Math.floor(this.samples / 2);
+
+    for (let step = 0; step <= steps; step++) {
+      const t = step / steps;
+      // Screen-space t, corrected to a position along the edge in 3D
+      const along = (t / end.view[2]) / ((1 - t) / start.view[2] + t / end.view[2]);
+      const vertex = interpolate([start, end], [1 - along, along]);
+      if (vertex.view[2] > FAR) continue;
+
+      const color = this.shade(surface, vertex.world, normalize(vertex.normal), vertex.uv);
+      const centerX = Math.floor(from[0] + (to[0] - from[0]) * t) - half;
+      const centerY = Math.floor(from[1] + (to[1] - from[1]) * t) - half;
+      for (let y = Math.max(0, centerY); y < Math.min(this.height, centerY + this.samples); y++) {
+        for (let x = Math.max(0, centerX); x < Math.min(this.width, centerX + this.samples); x++) {
+          const index = y * this.width + x;
+          if (vertex.view[2] < this.depth[index]) {
+            this.writeSample(index, vertex.view[2], color, surface.opacity);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Light leaving a surface point towards the camera, in linear RGB. Uses
+   * Three.js's physically based light units: point and spot lights fall
+   * off with the square of the distance, and diffuse reflection divides
+   * by pi, ambient light included.
+   */
+  private shade(surface: Surface, position: Vector3Array, normal: Vector3Array, uv: [number, number]): RGB {
+    const albedo = surface.map ? multiplyColors(surface.color, sampleTexture(surface.map, uv)) : surface.color;
+    if (surface.type === 'basic') return albedo;
+
+    const metal = surface.type === 'standard' ? surface.metalness : 0;
+    const diffuse = scaled(albedo, (1 - metal) / Math.PI);
+    const specular: RGB = surface.type === 'standard'
+      ? albedo.map(channel => DIELECTRIC_F0 + (channel - DIELECTRIC_F0) * metal) as RGB
+      : [PHONG_SPECULAR, PHONG_SPECULAR, PHONG_SPECULAR];
+    const toEye = normalize(subtract(this.eye, position));
+
+    let result = addColors(multiplyColors(this.ambient, diffuse), surface.emissive);
+    for (const light of this.lights) {
+      const toLight = light.type === 'directional' ? light.direction : subtract(light.position, position);
+      const distance = length(toLight);
+      const direction = normalize(toLight);
+      const cosine = dot(normal, direction);
+      if (cosine <= 0) continue;
+      if (light.type === 'spot' && dot(direction, light.direction) <= Math.cos(SPOT_ANGLE)) continue;
+
+      const strength = light.type === 'directional' ? cosine : cosine / Math.max(distance * distance, 0.01);
+
+      let reflected = diffuse;
+      if (surface.type !== 'lambert') {
+        const halfway = normalize([direction[0] + toEye[0], direction[1] + toEye[1], direction[2] + toEye[2]]);
+        const gloss = surface.type === 'standard'
+          ? ggx(specular, surface.roughness, normal, direction, toEye, halfway)
+          : blinnPhong(specular, normal, direction, halfway);
+        reflected = addColors(diffuse, gloss);
+      }
+      result = addColors(result, scaled(multiplyColors(light.color, reflected), strength));
+    }
+    return result;
+  }
+
+  /**
+   * Blend a shaded color over a sample, in sRGB as the browser's
+   * framebuffer does, and record its depth
+   */
+  private writeSample(index: number, depth: number, color: RGB, opacity: number): void {
+    for (let channel = 0; channel < 3; channel++) {
+      const encoded = linearToSRGB(Math.min(1, Math.max(0, color[channel])));
+      const offset = index * 3 + channel;
+      this.color[offset] = encoded * opacity + this.color[offset] * (1 - opacity);
+    }
+    this.depth[index] = depth;
+  }
+
+  /**
+   * Average each pixel's samples into the output image
+   */
+  private resolve(width: number, height: number): RGBAImage {
+    const data = new Uint8Array(width * height * 4);
+    const count = this.samples * this.samples;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const sums = [0, 0, 0];
+        for (let sy = 0; sy < this.samples; sy++) {
+          for (let sx = 0; sx < this.samples; sx++) {
+            const index = ((y * this.samples + sy) * this.width + x * this.samples + sx) * 3;
+            sums[0] += this.color[index];
+            sums[1] += this.color[index + 1];
+            sums[2] += this.color[index + 2];
+          }
+        }
+        const offset = (y * width + x) * 4;
+        sums.forEach((sum, channel) => data[offset + channel] = Math.round((sum / count) * 255));
+        data[offset + 3] = 255;
+      }
+    }
+    return { width, height, data };
+  }
+
+  /**
+   * World point in camera space
+   */
+  private toView(point: Vector3Array): Vector3Array {
+    const offset = subtract(point, this.eye);
+    return [dot(offset, this.right), dot(offset, this.up), dot(offset, this.forward)];
+  }
+
+  /**
+   * Camera-space point in sample coordinates, y down
+   */
+  private project([x, y, z]: Vector3Array): [number, number] {
+    const aspect = this.width / this.height;
+    return [
+      ((x / z) * (this.focal / aspect) + 1) / 2 * this.width,
+      (1 - (y / z) * this.focal) / 2 * this.height
+    ];
+  }
+}
+
+/**
+ * Local transform of an object: scale, then rotate (XYZ Euler), then translate
+ */
+function compose(position: Vector3Array, rotation: Vector3Array = [0, 0, 0], scale: Vector3Array = [1, 1, 1]): Matrix {
+  const quaternion = eulerToQuaternion(rotation);
+  const [x, y, z] = ([[1, 0, 0], [0, 1, 0], [0, 0, 1]] as Vector3Array[])
+    .map((axis, index) => rotateVector(scaled(axis, scale[index]), quaternion));
+  return [
+    x[0], y[0], z[0], position[0],
+    x[1], y[1], z[1], position[1],
+    x[2], y[2], z[2], position[2]
+  ];
+}
+
+/**
+ * Transform applying b, then a
+ */
+function multiply(a: Matrix, b: Matrix): Matrix {
+  const result: Matrix = [];
+  for (let row = 0; row < 3; row++) {
+    for (let column = 0; column < 4; column++) {
+      let sum = column === 3 ? a[row * 4 + 3] : 0;
+      for (let k = 0; k < 3; k++) {
+        sum += a[row * 4 + k] * b[k * 4 + column];
+      }
+      result.push(sum);
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply a transform to a point, or to a direction when w is 0
+ */
+function transform(matrix: Matrix, [x, y, z]: Vector3Array, w: number = 1): Vector3Array {
+  return [0, 1, 2].map(row =>
+    matrix[row * 4] * x + matrix[row * 4 + 1] * y + matrix[row * 4 + 2] * z + matrix[row * 4 + 3] * w) as Vector3Array;
+}
+
+/**
+ * Cofactors of a transform's linear part, which map normals like its
+ * inverse transpose times the determinant, and the determinant itself
+ */
+function normalMatrix(m: Matrix): { cofactors: Matrix; determinant: number } {
+  const [a, b, c, , d, e, f, , g, h, i] = m;
+  const cofactors = [
+    e * i - f * h, f * g - d * i, d * h - e * g, 0,
+    c * h - b * i, a * i - c * g, b * g - a * h, 0,
+    b * f - c * e, c * d - a * f, a * e - b * d, 0
+  ];
+  return { cofactors, determinant: a * cofactors[0] + b * cofactors[1] + c * cofactors[2] };
+}
+
+/**
+ * Clip a polygon (or a line, given two vertices) to the part in front of
+ * the near plane
+ */
+function clipNear(polygon: Vertex[]): Vertex[] {
+  const inside = (vertex: Vertex) => vertex.view[2] >= NEAR;
+  if (polygon.every(inside)) return polygon;
+
+  const clipped: Vertex[] = [];
+  const closed = polygon.length > 2;
+  for (let i = 0; i < polygon.length; i++) {
+    const current = polygon[i];
+    if (inside(current)) clipped.push(current);
+    if (!closed && i === polygon.length - 1) break;
+
+    const next = polygon[(i + 1) % polygon.length];
+    if (inside(current) !== inside(next)) {
+      const t = (NEAR - current.view[2]) / (next.view[2] - current.view[2]);
+      clipped.push(interpolate([current, next], [1 - t, t]));
+    }
+  }
+  return clipped;
+}
+
+/**
+ * Weighted sum of vertices
+ */
+function interpolate(vertices: Vertex[], weights: number[]): Vertex {
+  const mix = (get: (vertex: Vertex) => number[]) => get(vertices[0]).map((_, component) =>
+    vertices.reduce((sum, vertex, index) => sum + get(vertex)[component] * weights[index], 0));
+  return {
+    view: mix(vertex => vertex.view) as Vector3Array,
+    world: mix(vertex => vertex.world) as Vector3Array,
+    normal: mix(vertex => vertex.normal) as Vector3Array,
+    uv: mix(vertex => vertex.uv) as [number, number]
+  };
+}
+
+/**
+ * Twice the signed area of the triangle a, b, p
+ */
+function edge(a: [number, number], b: [number, number], p: [number, number]): number {
+  return (b[0] - a[0]) * (p[1] - a[1]) - (b[1] - a[1]) * (p[0] - a[0]);
+}
+
+/**
+ * Nearest texel of a repeating texture at a uv coordinate, as linear RGB.
+ * Textures are flipped on upload, so v runs up from the image's last row.
+ */
+function sampleTexture({ image, repeat, offset }: TextureSampler, [u, v]: [number, number]): RGB {
+  const wrap = (value: number) => value - Math.floor(value);
+  const x = Math.min(image.width - 1, Math.floor(wrap(u * repeat[0] + offset[0]) * image.width));
+  const y = Math.min(image.height - 1, Math.floor((1 - wrap(v * repeat[1] + offset[1])) * image.height));
+  const index = (y * image.width + x) * 4;
+  return [0, 1, 2].map(channel => srgbToLinear(image.data[index + channel] / 255)) as RGB;
+}
+
+/**
+ * Specular reflection of MeshPhongMaterial (normalized Blinn-Phong)
+ */
+function blinnPhong(specular: RGB, normal: Vector3Array, toLight: Vector3Array, halfway: Vector3Array): RGB {
+  const distribution = ((PHONG_SHININESS * 0.5 + 1) / Math.PI) * Math.pow(Math.max(0, dot(normal, halfway)), PHONG_SHININESS);
+  return scaled(fresnel(specular, Math.max(0, dot(toLight, halfway))), 0.25 * distribution);
+}
+
+/**
+ * Specular reflection of MeshStandardMaterial (GGX with height-correlated Smith visibility)
+ */
+function ggx(specular: RGB, roughness: number, normal: Vector3Array, toLight: Vector3Array, toEye: Vector3Array, halfway: Vector3Array): RGB {
+  const alpha2 = Math.pow(roughness, 4);
+  const dotNL = Math.max(0, dot(normal, toLight));
+  const dotNV = Math.max(0, dot(normal, toEye));
+  const dotNH = Math.max(0, dot(normal, halfway));
+  const gv = dotNL * Math.sqrt(alpha2 + (1 - alpha2) * dotNV * dotNV);
+  const gl = dotNV * Math.sqrt(alpha2 + (1 - alpha2) * dotNL * dotNL);
+  const visibility = 0.5 / Math.max(gv + gl, 1e-6);
+  const denominator = dotNH * dotNH * (alpha2 - 1) + 1;
+  const distribution = alpha2 / (Math.PI * denominator * denominator);
+  return scaled(fresnel(specular, Math.max(0, dot(toEye, halfway))), visibility * distribution);
+}
+
+/**
+ * Schlick's approximation, reaching white at grazing angles
+ */
+function fresnel(f0: RGB, cosine: number): RGB {
+  const weight = Math.pow(2, (-5.55473 * cosine - 6.98316) * cosine);
+  return f0.map(channel => channel * (1 - weight) + weight) as RGB;
+}
+
+/**
+ * Sum of two colors
+ */
+function addColors(a: RGB, b: RGB): RGB {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+/**
+ * Channel-wise product of two colors
+ */
+function multiplyColors(a: RGB, b: RGB): RGB {
+  return [a[0] * b[0], a[1] * b[1], a[2] * b[2]];
+}
+
+/**
+ * Color or vector with every component times a factor
+ */
+function scaled(v: RGB, factor: number): RGB {
+  return [v[0] * factor, v[1] * factor, v[2] * factor];
+}
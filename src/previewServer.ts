@@ -0,0 +1,331 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { FSWatcher, readFileSync, watch } from 'fs';
+import { basename, dirname, resolve } from 'path';
+import { createHash } from 'crypto';
+import { SceneGenerator } from './sceneGenerator.js';
+import { DSLParser } from './dslParser.js';
+import { DSLValidationError } from './dslValidator.js';
+import { escapeHTML } from './codeLiterals.js';
+import { THREE_FOLDER, localImportMap, readThreeModule } from './threeModules.js';
+import { ValidationIssue } from './types/dsl.js';
+
+/** Wait after a file change before rebuilding, since editors save in several writes */
+const DEBOUNCE_MS = 100;
+
+/** Interval of the comments that keep idle event streams open */
+const KEEPALIVE_MS = 15000;
+
+export interface PreviewServerOptions {
+  /** Port to listen on, 0 for any free one (default 5173) */
+  port?: number;
+  /** Interface to listen on (default localhost) */
+  host?: string;
+  /** Called after every rebuild that changed something, e.g. to log it */
+  onUpdate?: (update: SceneUpdate) => void;
+}
+
+/**
+ * Outcome of rebuilding the watched scene
+ */
+export type SceneUpdate =
+  | {
+    ok: true;
+    /** Hash of the generated module */
+    version: string;
+    /** Whether the DSL camera differs from the last valid build, which resets the view */
+    cameraChanged: boolean;
+  }
+  | { ok: false; message: string; issues: ValidationIssue[] };
+
+/**
+ * Script of the preview page: loads the scene module into the page and,
+ * on every update the server pushes, swaps in the new module while
+ * keeping the orbit camera where the user left it
+ */
+const CLIENT_SCRIPT = `const container = document.getElementById('scene');
+const overlay = document.getElementById('overlay');
+const POSE_KEY = 'scene-gen-pose';
+let handles = null;
+let version = null;
+let loading = Promise.resolve();
+
+// Kept in sessionStorage, so reloading the page keeps the view too
+function savePose() {
+  if (!handles) return;
+  sessionStorage.setItem(POSE_KEY, JSON.stringify({
+    position: handles.camera.position.toArray(),
+    quaternion: handles.camera.quaternion.toArray(),
+    target: handles.controls ? handles.controls.target.toArray() : null
+  }));
+}
+
+function restorePose() {
+  const pose = JSON.parse(sessionStorage.getItem(POSE_KEY) || 'null');
+  if (!pose) return;
+  handles.camera.position.fromArray(pose.position);
+  handles.camera.quaternion.fromArray(pose.quaternion);
+  if (handles.controls && pose.target) {
+    handles.controls.target.fromArray(pose.target);
+    handles.controls.update();
+  }
+}
+
+function showProblem(message, issues = []) {
+  const lines = issues.map((issue) => '[' + issue.severity + '] ' + (issue.path || '(root)') + ': ' + issue.message);
+  overlay.textContent = [message, ...lines].join('\\n');
+  overlay.style.display = 'block';
+}
+
+async function load(update) {
+  if (update.version !== version) {
+    savePose();
+    // A camera edited in the DSL wins over the view
+    if (update.cameraChanged) sessionStorage.removeItem(POSE_KEY);
+    try {
+      const { createScene } = await import('/scene.js?v=' + update.version);
+      handles?.dispose();
+      handles = await createScene(container);
+      version = update.version;
+      restorePose();
+    } catch (error) {
+      showProblem('The scene failed to load: ' + error.message);
+      return;
+    }
+  }
+  overlay.style.display = 'none';
+}
+
+const events = new EventSource('/events');
+events.addEventListener('scene', (event) => {
+  const update = JSON.parse(event.data);
+  loading = loading.then(() => load(update));
+});
+events.addEventListener('invalid', (event) => {
+  const { message, issues } = JSON.parse(event.data);
+  loading = loading.then(() => showProblem(message, issues));
+});
+window.addEventListener('beforeunload', savePose);`;
+
+/**
+ * Local HTTP server previewing a scene file while it is edited
+ *
+ * The page loads the scene as the module SceneGenerator.generateModule
+ * writes and follows the file over Server-Sent Events: every save
+ * rebuilds the module and the page swaps it in without reloading, so the
+ * orbit camera stays put. A file that fails to parse or validate keeps
+ * the last good scene on screen under an overlay listing the problems.
+ * Three.js is served from the installed package, so no network is needed.
+ */
+export class PreviewServer {
+  private scenePath: string;
+  private parser: DSLParser;
+  private generator: SceneGenerator;
+  private options: PreviewServerOptions;
+  private server: Server | null = null;
+  private watcher: FSWatcher | null = null;
+  private clients = new Set<ServerResponse>();
+  private debounce: NodeJS.Timeout | null = null;
+  private keepalive: NodeJS.Timeout | null = null;
+  /** Module of the last valid build, served while the file is broken */
+  private module: string | null = null;
+  /** Camera of the last valid build, as JSON */
+  private camera: string | null = null;
+  private state: SceneUpdate | null = null;
+
+  constructor(scenePath: string, options: PreviewServerOptions = {}) {
+    this.scenePath = resolve(scenePath);
+    const assetDir = dirname(this.scenePath);
+    this.parser = new DSLParser({ assetDir });
+    // Local modules embed fonts rather than loading them from the CDN
+    this.generator = new SceneGenerator({ assetDir, modules: 'local' });
+    this.options = options;
+  }
+
+  /**
+   * Build the scene, start listening and watch the file
+   *
+   * @returns the URL of the preview page
+   */
+  async start(): Promise<string> {
+    const { port = 5173, host = 'localhost' } = this.options;
+    this.rebuild();
+
+    const server = createServer((request, response) => this.handle(request, response));
+    await new Promise<void>((resolveListen, rejectListen) => {
+      server.once('error', rejectListen);
+      server.listen(port, host, () => resolveListen());
+    });
+    this.server = server;
+
+    // Editors often save by renaming a new file over the old one, which
+    // ends a watch on the file itself, so watch its directory
+    this.watcher = watch(dirname(this.scenePath), (_, filename) => {
+      if (filename === basename(this.scenePath)) this.schedule();
+    });
+    this.keepalive = setInterval(() => this.clients.forEach(client => client.write(': keepalive\n\n')), KEEPALIVE_MS);
+
+    return `http://${host}:${(server.address() as AddressInfo).port}/`;
+  }
+
+  /**
+   * Stop watching, end the event streams and stop listening
+   */
+  async close(): Promise<void> {
+    if (this.debounce) clearTimeout(this.debounce);
+    if (this.keepalive) clearInterval(this.keepalive);
+    this.watcher?.close();
+    this.clients.forEach(client => client.end());
+    this.clients.clear();
+
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolveClose => server.close(() => resolveClose()));
+    }
+  }
+
+  /**
+   * Rebuild once the file has been quiet for a moment
+   */
+  private schedule(): void {
+    if (this.debounce) clearTimeout(this.debounce);
+    this.debounce = setTimeout(() => {
+      this.debounce = null;
+      if (this.rebuild()) this.broadcast();
+    }, DEBOUNCE_MS);
+  }
+
+  /**
+   * Parse the file and generate its module, keeping the last good module
+   * when that fails. Returns false when the module came out the same.
+   */
+  private rebuild(): boolean {
+    const previous = this.state;
+    let update: SceneUpdate;
+    try {
+      const { dsl } = this.parser.parseSourceWithIssues(readFileSync(this.scenePath, 'utf-8'));
+      const module = this.generator.generateModule(dsl);
+      const camera = JSON.stringify(dsl.camera);
+      update = {
+        ok: true,
+        version: createHash('sha1').update(module).digest('hex').slice(0, 12),
+        cameraChanged: this.camera !== null && camera !== this.camera
+      };
+      this.module = module;
+      this.camera = camera;
+    } catch (error) {
+      update = error instanceof DSLValidationError
+        ? { ok: false, message: `Invalid scene in ${basename(this.scenePath)}`, issues: error.issues }
+        : { ok: false, message: error instanceof Error ? error.message : String(error), issues: [] };
+    }
+
+    this.state = update;
+    if (previous?.ok && update.ok && previous.version === update.version) return false;
+    this.options.onUpdate?.(update);
+    return true;
+  }
+
+  /**
+   * Send the current state to every open page
+   */
+  private broadcast(): void {
+    this.clients.forEach(client => this.send(client));
+  }
+
+  /**
+   * Send the current state as a scene or invalid event
+   */
+  private send(client: ServerResponse): void {
+    if (!this.state) return;
+    const { ok, ...data } = this.state;
+    client.write(`event: ${ok ? 'scene' : 'invalid'}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+
+  /**
+   * Serve the page, the scene module, the event stream and the Three.js modules
+   */
+  private handle(request: IncomingMessage, response: ServerResponse): void {
+    const { pathname } = new URL(request.url || '/', 'http://localhost');
+    const vendor = `/${THREE_FOLDER}/`;
+
+    if (request.method !== 'GET') {
+      this.reply(response, 405, 'text/plain', 'Method not allowed');
+    } else if (pathname === '/') {
+      this.reply(response, 200, 'text/html', this.page());
+    } else if (pathname === '/scene.js' && this.module !== null) {
+      this.reply(response, 200, 'text/javascript', this.module);
+    } else if (pathname === '/events') {
+      response.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-store', Connection: 'keep-alive' });
+      this.clients.add(response);
+      request.on('close', () => this.clients.delete(response));
+      this.send(response);
+    } else if (pathname.startsWith(vendor)) {
+      try {
+        this.reply(response, 200, 'text/javascript', readThreeModule(pathname.slice(vendor.length)));
+      } catch {
+        this.reply(response, 404, 'text/plain', 'Not found');
+      }
+    } else {
+      this.reply(response, 404, 'text/plain', 'Not found');
+    }
+  }
+
+  /**
+   * Send a whole response that browsers must not cache
+   */
+  private reply(response: ServerResponse, status: number, type: string, body: string): void {
+    response.writeHead(status, { 'Content-Type': `${type}; charset=utf-8`, 'Cache-Control': 'no-store' });
+    response.end(body);
+  }
+
+  /**
+   * Preview page: the scene's container, the problem overlay and the client script
+   */
+  private page(): string {
+    const title = escapeHTML(`${basename(this.scenePath)} - preview`);
+    const importMap = JSON.stringify({ imports: localImportMap() }, null, 2).replace(/^/gm, '    ');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <style>
+    body {
+      margin: 0;
+      overflow: hidden;
+    }
+    #scene {
+      position: fixed;
+      inset: 0;
+    }
+    #overlay {
+      display: none;
+      position: fixed;
+      inset: 0;
+      overflow: auto;
+      margin: 0;
+      padding: 24px;
+      background: rgba(40, 0, 0, 0.85);
+      color: #ffd8d8;
+      font: 14px/1.5 monospace;
+      white-space: pre-wrap;
+    }
+  </style>
+</head>
+<body>
+  <div id="scene"></div>
+  <pre id="overlay"></pre>
+
+  <script type="importmap">
+${importMap}
+  </script>
+  <script type="module">
+${CLIENT_SCRIPT.replace(/^(?=.)/gm, '    ')}
+  </script>
+</body>
+</html>`;
+  }
+}
@@ -0,0 +1,102 @@
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { ChatMessage, CompletionRequest, LLMProvider } from '../types/llm.js';
+
+/**
+ * Recorded responses keyed by prompt (the last user message of a request)
+ */
+export type FixtureMap = Record<string, string>;
+
+export interface FixtureProviderOptions {
+  /** Response returned for prompts without a fixture; unknown prompts throw when omitted */
+  fallback?: string;
+}
+
+/**
+ * Key a request by its last user message
+ */
+export function fixtureKey(messages: ChatMessage[]): string {
+  const lastUser = [...messages].reverse().find(message => message.role === 'user');
+  return lastUser ? lastUser.content.trim() : '';
+}
+
+/**
+ * Deterministic offline provider that replays canned responses
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture';
+  private fixtures: FixtureMap;
+  private fallback?: string;
+
+  constructor(fixtures: FixtureMap, options: FixtureProviderOptions = {}) {
+    this.fixtures = Object.fromEntries(
+      Object.entries(fixtures).map(([prompt, response]) => [prompt.trim(), response])
+    );
+    this.fallback = options.fallback;
+  }
+
+  /**
+   * Load fixtures from a JSON file of { "<prompt>": "<response>" }
+   */
+  static fromFile(path: string, options: FixtureProviderOptions = {}): FixtureProvider {
+    const fixtures = JSON.parse(readFileSync(path, 'utf-8'));
+    return new FixtureProvider(FixtureProvider.toFixtureMap(fixtures), options);
+  }
+
+  /**
+   * Responses may be stored as strings or as inline JSON values
+   */
+  static toFixtureMap(raw: Record<string, unknown>): FixtureMap {
+    return Object.fromEntries(
+      Object.entries(raw).map(([prompt, response]) => [
+        prompt,
+        typeof response === 'string' ? response : JSON.stringify(response)
+      ])
+    );
+  }
+
+  /**
+   * Return the recorded response for the request's prompt
+   */
+  async complete(request: CompletionRequest): Promise<string> {
+    const key = fixtureKey(request.messages);
+    // Own keys only, so prompts like "constructor" do not find Object.prototype members
+    const response = Object.prototype.hasOwnProperty.call(this.fixtures, key) ? this.fixtures[key] : this.fallback;
+
+    if (response === undefined) {
+      throw new Error(`No fixture recorded for prompt: ${key.slice(0, 80)}`);
+    }
+
+    return response;
+  }
+}
+
+/**
+ * Wraps another provider and records every response into a fixture file
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: string;
+  private inner: LLMProvider;
+  private path: string;
+
+  constructor(inner: LLMProvider, path: string) {
+    this.inner = inner;
+    this.path = path;
+    this.name = `recording (${inner.name})`;
+  }
+
+  /**
+   * Forward the request and save the response under its prompt
+   */
+  async complete(request: CompletionRequest): Promise<string> {
+    const response = await this.inner.complete(request);
+    const fixtures: FixtureMap = existsSync(this.path)
+      ? FixtureProvider.toFixtureMap(JSON.parse(readFileSync(this.path, 'utf-8')))
+      : {};
+
+    // Added as an own property, which assignment would not do for "__proto__"
+    Object.defineProperty(fixtures, fixtureKey(request.messages), { value: response, enumerable: true, writable: true, configurable: true });
+    writeFileSync(this.path, JSON.stringify(fixtures, null, 2));
+
+    return response;
+  }
+}
@@ -0,0 +1,33 @@
+import { LLMProvider } from '../types/llm.js';
+import { OpenAIProvider } from './openaiProvider.js';
+import { FixtureProvider, RecordingProvider } from './fixtureProvider.js';
+
+export { OpenAIProvider } from './openaiProvider.js';
+export type { OpenAIProviderOptions } from './openaiProvider.js';
+export { FixtureProvider, RecordingProvider, fixtureKey } from './fixtureProvider.js';
+export type { FixtureProviderOptions, FixtureMap } from './fixtureProvider.js';
+
+/**
+ * Pick a provider from environment variables
+ *
+ * - LLM_FIXTURES=path: replay responses from a fixture file (no network),
+ *   or record into it when LLM_RECORD=1 and a live backend is configured
+ * - OPENAI_BASE_URL: OpenAI-compatible server, API key optional
+ * - OPENAI_API_KEY: the OpenAI API
+ *
+ * Returns null when nothing is configured.
+ */
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LLMProvider | null {
+  const live = env.OPENAI_API_KEY || env.OPENAI_BASE_URL
+    ? new OpenAIProvider({ apiKey: env.OPENAI_API_KEY, baseURL: env.OPENAI_BASE_URL })
+    : null;
+
+  if (env.LLM_FIXTURES) {
+    if (env.LLM_RECORD === '1') {
+      return live ? new RecordingProvider(live, env.LLM_FIXTURES) : null;
+    }
+    return FixtureProvider.fromFile(env.LLM_FIXTURES);
+  }
+
+  return live;
+}
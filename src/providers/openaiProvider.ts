@@ -0,0 +1,45 @@
+import OpenAI from 'openai';
+import { CompletionRequest, LLMProvider } from '../types/llm.js';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  /** Base URL of an OpenAI-compatible server, e.g. http://localhost:11434/v1 */
+  baseURL?: string;
+  /** Send response_format json_object (not every compatible server supports it) */
+  jsonMode?: boolean;
+}
+
+/**
+ * Provider for the OpenAI API and OpenAI-compatible servers
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: string;
+  private openai: OpenAI;
+  private jsonMode: boolean;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    const baseURL = options.baseURL || process.env.OPENAI_BASE_URL;
+
+    this.openai = new OpenAI({
+      // Local servers usually ignore the key, but the client requires one
+      apiKey: options.apiKey || process.env.OPENAI_API_KEY || (baseURL ? 'not-needed' : undefined),
+      baseURL
+    });
+    this.name = baseURL ? `openai-compatible (${baseURL})` : 'openai';
+    this.jsonMode = options.jsonMode ?? true;
+  }
+
+  /**
+   * Send a chat completion request and return the raw message content
+   */
+  async complete(request: CompletionRequest): Promise<string> {
+    const completion = await this.openai.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      ...(request.json && this.jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+    });
+
+    return completion.choices[0]?.message?.content ?? '';
+  }
+}
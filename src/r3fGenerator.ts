@@ -0,0 +1,452 @@
+import { SceneDSL, AnimationConfig } from './types/dsl.js';
+import { SceneIR, LightNode, ObjectNode, MeshNode, GroupNode, ModelNode, InstancedMeshNode, Transform } from './types/sceneIR.js';
+import { AnimationGenerator, AnimationTarget } from './animationGenerator.js';
+import { codeNumber, codeNumbers, colorLiteral, jsString } from './codeLiterals.js';
+import { buildSceneIR } from './sceneIR.js';
+import {
+  geometryExpression,
+  instanceList,
+  instancingSection,
+  materialValue,
+  modelURLs,
+  pathHelpersSection,
+  sceneImports,
+  texturesSection
+} from './threeCode.js';
+
+/**
+ * Values of the Canvas shadows prop for each shadow map type
+ */
+const CANVAS_SHADOWS: Record<string, string> = {
+  basic: 'basic',
+  pcf: 'percentage',
+  pcfSoft: 'soft',
+  vsm: 'variance'
+};
+
+export interface R3FGeneratorOptions {
+  /** Directory texture and model file paths are resolved against (default: the working directory) */
+  assetDir?: string;
+  /**
+   * How models reach the app: 'inline' embeds them as data URIs, 'copy'
+   * loads them from the assets folder that copyModelAssets writes, which
+   * must be served next to the page, e.g. from a public folder (default: 'inline')
+   */
+  assets?: 'inline' | 'copy';
+}
+
+/**
+ * Generates a React Three Fiber component from DSL
+ *
+ * Written from the same intermediate representation as SceneGenerator, so
+ * geometry, materials, textures and animations match the other outputs.
+ * Geometry and materials are built once per mount and handed to the JSX
+ * elements; animated objects get a ref their update functions drive.
+ */
+export class R3FGenerator {
+  private animationGenerator = new AnimationGenerator();
+  private assetDir: string;
+  private assets: 'inline' | 'copy';
+
+  constructor(options: R3FGeneratorOptions = {}) {
+    this.assetDir = options.assetDir || process.cwd();
+    this.assets = options.assets || 'inline';
+  }
+
+  /**
+   * Generate a JSX module whose default export renders the scene in a
+   * Canvas; SceneContent is exported for use inside an existing Canvas
+   */
+  generateComponent(dsl: SceneDSL): string {
+    const ir = buildSceneIR(dsl, { assetDir: this.assetDir, assets: this.assets });
+    const hooks: string[] = [];
+    const animations: [string, string][] = [];
+
+    const objects = ir.objects.map(node => this.generateNode(node, ir, hooks, animations));
+    const lights = ir.lights.map(light => this.generateLight(light, hooks, animations));
+    const cameraAnimations = this.generateAnimations({
+      varName: 'camera',
+      position: ir.camera.position,
+      rotation: [0, 0, 0],
+      afterUpdate: `camera.lookAt(${codeNumbers(ir.camera.lookAt, 'camera.lookAt')});`
+    }, ir.camera.animations);
+    if (cameraAnimations) animations.unshift(['camera', cameraAnimations]);
+
+    const moduleSections = [
+      ...(ir.animated ? [`// Animation runtime\n${this.animationGenerator.generateHelpers()}`] : []),
+      texturesSection(ir.textures),
+      pathHelpersSection(ir),
+      instancingSection(ir),
+      this.generateFonts(ir),
+      ir.models.length > 0 ? `// Models\n${modelURLs(ir.models).join('\n')}` : ''
+    ].filter(section => section !== '');
+
+    const body = [
+      ...(hooks.length > 0 ? [hooks.join('\n')] : []),
+      ...(animations.length > 0 ? [this.generateAnimationHooks(animations)] : []),
+      `return (
+  <>
+    <color attach="background" args={[${colorLiteral(ir.background, 'background')}]} />
+${[...lights, ...objects].join('\n').replace(/^(?=.)/gm, '    ')}
+  </>
+);`
+    ].join('\n\n');
+
+    return `${this.generateImports(ir, animations.length > 0)}
+
+extend({ OrbitControls });
+
+${moduleSections.map(section => `${section}\n\n`).join('')}/**
+ * Orbit controls around the point the camera looks at
+ */
+function Controls() {
+  const camera = useThree((state) => state.camera);
+  const gl = useThree((state) => state.gl);
+  const controls = useRef();
+  useFrame(() => controls.current.update());
+
+  return (
+    <orbitControls
+      ref={controls}
+      args={[camera, gl.domElement]}
+      target={[${codeNumbers(ir.camera.lookAt, 'camera.lookAt')}]}
+      enableDamping
+      dampingFactor={0.05}
+    />
+  );
+}
+
+/**
+ * Lights and objects of the scene, for use inside a Canvas
+ */
+export function SceneContent() {
+${body.replace(/^(?=.)/gm, '  ')}
+}
+
+/**
+ * The scene in a Canvas filling its parent; props are passed to the Canvas
+ */
+export default function Scene(props) {
+  return (
+    <Canvas
+${this.generateCanvasProps(ir).map(prop => `      ${prop}`).join('\n')}
+      {...props}
+    >
+      <Suspense fallback={null}>
+        <SceneContent />
+      </Suspense>
+      <Controls />
+    </Canvas>
+  );
+}
+`;
+  }
+
+  /**
+   * Generate ES6 imports: the Three.js modules the scene needs, React and
+   * React Three Fiber
+   */
+  private generateImports(ir: SceneIR, animated: boolean): string {
+    const react = ['Suspense', ...(animated || ir.instanced ? ['useLayoutEffect'] : []), 'useMemo', 'useRef'];
+    const fiber = ['Canvas', 'extend', 'useFrame', ...(ir.models.length > 0 ? ['useLoader'] : []), 'useThree'];
+    const imports = [
+      ...sceneImports(ir).map(([bindings, specifier]) => `import ${bindings} from '${specifier}';`),
+      ...ir.fonts.map((font, index) => `import font${index} from 'three/examples/fonts/${font}.typeface.json';`),
+      `import { ${react.join(', ')} } from 'react';`,
+      `import { ${fiber.join(', ')} } from '@react-three/fiber';`
+    ];
+    return imports.join('\n');
+  }
+
+  /**
+   * Parse the typeface files text geometry needs, imported as JSON
+   */
+  private generateFonts(ir: SceneIR): string {
+    if (ir.fonts.length === 0) return '';
+
+    const entries = ir.fonts.map((font, index) => `  ${jsString(font)}: fontLoader.parse(font${index})`);
+    return `// Fonts
+const fontLoader = new FontLoader();
+const fonts = {
+${entries.join(',\n')}
+};`;
+  }
+
+  /**
+   * Generate the JSX element of a light
+   */
+  private generateLight(light: LightNode, hooks: string[], animations: [string, string][]): string {
+    const varName = light.varName;
+    const props = [
+      `name={${jsString(light.name)}}`,
+      `color={${colorLiteral(light.color, `${varName}.color`)}}`,
+      `intensity={${codeNumber(light.intensity, `${varName}.intensity`)}}`
+    ];
+    // Statements run once the props are applied
+    const onUpdate: string[] = [];
+    if (light.position) {
+      props.push(`position={[${codeNumbers(light.position, `${varName}.position`)}]}`);
+    }
+    if (light.target) {
+      // The target is not part of the scene, so its world matrix is updated by hand
+      props.push(`target-position={[${codeNumbers(light.target, `${varName}.target`)}]}`);
+      onUpdate.push('self.target.updateMatrixWorld();');
+    }
+    if (light.shadow) {
+      const { shadow } = light;
+      const mapSize = codeNumber(shadow.mapSize, `${varName}.shadow.mapSize`);
+      props.push(
+        'castShadow',
+        `shadow-mapSize={[${mapSize}, ${mapSize}]}`,
+        `shadow-bias={${codeNumber(shadow.bias, `${varName}.shadow.bias`)}}`
+      );
+      if (shadow.normalBias !== undefined) {
+        props.push(`shadow-normalBias={${codeNumber(shadow.normalBias, `${varName}.shadow.normalBias`)}}`);
+      }
+      if (shadow.radius !== undefined) {
+        props.push(`shadow-radius={${codeNumber(shadow.radius, `${varName}.shadow.radius`)}}`);
+      }
+      for (const [key, value] of Object.entries(shadow.camera)) {
+        props.push(`shadow-camera-${key}={${codeNumber(value, `${varName}.shadow.camera.${key}`)}}`);
+      }
+      if (Object.keys(shadow.camera).length > 0) {
+        onUpdate.push('self.shadow.camera.updateProjectionMatrix();');
+      }
+    }
+    if (onUpdate.length > 0) {
+      props.push(`onUpdate={(self) => { ${onUpdate.join(' ')} }}`);
+    }
+
+    const code = this.generateAnimations({
+      varName,
+      position: light.position || [0, 0, 0],
+      rotation: [0, 0, 0],
+      colorExpr: `${varName}.color`
+    }, light.animations);
+    if (code) {
+      hooks.push(`const ${varName}Ref = useRef();`);
+      animations.push([varName, code]);
+      props.unshift(`ref={${varName}Ref}`);
+    }
+
+    return this.element(`${light.type}Light`, props);
+  }
+
+  /**
+   * Generate the JSX of a mesh, group or model
+   */
+  private generateNode(node: ObjectNode, ir: SceneIR, hooks: string[], animations: [string, string][]): string {
+    switch (node.kind) {
+      case 'group':
+        return this.generateGroup(node, ir, hooks, animations);
+      case 'model':
+        return this.generateModel(node, ir, hooks, animations);
+      case 'mesh':
+        return this.generateMesh(node, hooks, animations);
+      case 'instanced':
+        return this.generateInstanced(node, hooks, animations);
+    }
+  }
+
+  /**
+   * Generate a group element with its children nested inside
+   */
+  private generateGroup(group: GroupNode, ir: SceneIR, hooks: string[], animations: [string, string][]): string {
+    const props = this.objectProps(group, hooks, animations, this.generateAnimations({
+      varName: group.varName,
+      position: group.position,
+      rotation: group.rotation
+    }, group.animations));
+    const children = group.children.map(child => this.generateNode(child, ir, hooks, animations));
+
+    return this.element('group', props, children);
+  }
+
+  /**
+   * Load a model file, clone its scene graph for this object and place it
+   * like a group
+   */
+  private generateModel(model: ModelNode, ir: SceneIR, hooks: string[], animations: [string, string][]): string {
+    const varName = model.varName;
+    const loaded = ir.models[model.model].loader === 'obj'
+      ? `useLoader(OBJLoader, modelURL${model.model})`
+      : `useLoader(GLTFLoader, modelURL${model.model}).scene`;
+
+    const flags: string[] = [];
+    if (model.castShadow) flags.push('child.castShadow = true;');
+    if (model.receiveShadow) flags.push('child.receiveShadow = true;');
+    const shadows = flags.length > 0 ? `
+  object.traverse((child) => {
+    if (child.isMesh) {
+      ${flags.join('\n      ')}
+    }
+  });` : '';
+
+    hooks.push(`const ${varName}Source = ${loaded};
+const ${varName} = useMemo(() => {
+  const object = ${varName}Source.clone();${shadows}
+  return object;
+}, [${varName}Source]);`);
+
+    const props = this.objectProps(model, hooks, animations, this.generateAnimations({
+      varName,
+      position: model.position,
+      rotation: model.rotation
+    }, model.animations));
+
+    return this.element('primitive', [`object={${varName}}`, ...props]);
+  }
+
+  /**
+   * Generate a mesh element using geometry and material built once per mount
+   */
+  private generateMesh(mesh: MeshNode, hooks: string[], animations: [string, string][]): string {
+    const varName = mesh.varName;
+    hooks.push(this.geometryAndMaterialHooks(mesh));
+
+    const props = this.objectProps(mesh, hooks, animations, this.generateAnimations({
+      varName,
+      position: mesh.position,
+      rotation: mesh.rotation,
+      colorExpr: `${varName}.material.color`
+    }, mesh.animations));
+    props.push(`geometry={${varName}Geometry}`, `material={${varName}Material}`);
+    if (mesh.castShadow) props.push('castShadow');
+    if (mesh.receiveShadow) props.push('receiveShadow');
+
+    return this.element('mesh', props);
+  }
+
+  /**
+   * Generate an instanced mesh drawing every copy a repeat makes, placed
+   * once it is mounted
+   */
+  private generateInstanced(mesh: InstancedMeshNode, hooks: string[], animations: [string, string][]): string {
+    const varName = mesh.varName;
+    hooks.push(this.geometryAndMaterialHooks(mesh));
+
+    const props = this.objectProps(mesh, hooks, animations, this.generateAnimations({
+      varName,
+      position: mesh.position,
+      rotation: mesh.rotation,
+      colorExpr: `${varName}.material.color`
+    }, mesh.animations), true);
+    hooks.push(`useLayoutEffect(() => {
+  placeInstances(${varName}Ref.current, ${instanceList(mesh).replace(/\n/g, '\n  ')});
+}, []);`);
+    props.push(`args={[${varName}Geometry, ${varName}Material, ${mesh.instances.length}]}`);
+    if (mesh.castShadow) props.push('castShadow');
+    if (mesh.receiveShadow) props.push('receiveShadow');
+
+    return this.element('instancedMesh', props);
+  }
+
+  /**
+   * Geometry and material of a mesh, built once per mount
+   */
+  private geometryAndMaterialHooks(mesh: MeshNode | InstancedMeshNode): string {
+    const varName = mesh.varName;
+    const geometry = geometryExpression(mesh.geometry, `${varName} geometry`);
+    const params = mesh.material.params.map(([key, value]) => `${key}: ${materialValue(value, `material.${key}`)}`);
+
+    return `const ${varName}Geometry = useMemo(() => ${geometry}, []);
+const ${varName}Material = useMemo(() => new THREE.${mesh.material.className}({ ${params.join(', ')} }), []);`;
+  }
+
+  /**
+   * Name and transform props of an object, plus a ref when it is animated
+   * or the caller needs one
+   */
+  private objectProps(
+    node: ObjectNode,
+    hooks: string[],
+    animations: [string, string][],
+    animationCode: string,
+    ref: boolean = false
+  ): string[] {
+    const varName = node.varName;
+    const props = [`name={${jsString(node.name)}}`, ...this.transformProps(node, varName)];
+    if (animationCode) {
+      animations.push([varName, animationCode]);
+    }
+    if (animationCode || ref) {
+      hooks.push(`const ${varName}Ref = useRef();`);
+      props.unshift(`ref={${varName}Ref}`);
+    }
+    return props;
+  }
+
+  /**
+   * Position, rotation and scale props, omitting defaults
+   */
+  private transformProps(transform: Transform, varName: string): string[] {
+    const props = [`position={[${codeNumbers(transform.position, `${varName}.position`)}]}`];
+    if (transform.rotation.some(value => value !== 0)) {
+      props.push(`rotation={[${codeNumbers(transform.rotation, `${varName}.rotation`)}]}`);
+    }
+    if (transform.scale.some(value => value !== 1)) {
+      props.push(`scale={[${codeNumbers(transform.scale, `${varName}.scale`)}]}`);
+    }
+    return props;
+  }
+
+  /**
+   * Create the update functions once the animated objects are mounted and
+   * call them every frame with the elapsed time
+   */
+  private generateAnimationHooks(animations: [string, string][]): string {
+    const refs = animations
+      .filter(([varName]) => varName !== 'camera')
+      .map(([varName]) => `const ${varName} = ${varName}Ref.current;`);
+    const camera = animations.some(([varName]) => varName === 'camera')
+      ? ['const camera = useThree((state) => state.camera);']
+      : [];
+
+    return `${[...camera, 'const updates = useRef([]);'].join('\n')}
+useLayoutEffect(() => {
+${[...refs, 'const animations = [];', '', animations.map(([, code]) => code).join('\n'), '', 'updates.current = animations;']
+    .join('\n').replace(/^(?=.)/gm, '  ')}
+}, []);
+useFrame(({ clock }) => {
+  const elapsed = clock.getElapsedTime();
+  updates.current.forEach((update) => update(elapsed));
+});`;
+  }
+
+  /**
+   * Generate update functions for a target, or an empty string
+   */
+  private generateAnimations(target: AnimationTarget, animations: AnimationConfig[]): string {
+    return this.animationGenerator.generateAnimations(target, animations);
+  }
+
+  /**
+   * Props of the Canvas: the camera and the shadow map type
+   */
+  private generateCanvasProps(ir: SceneIR): string[] {
+    const { fov, position } = ir.camera;
+    const props = [
+      // Keep Three.js defaults: no tone mapping, like the other outputs
+      'flat',
+      `camera={{ name: ${jsString(ir.camera.name)}, fov: ${codeNumber(fov, 'camera.fov')}, near: 0.1, far: 1000, position: [${codeNumbers(position, 'camera.position')}] }}`
+    ];
+    if (ir.shadowMap) {
+      props.push(`shadows={${jsString(CANVAS_SHADOWS[ir.shadowMap] || CANVAS_SHADOWS.pcfSoft)}}`);
+    }
+    return props;
+  }
+
+  /**
+   * Format a JSX element, putting props on their own lines when there are many
+   */
+  private element(tag: string, props: string[], children: string[] = []): string {
+    const inline = props.join(' ');
+    const open = inline.length <= 80
+      ? `<${tag} ${inline}`
+      : `<${tag}\n${props.map(prop => `  ${prop}`).join('\n')}\n`;
+    if (children.length === 0) {
+      return `${open}${inline.length <= 80 ? ' ' : ''}/>`;
+    }
+    return `${open}>\n${children.join('\n').replace(/^(?=.)/gm, '  ')}\n</${tag}>`;
+  }
+}
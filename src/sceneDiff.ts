@@ -0,0 +1,170 @@
+import { SceneDSL } from './types/dsl.js';
+
+export type SceneChangeKind = 'added' | 'removed' | 'changed';
+
+export interface SceneChange {
+  kind: SceneChangeKind;
+  /** JSON path in the same format as validation issues, e.g. objects[2].material.color */
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Compute the structural differences between two scenes
+ *
+ * Array items are aligned by content first, so removing one object from
+ * the middle of a list reports one removal rather than a change to every
+ * object after it.
+ */
+export function diffScenes(before: SceneDSL, after: SceneDSL): SceneChange[] {
+  const changes: SceneChange[] = [];
+  diffValues(before, after, '', changes);
+  return changes;
+}
+
+/**
+ * Human-readable summary, one line per change
+ */
+export function summarizeChanges(changes: SceneChange[]): string {
+  if (changes.length === 0) {
+    return 'No changes';
+  }
+
+  return changes.map(change => {
+    switch (change.kind) {
+      case 'added':
+        return `+ ${change.path}: added ${describe(change.after)}`;
+      case 'removed':
+        return `- ${change.path}: removed ${describe(change.before)}`;
+      case 'changed':
+        return `~ ${change.path}: ${describe(change.before)} -> ${describe(change.after)}`;
+    }
+  }).join('\n');
+}
+
+/**
+ * Recursively compare two JSON values
+ */
+function diffValues(before: unknown, after: unknown, path: string, changes: SceneChange[]): void {
+  if (equal(before, after)) return;
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    diffArrays(before, after, path, changes);
+    return;
+  }
+
+  if (isRecord(before) && isRecord(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      const childPath = path ? `${path}.${key}` : key;
+      if (!(key in before)) {
+        changes.push({ kind: 'added', path: childPath, after: after[key] });
+      } else if (!(key in after)) {
+        changes.push({ kind: 'removed', path: childPath, before: before[key] });
+      } else {
+        diffValues(before[key], after[key], childPath, changes);
+      }
+    }
+    return;
+  }
+
+  changes.push({ kind: 'changed', path, before, after });
+}
+
+/**
+ * Align two arrays on their longest common subsequence of equal items;
+ * unmatched items between anchors are paired as changes, the rest are
+ * additions or removals
+ */
+function diffArrays(before: unknown[], after: unknown[], path: string, changes: SceneChange[]): void {
+  // Vectors and other arrays of scalars read better as a single change
+  if (!before.concat(after).some(item => typeof item === 'object' && item !== null)) {
+    changes.push({ kind: 'changed', path, before, after });
+    return;
+  }
+
+  const matches = longestCommonSubsequence(before, after);
+  let i = 0;
+  let j = 0;
+
+  for (const [matchI, matchJ] of [...matches, [before.length, after.length]]) {
+    const removed = before.slice(i, matchI);
+    const added = after.slice(j, matchJ);
+    const paired = Math.min(removed.length, added.length);
+
+    for (let k = 0; k < paired; k++) {
+      diffValues(removed[k], added[k], `${path}[${j + k}]`, changes);
+    }
+    for (let k = paired; k < removed.length; k++) {
+      changes.push({ kind: 'removed', path: `${path}[${i + k}]`, before: removed[k] });
+    }
+    for (let k = paired; k < added.length; k++) {
+      changes.push({ kind: 'added', path: `${path}[${j + k}]`, after: added[k] });
+    }
+
+    i = matchI + 1;
+    j = matchJ + 1;
+  }
+}
+
+/**
+ * Index pairs of items equal in both arrays, in order
+ */
+function longestCommonSubsequence(a: unknown[], b: unknown[]): [number, number][] {
+  const keysA = a.map(item => JSON.stringify(item));
+  const keysB = b.map(item => JSON.stringify(item));
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = keysA[i] === keysB[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (keysA[i] === keysB[j]) {
+      pairs.push([i++, j++]);
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return pairs;
+}
+
+/**
+ * Short description of a value for the summary
+ */
+function describe(value: unknown): string {
+  if (isRecord(value) && typeof value.type === 'string') {
+    const details = [value.type];
+    if (typeof value.id === 'string') details.push(value.id);
+    if (isRecord(value.material) && typeof value.material.color === 'string') details.push(value.material.color);
+    if (typeof value.color === 'string') details.push(value.color);
+    if (Array.isArray(value.position)) details.push(`at [${value.position.join(', ')}]`);
+    return details.join(' ');
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Deep equality of JSON values
+ */
+function equal(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Check for a plain (non-array) object
+ */
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,226 +1,522 @@
-import { SceneDSL, ObjectConfig, LightConfig } from './types/dsl.js';
+import { SceneDSL, AnimationConfig } from './types/dsl.js';
+import { SceneIR, LightNode, ObjectNode, MeshNode, GroupNode, ModelNode, InstancedMeshNode } from './types/sceneIR.js';
+import { AnimationGenerator, AnimationTarget } from './animationGenerator.js';
+import { codeNumber, codeNumbers, colorLiteral, escapeHTML, jsString } from './codeLiterals.js';
+import { buildSceneIR } from './sceneIR.js';
+import {
+  geometryExpression,
+  instanceList,
+  instancingSection,
+  materialValue,
+  modelURLs,
+  pathHelpersSection,
+  sceneImports,
+  texturesSection
+} from './threeCode.js';
+import { THREE_CDN, cdnImportMap, inlineImportMap, localImportMap, threeFont } from './threeModules.js';
+
+const SHADOW_MAP_TYPES: Record<string, string> = {
+  basic: 'THREE.BasicShadowMap',
+  pcf: 'THREE.PCFShadowMap',
+  pcfSoft: 'THREE.PCFSoftShadowMap',
+  vsm: 'THREE.VSMShadowMap'
+};
+
+const LIGHT_CLASSES: Record<string, string> = {
+  ambient: 'AmbientLight',
+  directional: 'DirectionalLight',
+  point: 'PointLight',
+  spot: 'SpotLight'
+};
+
+/**
+ * Three.js class of the object each kind of node becomes; models are
+ * declared as groups, which is what GLTFLoader and OBJLoader return
+ */
+const OBJECT_CLASSES: Record<ObjectNode['kind'], string> = {
+  mesh: 'Mesh',
+  instanced: 'InstancedMesh',
+  group: 'Group',
+  model: 'Group'
+};
+
+export interface SceneGeneratorOptions {
+  /** Directory texture and model file paths are resolved against (default: the working directory) */
+  assetDir?: string;
+  /**
+   * How models reach the page: 'inline' embeds them as data URIs, 'copy'
+   * loads them from the assets folder that copyModelAssets writes next to
+   * the HTML (default: 'inline')
+   */
+  assets?: 'inline' | 'copy';
+  /**
+   * Where the HTML loads Three.js from, always the installed version:
+   * 'cdn' uses jsDelivr, 'inline' embeds the modules in the import map,
+   * 'local' loads the vendor folder that copyThreeModules writes next to
+   * the HTML (default: 'cdn'). Fonts are embedded unless loading from the CDN.
+   */
+  modules?: 'cdn' | 'inline' | 'local';
+}
 
 /**
  * Generates Three.js scene code from DSL
+ *
+ * Every output is written from the scene's intermediate representation
+ * (see buildSceneIR), which R3FGenerator shares.
  */
 export class SceneGenerator {
+  private animationGenerator = new AnimationGenerator();
+  private assetDir: string;
+  private assets: 'inline' | 'copy';
+  private modules: 'cdn' | 'inline' | 'local';
+
+  constructor(options: SceneGeneratorOptions = {}) {
+    this.assetDir = options.assetDir || process.cwd();
+    this.assets = options.assets || 'inline';
+    this.modules = options.modules || 'cdn';
+  }
+
   /**
    * Generate complete Three.js scene code
    */
   generateScene(dsl: SceneDSL): string {
-    const imports = this.generateImports();
-    const sceneSetup = this.generateSceneSetup(dsl);
-    const camera = this.generateCamera(dsl);
-    const lights = this.generateLights(dsl);
-    const objects = this.generateObjects(dsl);
-    const renderer = this.generateRenderer(dsl);
-    const animate = this.generateAnimateFunction();
+    return this.generateScript(this.buildIR(dsl));
+  }
+
+  /**
+   * Generate an ES module exporting createScene(container, options), which
+   * renders into the container and returns handles for the scene, camera,
+   * renderer, controls, objects and lights plus a dispose() function
+   */
+  generateModule(dsl: SceneDSL): string {
+    const ir = this.buildIR(dsl);
+    const moduleSections = [
+      ...(ir.animated ? [`// Animation runtime\n${this.animationGenerator.generateHelpers()}`] : []),
+      texturesSection(ir.textures),
+      pathHelpersSection(ir),
+      instancingSection(ir),
+      this.generateModelLoaders(ir)
+    ].filter(section => section !== '');
+
+    const body = [
+      [
+        this.generateSceneSetup(ir),
+        ...(ir.animated ? ['const clock = new THREE.Clock();\nconst animations = [];'] : [])
+      ].join('\n\n'),
+      ...(ir.fonts.length > 0 ? [this.generateFonts(ir)] : []),
+      this.generateCamera(ir, 'container.clientWidth / container.clientHeight'),
+      this.generateLights(ir),
+      this.generateObjects(ir),
+      this.generateContainerRenderer(ir),
+      this.generateHandles(ir)
+    ].join('\n\n');
+
+    return `${this.generateImports(ir)}
+
+${moduleSections.map(section => `${section}\n\n`).join('')}/**
+ * Render the scene into a container element, sized to fit it
+ *
+ * @param {HTMLElement} container
+ * @param {{ controls?: boolean, pixelRatio?: number }} [options]
+ */
+export async function createScene(container, options = {}) {
+${body.replace(/^(?=.)/gm, '  ')}
+}
+`;
+  }
+
+  /**
+   * Generate TypeScript declarations for the module from generateModule
+   */
+  generateModuleTypes(dsl: SceneDSL): string {
+    const ir = this.buildIR(dsl, false);
+    const objects: string[] = [];
+    const collect = (node: ObjectNode) => {
+      objects.push(`    ${node.varName}: THREE.${OBJECT_CLASSES[node.kind]};`);
+      if (node.kind === 'group') node.children.forEach(collect);
+    };
+    ir.objects.forEach(collect);
+    const lights = ir.lights.map(light => `    ${light.varName}: THREE.${LIGHT_CLASSES[light.type]};`);
 
-    return `${imports}
+    return `import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+
+export interface CreateSceneOptions {
+  /** Add orbit controls (default true) */
+  controls?: boolean;
+  /** Renderer pixel ratio (default window.devicePixelRatio) */
+  pixelRatio?: number;
+}
+
+export interface SceneHandles {
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  renderer: THREE.WebGLRenderer;
+  controls: OrbitControls | null;
+  objects: {
+${objects.join('\n')}
+  };
+  lights: {
+${lights.join('\n')}
+  };
+  /** Stop rendering, release GPU resources and remove the canvas */
+  dispose(): void;
+}
+
+export declare function createScene(container: HTMLElement, options?: CreateSceneOptions): Promise<SceneHandles>;
+`;
+  }
+
+  /**
+   * Module specifiers the code for a scene imports, e.g. to pass to copyThreeModules
+   */
+  requiredModules(dsl: SceneDSL): string[] {
+    return sceneImports(this.buildIR(dsl, false)).map(([, specifier]) => specifier);
+  }
+
+  /**
+   * Resolve the scene; assets are only loaded when the output embeds them
+   */
+  private buildIR(dsl: SceneDSL, embedAssets: boolean = true): SceneIR {
+    return buildSceneIR(dsl, { assetDir: this.assetDir, assets: this.assets, loadAssets: embedAssets });
+  }
+
+  /**
+   * Generate the standalone page script
+   */
+  private generateScript(ir: SceneIR): string {
+    const sceneSetup = [
+      this.generateSceneSetup(ir),
+      ...(ir.animated ? [this.animationGenerator.generateRuntime()] : []),
+      texturesSection(ir.textures),
+      [pathHelpersSection(ir), ...(ir.fonts.length > 0 ? [this.generateFonts(ir)] : [])].filter(Boolean).join('\n\n'),
+      instancingSection(ir),
+      this.generateModelLoaders(ir)
+    ].filter(section => section !== '').join('\n\n');
+
+    return `${this.generateImports(ir)}
 
 ${sceneSetup}
 
-${camera}
+${this.generateCamera(ir, 'window.innerWidth / window.innerHeight')}
 
-${lights}
+${this.generateLights(ir)}
 
-${objects}
+${this.generateObjects(ir)}
 
-${renderer}
+${this.generateRenderer(ir)}
 
-${animate}`;
+${this.generateAnimateFunction(ir.animated)}`;
   }
 
   /**
    * Generate ES6 imports
    */
-  private generateImports(): string {
-    return `import * as THREE from 'three';
-import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';`;
+  private generateImports(ir: SceneIR): string {
+    return sceneImports(ir)
+      .map(([bindings, specifier]) => `import ${bindings} from '${specifier}';`)
+      .join('\n');
   }
 
   /**
    * Generate scene setup code
    */
-  private generateSceneSetup(dsl: SceneDSL): string {
+  private generateSceneSetup(ir: SceneIR): string {
     return `// Create scene
 const scene = new THREE.Scene();
-scene.background = new THREE.Color('${dsl.background || '#000000'}');`;
+scene.background = new THREE.Color(${colorLiteral(ir.background, 'background')});`;
+  }
+
+  /**
+   * Load the fonts text geometry needs, from the CDN or embedded
+   */
+  private generateFonts(ir: SceneIR): string {
+    const entries = ir.fonts.map(font => this.modules === 'cdn'
+      ? `  ${jsString(font)}: await fontLoader.loadAsync(${jsString(`${THREE_CDN}/examples/fonts/${font}.typeface.json`)})`
+      : `  ${jsString(font)}: fontLoader.parse(JSON.parse(${jsString(threeFont(font))}))`
+    );
+    return `// Fonts
+const fontLoader = new FontLoader();
+const fonts = {
+${entries.join(',\n')}
+};`;
+  }
+
+  /**
+   * Create the model loaders and the URL of each model file, embedded as a
+   * data URI or pointing into the copied assets folder
+   */
+  private generateModelLoaders(ir: SceneIR): string {
+    if (ir.models.length === 0) return '';
+
+    const lines: string[] = [];
+    if (ir.models.some(model => model.loader === 'gltf')) {
+      lines.push('const gltfLoader = new GLTFLoader();');
+    }
+    if (ir.models.some(model => model.loader === 'obj')) {
+      lines.push('const objLoader = new OBJLoader();');
+    }
+    return `// Models\n${[...lines, ...modelURLs(ir.models)].join('\n')}`;
   }
 
   /**
    * Generate camera code
    */
-  private generateCamera(dsl: SceneDSL): string {
-    const { position, lookAt, fov = 75 } = dsl.camera;
-    
+  private generateCamera(ir: SceneIR, aspect: string): string {
+    const { position, lookAt, fov } = ir.camera;
+
     return `// Create camera
 const camera = new THREE.PerspectiveCamera(
-  ${fov},
-  window.innerWidth / window.innerHeight,
+  ${codeNumber(fov, 'camera.fov')},
+  ${aspect},
   0.1,
   1000
 );
-camera.position.set(${position.join(', ')});
-camera.lookAt(${lookAt.join(', ')});`;
+camera.name = ${jsString(ir.camera.name)};
+camera.position.set(${codeNumbers(position, 'camera.position')});
+camera.lookAt(${codeNumbers(lookAt, 'camera.lookAt')});${this.withAnimations({
+      varName: 'camera',
+      position,
+      rotation: [0, 0, 0],
+      afterUpdate: `camera.lookAt(${codeNumbers(lookAt, 'camera.lookAt')});`
+    }, ir.camera.animations)}`;
   }
 
   /**
    * Generate lights code
    */
-  private generateLights(dsl: SceneDSL): string {
-    const lightsCode = dsl.lights.map((light, index) => 
-      this.generateLight(light, index)
+  private generateLights(ir: SceneIR): string {
+    const lightsCode = ir.lights.map(light =>
+      this.generateLight(light) + this.withAnimations({
+        varName: light.varName,
+        position: light.position || [0, 0, 0],
+        rotation: [0, 0, 0],
+        colorExpr: `${light.varName}.color`
+      }, light.animations)
     ).join('\n\n');
-    
+
     return `// Add lights\n${lightsCode}`;
   }
 
   /**
    * Generate a single light
    */
-  private generateLight(light: LightConfig, index: number): string {
-    const varName = `${light.type}Light${index}`;
-    
-    switch (light.type) {
-      case 'ambient':
-        return `const ${varName} = new THREE.AmbientLight('${light.color}', ${light.intensity});
-scene.add(${varName});`;
-      
-      case 'directional':
-        const dirPos = light.position || [5, 10, 7.5];
-        return `const ${varName} = new THREE.DirectionalLight('${light.color}', ${light.intensity});
-${varName}.position.set(${dirPos.join(', ')});
-scene.add(${varName});`;
-      
-      case 'point':
-        const pointPos = light.position || [0, 5, 0];
-        return `const ${varName} = new THREE.PointLight('${light.color}', ${light.intensity});
-${varName}.position.set(${pointPos.join(', ')});
-scene.add(${varName});`;
-      
-      case 'spot':
-        const spotPos = light.position || [0, 10, 0];
-        return `const ${varName} = new THREE.SpotLight('${light.color}', ${light.intensity});
-${varName}.position.set(${spotPos.join(', ')});
-scene.add(${varName});`;
-      
-      default:
-        return '';
+  private generateLight(light: LightNode): string {
+    const varName = light.varName;
+    const lines = [
+      `const ${varName} = new THREE.${LIGHT_CLASSES[light.type]}(${colorLiteral(light.color, `${varName}.color`)}, ${codeNumber(light.intensity, `${varName}.intensity`)});`,
+      `${varName}.name = ${jsString(light.name)};`
+    ];
+    if (light.position) {
+      lines.push(`${varName}.position.set(${codeNumbers(light.position, `${varName}.position`)});${this.generateLightShadow(light)}`);
     }
+    lines.push(`scene.add(${varName});`);
+    if (light.target) {
+      // The target's world matrix is only updated while it is in the scene
+      lines.push(
+        `${varName}.target.position.set(${codeNumbers(light.target, `${varName}.target`)});`,
+        `scene.add(${varName}.target);`
+      );
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Generate shadow map setup for a light that casts shadows
+   */
+  private generateLightShadow(light: LightNode): string {
+    const { varName, shadow } = light;
+    if (!shadow) return '';
+
+    const mapSize = codeNumber(shadow.mapSize, `${varName}.shadow.mapSize`);
+    const lines = [
+      `${varName}.castShadow = true;`,
+      `${varName}.shadow.mapSize.set(${mapSize}, ${mapSize});`,
+      `${varName}.shadow.bias = ${codeNumber(shadow.bias, `${varName}.shadow.bias`)};`
+    ];
+    if (shadow.normalBias !== undefined) {
+      lines.push(`${varName}.shadow.normalBias = ${codeNumber(shadow.normalBias, `${varName}.shadow.normalBias`)};`);
+    }
+    if (shadow.radius !== undefined) {
+      lines.push(`${varName}.shadow.radius = ${codeNumber(shadow.radius, `${varName}.shadow.radius`)};`);
+    }
+    for (const [key, value] of Object.entries(shadow.camera)) {
+      lines.push(`${varName}.shadow.camera.${key} = ${codeNumber(value, `${varName}.shadow.camera.${key}`)};`);
+    }
+    if (Object.keys(shadow.camera).length > 0) {
+      lines.push(`${varName}.shadow.camera.updateProjectionMatrix();`);
+    }
+
+    return `\n${lines.join('\n')}`;
   }
 
   /**
    * Generate objects code
    */
-  private generateObjects(dsl: SceneDSL): string {
-    const objectsCode = dsl.objects.map((obj, index) => 
-      this.generateObject(obj, index)
+  private generateObjects(ir: SceneIR): string {
+    const objectsCode = ir.objects.map(node =>
+      this.generateNode(node, 'scene', ir)
     ).join('\n\n');
-    
+
     return `// Add objects\n${objectsCode}`;
   }
 
   /**
-   * Generate a single object
+   * Generate a mesh, group or model and attach it to its parent
    */
-  private generateObject(obj: ObjectConfig, index: number): string {
-    const geometry = this.generateGeometry(obj);
-    const material = this.generateMaterial(obj);
-    const varName = `mesh${index}`;
-    
-    const rotation = obj.rotation || [0, 0, 0];
-    const scale = obj.scale || [1, 1, 1];
-    
-    return `const geometry${index} = ${geometry};
-const material${index} = ${material};
-const ${varName} = new THREE.Mesh(geometry${index}, material${index});
-${varName}.position.set(${obj.position.join(', ')});
-${varName}.rotation.set(${rotation.join(', ')});
-${varName}.scale.set(${scale.join(', ')});
-scene.add(${varName});`;
-  }
-
-  /**
-   * Generate geometry code
-   */
-  private generateGeometry(obj: ObjectConfig): string {
-    switch (obj.type) {
-      case 'cube':
-        const w = obj.width || 1;
-        const h = obj.height || 1;
-        const d = obj.depth || 1;
-        return `new THREE.BoxGeometry(${w}, ${h}, ${d})`;
-      
-      case 'sphere':
-        const r = obj.radius || 1;
-        const seg = obj.segments || 32;
-        return `new THREE.SphereGeometry(${r}, ${seg}, ${seg})`;
-      
-      case 'plane':
-        const pw = obj.width || 10;
-        const ph = obj.height || 10;
-        return `new THREE.PlaneGeometry(${pw}, ${ph})`;
-      
-      case 'cylinder':
-        const cr = obj.radius || 1;
-        const ch = obj.height || 2;
-        return `new THREE.CylinderGeometry(${cr}, ${cr}, ${ch}, 32)`;
-      
-      case 'cone':
-        const coneR = obj.radius || 1;
-        const coneH = obj.height || 2;
-        return `new THREE.ConeGeometry(${coneR}, ${coneH}, 32)`;
-      
-      case 'torus':
-        const torusR = obj.radius || 1;
-        return `new THREE.TorusGeometry(${torusR}, ${torusR * 0.4}, 16, 100)`;
-      
-      default:
-        return `new THREE.BoxGeometry(1, 1, 1)`;
+  private generateNode(node: ObjectNode, parent: string, ir: SceneIR): string {
+    switch (node.kind) {
+      case 'group':
+        return this.generateGroup(node, parent, ir);
+      case 'model':
+        return this.generateModel(node, parent, ir);
+      case 'mesh':
+        return this.generateMesh(node, parent);
+      case 'instanced':
+        return this.generateInstanced(node, parent);
     }
   }
 
   /**
-   * Generate material code
+   * Position, rotation and scale of an object, and attaching it to its parent
    */
-  private generateMaterial(obj: ObjectConfig): string {
-    const { material } = obj;
-    
-    const params: string[] = [`color: '${material.color}'`];
-    
-    if (material.metalness !== undefined) {
-      params.push(`metalness: ${material.metalness}`);
-    }
-    if (material.roughness !== undefined) {
-      params.push(`roughness: ${material.roughness}`);
-    }
-    if (material.wireframe) {
-      params.push(`wireframe: ${material.wireframe}`);
-    }
-    
-    switch (material.type) {
-      case 'basic':
-        return `new THREE.MeshBasicMaterial({ ${params.join(', ')} })`;
-      case 'standard':
-        return `new THREE.MeshStandardMaterial({ ${params.join(', ')} })`;
-      case 'phong':
-        return `new THREE.MeshPhongMaterial({ ${params.join(', ')} })`;
-      case 'lambert':
-        return `new THREE.MeshLambertMaterial({ ${params.join(', ')} })`;
-      default:
-        return `new THREE.MeshStandardMaterial({ ${params.join(', ')} })`;
-    }
+  private generateTransform(node: ObjectNode, parent: string, extra: string = ''): string {
+    const varName = node.varName;
+    return `${varName}.name = ${jsString(node.name)};
+${varName}.position.set(${codeNumbers(node.position, `${varName}.position`)});
+${varName}.rotation.set(${codeNumbers(node.rotation, `${varName}.rotation`)});
+${varName}.scale.set(${codeNumbers(node.scale, `${varName}.scale`)});${extra}
+${parent}.add(${varName});`;
+  }
+
+  /**
+   * Generate a THREE.Group with its children parented to it
+   */
+  private generateGroup(group: GroupNode, parent: string, ir: SceneIR): string {
+    const varName = group.varName;
+    const children = group.children.map(child =>
+      this.generateNode(child, varName, ir)
+    );
+
+    return [
+      `const ${varName} = new THREE.Group();
+${this.generateTransform(group, parent)}${this.withAnimations({
+        varName,
+        position: group.position,
+        rotation: group.rotation
+      }, group.animations)}`,
+      ...children
+    ].join('\n\n');
+  }
+
+  /**
+   * Load a model file and place its scene graph like a group
+   */
+  private generateModel(model: ModelNode, parent: string, ir: SceneIR): string {
+    const varName = model.varName;
+    const url = `modelURL${model.model}`;
+    const load = ir.models[model.model].loader === 'obj'
+      ? `await objLoader.loadAsync(${url})`
+      : `(await gltfLoader.loadAsync(${url})).scene`;
+
+    return `const ${varName} = ${load};
+${this.generateTransform(model, parent, this.generateModelShadows(model))}${this.withAnimations({
+      varName,
+      position: model.position,
+      rotation: model.rotation
+    }, model.animations)}`;
+  }
+
+  /**
+   * Shadow flags for every mesh inside a model
+   */
+  private generateModelShadows(model: ModelNode): string {
+    const flags: string[] = [];
+    if (model.castShadow) flags.push('child.castShadow = true;');
+    if (model.receiveShadow) flags.push('child.receiveShadow = true;');
+    if (flags.length === 0) return '';
+
+    return `
+${model.varName}.traverse((child) => {
+  if (child.isMesh) {
+    ${flags.join('\n    ')}
+  }
+});`;
+  }
+
+  /**
+   * Generate a single mesh with its geometry and material
+   */
+  private generateMesh(mesh: MeshNode, parent: string): string {
+    const varName = mesh.varName;
+
+    return `${this.generateGeometryAndMaterial(mesh)}
+const ${varName} = new THREE.Mesh(${varName}Geometry, ${varName}Material);
+${this.generateTransform(mesh, parent, this.generateMeshShadows(mesh))}${this.withAnimations({
+      varName,
+      position: mesh.position,
+      rotation: mesh.rotation,
+      colorExpr: `${varName}.material.color`
+    }, mesh.animations)}`;
+  }
+
+  /**
+   * Generate an instanced mesh drawing every copy a repeat makes
+   */
+  private generateInstanced(mesh: InstancedMeshNode, parent: string): string {
+    const varName = mesh.varName;
+
+    return `${this.generateGeometryAndMaterial(mesh)}
+const ${varName} = new THREE.InstancedMesh(${varName}Geometry, ${varName}Material, ${mesh.instances.length});
+placeInstances(${varName}, ${instanceList(mesh)});
+${this.generateTransform(mesh, parent, this.generateMeshShadows(mesh))}${this.withAnimations({
+      varName,
+      position: mesh.position,
+      rotation: mesh.rotation,
+      colorExpr: `${varName}.material.color`
+    }, mesh.animations)}`;
+  }
+
+  /**
+   * Geometry and material constants of a mesh
+   */
+  private generateGeometryAndMaterial(mesh: MeshNode | InstancedMeshNode): string {
+    const varName = mesh.varName;
+    const geometry = geometryExpression(mesh.geometry, `${varName} geometry`);
+    const params = mesh.material.params.map(([key, value]) => `${key}: ${materialValue(value, `material.${key}`)}`);
+
+    return `const ${varName}Geometry = ${geometry};
+const ${varName}Material = new THREE.${mesh.material.className}({ ${params.join(', ')} });`;
+  }
+
+  /**
+   * Shadow flags of a mesh, each on its own line
+   */
+  private generateMeshShadows(mesh: MeshNode | InstancedMeshNode): string {
+    const shadows: string[] = [];
+    if (mesh.castShadow) shadows.push(`${mesh.varName}.castShadow = true;`);
+    if (mesh.receiveShadow) shadows.push(`${mesh.varName}.receiveShadow = true;`);
+    return shadows.map(line => `\n${line}`).join('');
+  }
+
+  /**
+   * Renderer shadow map settings when any light casts shadows
+   */
+  private generateShadowMap(ir: SceneIR): string {
+    if (!ir.shadowMap) return '';
+    return `
+renderer.shadowMap.enabled = true;
+renderer.shadowMap.type = ${SHADOW_MAP_TYPES[ir.shadowMap] || SHADOW_MAP_TYPES.pcfSoft};`;
   }
 
   /**
-   * Generate renderer code
+   * Generate renderer code for the standalone page
    */
-  private generateRenderer(dsl: SceneDSL): string {
+  private generateRenderer(ir: SceneIR): string {
     return `// Create renderer
 const renderer = new THREE.WebGLRenderer({ antialias: true });
 renderer.setSize(window.innerWidth, window.innerHeight);
-renderer.setPixelRatio(window.devicePixelRatio);
+renderer.setPixelRatio(window.devicePixelRatio);${this.generateShadowMap(ir)}
 document.body.appendChild(renderer.domElement);
 
 // Add orbit controls
@@ -236,32 +532,144 @@ window.addEventListener('resize', () => {
 });`;
   }
 
+  /**
+   * Generate renderer, controls and render loop code for createScene,
+   * following the container's size rather than the window's
+   */
+  private generateContainerRenderer(ir: SceneIR): string {
+    return `// Create renderer
+const renderer = new THREE.WebGLRenderer({ antialias: true });
+renderer.setPixelRatio(options.pixelRatio ?? window.devicePixelRatio);
+renderer.setSize(container.clientWidth, container.clientHeight);${this.generateShadowMap(ir)}
+container.appendChild(renderer.domElement);
+
+// Add orbit controls
+const controls = options.controls === false ? null : new OrbitControls(camera, renderer.domElement);
+if (controls) {
+  controls.target.set(${codeNumbers(ir.camera.lookAt, 'camera.lookAt')});
+  controls.enableDamping = true;
+  controls.dampingFactor = 0.05;
+}
+
+// Handle container resize
+const resizeObserver = new ResizeObserver(() => {
+  const width = container.clientWidth;
+  const height = container.clientHeight;
+  if (width === 0 || height === 0) return;
+  camera.aspect = width / height;
+  camera.updateProjectionMatrix();
+  renderer.setSize(width, height);
+});
+resizeObserver.observe(container);
+
+// Animation loop
+renderer.setAnimationLoop(() => {
+  controls?.update();${ir.animated ? `
+  const elapsed = clock.getElapsedTime();
+  animations.forEach((update) => update(elapsed));` : ''}
+  renderer.render(scene, camera);
+});`;
+  }
+
+  /**
+   * Handles createScene returns
+   */
+  private generateHandles(ir: SceneIR): string {
+    const names: string[] = [];
+    const collect = (node: ObjectNode) => {
+      names.push(node.varName);
+      if (node.kind === 'group') node.children.forEach(collect);
+    };
+    ir.objects.forEach(collect);
+    const list = (items: string[]) => (items.length > 0 ? `{ ${items.join(', ')} }` : '{}');
+
+    return `return {
+  scene,
+  camera,
+  renderer,
+  controls,
+  objects: ${list(names)},
+  lights: ${list(ir.lights.map(light => light.varName))},
+  dispose() {
+    renderer.setAnimationLoop(null);
+    resizeObserver.disconnect();
+    controls?.dispose();
+    scene.traverse((object) => {
+      object.geometry?.dispose();
+      for (const material of [object.material ?? []].flat()) {
+        for (const value of Object.values(material)) {
+          if (value?.isTexture) value.dispose();
+        }
+        material.dispose();
+      }
+    });
+    renderer.dispose();
+    renderer.domElement.remove();
+  }
+};`;
+  }
+
+  /**
+   * Generate animation code to append after an object's setup, if it has any
+   */
+  private withAnimations(target: AnimationTarget, animations: AnimationConfig[]): string {
+    const code = this.animationGenerator.generateAnimations(target, animations);
+    return code ? `\n${code}` : '';
+  }
+
   /**
    * Generate animation loop
    */
-  private generateAnimateFunction(): string {
+  private generateAnimateFunction(animated: boolean = false): string {
+    if (!animated) {
+      return `// Animation loop
+function animate() {
+  requestAnimationFrame(animate);
+  controls.update();
+  renderer.render(scene, camera);
+}
+
+animate();`;
+    }
+
     return `// Animation loop
 function animate() {
   requestAnimationFrame(animate);
   controls.update();
+  const elapsed = clock.getElapsedTime();
+  animations.forEach((update) => update(elapsed));
   renderer.render(scene, camera);
 }
 
 animate();`;
   }
 
+  /**
+   * Import map resolving the scene's imports for the configured module source
+   */
+  private generateImportMap(specifiers: string[]): string {
+    const imports = this.modules === 'inline'
+      ? inlineImportMap(specifiers)
+      : this.modules === 'local' ? localImportMap() : cdnImportMap();
+
+    return JSON.stringify({ imports }, null, 2).replace(/^/gm, '    ');
+  }
+
   /**
    * Generate HTML file with embedded scene code
    */
   generateHTML(dsl: SceneDSL, title: string = 'Three.js Scene'): string {
-    const sceneCode = this.generateScene(dsl);
+    const ir = this.buildIR(dsl);
+    const sceneCode = this.generateScript(ir);
+    const safeTitle = escapeHTML(title);
+    const importMap = this.generateImportMap(sceneImports(ir).map(([, specifier]) => specifier));
     
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>${title}</title>
+  <title>${safeTitle}</title>
   <style>
     body {
       margin: 0;
@@ -282,19 +690,14 @@ animate();`;
 </head>
 <body>
   <div id="info">
-    <strong>${title}</strong><br>
+    <strong>${safeTitle}</strong><br>
     Left click + drag to rotate<br>
     Right click + drag to pan<br>
     Scroll to zoom
   </div>
   
   <script type="importmap">
-    {
-      "imports": {
-        "three": "https://cdn.jsdelivr.net/npm/three@0.160.0/build/three.module.js",
-        "three/examples/jsm/controls/OrbitControls.js": "https://cdn.jsdelivr.net/npm/three@0.160.0/examples/jsm/controls/OrbitControls.js"
-      }
-    }
+${importMap}
   </script>
   
   <script type="module">
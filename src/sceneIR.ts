@@ -0,0 +1,356 @@
+import { SceneDSL, ObjectConfig, MeshConfig, LightConfig, MaterialConfig, Vector3Array } from './types/dsl.js';
+import {
+  SceneIR,
+  LightNode,
+  LightShadowNode,
+  Named,
+  ObjectNode,
+  MaterialNode,
+  MaterialValue,
+  ModelAsset
+} from './types/sceneIR.js';
+import { AnimationGenerator } from './animationGenerator.js';
+import { GeometrySpec, geometrySpec } from './geometry.js';
+import { expandRepeat, layoutInstances } from './layouts.js';
+import { shiftColor } from './colors.js';
+import { textureDataURI, textureImageKey } from './textures.js';
+import { modelAssetURL, modelDataURI, modelFiles } from './assets.js';
+import { ID_PATTERN, objectPositions, resolvePoint } from './sceneIds.js';
+
+/**
+ * Default light positions when the DSL omits them
+ */
+const LIGHT_POSITIONS: Record<string, Vector3Array> = {
+  directional: [5, 10, 7.5],
+  point: [0, 5, 0],
+  spot: [0, 10, 0]
+};
+
+/**
+ * Shadow settings used when a light casts shadows without specifying them.
+ * The directional bounds cover the recommended -10..10 scene extent.
+ */
+const SHADOW_DEFAULTS = {
+  mapSize: 1024,
+  bias: -0.0005,
+  camera: { left: -10, right: 10, top: 10, bottom: -10, near: 0.5, far: 50 }
+};
+
+type TextureSlot = 'map' | 'normalMap' | 'roughnessMap' | 'emissiveMap';
+
+/**
+ * Optional material features each Three.js material class supports
+ */
+const MATERIAL_FEATURES: Record<MaterialConfig['type'], string[]> = {
+  basic: ['map'],
+  lambert: ['emissive', 'flatShading', 'map', 'normalMap', 'emissiveMap'],
+  phong: ['emissive', 'flatShading', 'map', 'normalMap', 'emissiveMap'],
+  standard: ['metalness', 'roughness', 'emissive', 'flatShading', 'map', 'normalMap', 'roughnessMap', 'emissiveMap']
+};
+
+const MATERIAL_CLASSES: Record<MaterialConfig['type'], MaterialNode['className']> = {
+  basic: 'MeshBasicMaterial',
+  standard: 'MeshStandardMaterial',
+  phong: 'MeshPhongMaterial',
+  lambert: 'MeshLambertMaterial'
+};
+
+const TEXTURE_SLOTS: TextureSlot[] = ['map', 'normalMap', 'roughnessMap', 'emissiveMap'];
+
+/** Slots holding colors, decoded as sRGB; the others hold linear data */
+const COLOR_TEXTURE_SLOTS: TextureSlot[] = ['map', 'emissiveMap'];
+
+const SIDES: Record<string, string> = {
+  back: 'BackSide',
+  double: 'DoubleSide'
+};
+
+const LIGHT_TYPES = ['ambient', 'directional', 'point', 'spot'];
+
+/**
+ * Identifiers the generated code declares itself or cannot use, which
+ * object variables must not shadow
+ */
+const RESERVED_NAMES = new Set([
+  'arguments', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
+  'delete', 'do', 'else', 'enum', 'eval', 'export', 'extends', 'false', 'finally', 'for', 'function',
+  'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'package',
+  'private', 'protected', 'public', 'return', 'static', 'super', 'switch', 'this', 'throw', 'true',
+  'try', 'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield', 'NaN', 'Infinity',
+  'Array', 'Math', 'Object', 'document', 'window',
+  'THREE', 'OrbitControls', 'FontLoader', 'TextGeometry', 'GLTFLoader', 'OBJLoader',
+  'scene', 'camera', 'renderer', 'controls', 'clock', 'animations', 'animate', 'easings', 'loopTime',
+  'sampleKeyframes', 'textureLoader', 'loadTexture', 'buildPath', 'buildShape', 'fontLoader', 'fonts',
+  'gltfLoader', 'objLoader', 'resizeObserver', 'container', 'options', 'createScene', 'placeInstances',
+  'React', 'Suspense', 'useLayoutEffect', 'useMemo', 'useRef', 'Canvas', 'extend', 'useFrame',
+  'useLoader', 'useThree', 'Controls', 'Scene', 'SceneContent', 'updates', 'props'
+]);
+
+/** Numbered module-level constants, e.g. textureImage0 */
+const NUMBERED_NAMES = /^(textureImage|modelURL|font)\d+$/;
+
+/** Suffixes of the variables generators derive from an object's, e.g. cubeGeometry */
+const DERIVED_SUFFIXES = ['Geometry', 'Material', 'Ref', 'Source', 'Animation'];
+
+export interface SceneIROptions {
+  /** Directory texture and model file paths are resolved against (default: the working directory) */
+  assetDir?: string;
+  /** Embed models as data URIs, or point at the folder copyModelAssets writes (default: 'inline') */
+  assets?: 'inline' | 'copy';
+  /**
+   * Read texture and model files (default: true). Without them texture
+   * images and model URLs are left empty, for outputs that only need the
+   * scene's structure.
+   */
+  loadAssets?: boolean;
+}
+
+/**
+ * Resolve a scene into the representation the code generators write out
+ *
+ * @throws Error when a texture or model file cannot be read or a path cannot be parsed
+ */
+export function buildSceneIR(dsl: SceneDSL, options: SceneIROptions = {}): SceneIR {
+  const assetDir = options.assetDir || process.cwd();
+  const loadAssets = options.loadAssets ?? true;
+  const positions = objectPositions(dsl);
+  const varNames: string[] = [];
+  const shadows = dsl.lights.some(light => light.castShadow && light.type !== 'ambient');
+  const textureKeys: string[] = [];
+  const textures: string[] = [];
+  const fonts: string[] = [];
+  let paths = false;
+  let instanced = false;
+
+  const files = modelFiles(dsl);
+  const models: ModelAsset[] = files.map((file, index) => ({
+    file,
+    url: options.assets === 'copy' ? modelAssetURL(index, file) : loadAssets ? modelDataURI(file, assetDir) : '',
+    loader: file.toLowerCase().endsWith('.obj') ? 'obj' : 'gltf'
+  }));
+
+  const counters = { mesh: 0, group: 0, model: 0, repeat: 0 };
+  const buildNode = (obj: ObjectConfig): ObjectNode => {
+    const transform = {
+      position: obj.position,
+      rotation: obj.rotation || [0, 0, 0] as Vector3Array,
+      scale: obj.scale || [1, 1, 1] as Vector3Array
+    };
+    const animations = obj.animations || [];
+
+    if (obj.type === 'group') {
+      const names = nodeNames(obj.id, obj.name, `group${counters.group++}`, varNames);
+      return { kind: 'group', ...names, ...transform, children: obj.children.map(buildNode), animations };
+    }
+
+    if (obj.type === 'model') {
+      return {
+        kind: 'model',
+        ...nodeNames(obj.id, obj.name, `model${counters.model++}`, varNames),
+        ...transform,
+        model: files.indexOf(obj.file),
+        castShadow: shadows && (obj.castShadow ?? true),
+        receiveShadow: shadows && !!obj.receiveShadow,
+        animations
+      };
+    }
+
+    if (obj.type === 'repeat') {
+      // Only a single mesh can be instanced: each copy of anything else
+      // is a separate object, and animations move each copy on its own
+      const mesh = obj.object;
+      if (mesh.type === 'group' || mesh.type === 'model' || mesh.type === 'repeat' || mesh.animations?.length) {
+        return buildNode(expandRepeat(obj));
+      }
+
+      instanced = true;
+      const material = buildMaterial(mesh);
+      const colored = !!obj.jitter?.color;
+      if (colored) {
+        material.params[0] = ['color', { kind: 'color', value: '#ffffff' }];
+      }
+      return {
+        kind: 'instanced',
+        ...nodeNames(obj.id, obj.name, `repeat${counters.repeat++}`, varNames),
+        ...transform,
+        geometry: buildGeometry(mesh),
+        material,
+        instances: layoutInstances(obj).map(({ position, rotation, scale, colorShift }) => ({
+          position,
+          rotation,
+          scale,
+          color: colored && colorShift ? shiftColor(mesh.material.color, colorShift) : null
+        })),
+        castShadow: shadows && (mesh.castShadow ?? !mesh.ground),
+        receiveShadow: shadows && (mesh.receiveShadow ?? !!mesh.ground),
+        animations
+      };
+    }
+
+    return {
+      kind: 'mesh',
+      ...nodeNames(obj.id, obj.name, `mesh${counters.mesh++}`, varNames),
+      ...transform,
+      geometry: buildGeometry(obj),
+      material: buildMaterial(obj),
+      // Everything casts shadows except the ground, which receives them
+      castShadow: shadows && (obj.castShadow ?? !obj.ground),
+      receiveShadow: shadows && (obj.receiveShadow ?? !!obj.ground),
+      animations
+    };
+  };
+
+  const buildGeometry = (obj: MeshConfig): GeometrySpec => {
+    const geometry = geometrySpec(obj);
+    if (geometry.kind === 'lathe' || geometry.kind === 'extrude') {
+      paths = true;
+    }
+    if (geometry.kind === 'text' && !fonts.includes(geometry.font)) {
+      fonts.push(geometry.font);
+    }
+    return geometry;
+  };
+
+  const buildMaterial = ({ material }: MeshConfig): MaterialNode => {
+    const supports = (feature: string) => (MATERIAL_FEATURES[material.type] || MATERIAL_FEATURES.standard).includes(feature);
+    const params: [string, MaterialValue][] = [['color', { kind: 'color', value: material.color }]];
+
+    if (material.metalness !== undefined && supports('metalness')) {
+      params.push(['metalness', { kind: 'number', value: material.metalness }]);
+    }
+    if (material.roughness !== undefined && supports('roughness')) {
+      params.push(['roughness', { kind: 'number', value: material.roughness }]);
+    }
+    if (material.wireframe) {
+      params.push(['wireframe', { kind: 'boolean', value: true }]);
+    }
+    if (material.opacity !== undefined && material.opacity !== 1) {
+      params.push(['opacity', { kind: 'number', value: material.opacity }]);
+    }
+    if (material.transparent || (material.opacity ?? 1) < 1) {
+      params.push(['transparent', { kind: 'boolean', value: true }]);
+    }
+    if (material.side && SIDES[material.side]) {
+      params.push(['side', { kind: 'constant', name: SIDES[material.side] }]);
+    }
+    if (material.flatShading && supports('flatShading')) {
+      params.push(['flatShading', { kind: 'boolean', value: true }]);
+    }
+    if (supports('emissive') && (material.emissive !== undefined || material.emissiveMap)) {
+      // An emissive map is multiplied by the emissive color, so it needs a non-black one
+      params.push(['emissive', { kind: 'color', value: material.emissive ?? '#ffffff' }]);
+      if (material.emissiveIntensity !== undefined && material.emissiveIntensity !== 1) {
+        params.push(['emissiveIntensity', { kind: 'number', value: material.emissiveIntensity }]);
+      }
+    }
+    for (const slot of TEXTURE_SLOTS) {
+      const texture = material[slot];
+      if (!texture || !supports(slot)) continue;
+
+      // Slots showing the same image share one embedded copy
+      const key = textureImageKey(texture);
+      let image = textureKeys.indexOf(key);
+      if (image < 0) {
+        image = textureKeys.push(key) - 1;
+        textures.push(loadAssets ? textureDataURI(texture, assetDir) : '');
+      }
+      params.push([slot, {
+        kind: 'texture',
+        image,
+        repeat: texture.repeat || [1, 1],
+        offset: texture.offset || [0, 0],
+        isColor: COLOR_TEXTURE_SLOTS.includes(slot)
+      }]);
+    }
+
+    return { className: MATERIAL_CLASSES[material.type] || MATERIAL_CLASSES.standard, params };
+  };
+
+  const objects = dsl.objects.map(buildNode);
+  const lights = dsl.lights.flatMap((light, index) =>
+    LIGHT_TYPES.includes(light.type) ? [buildLight(light, index, positions, varNames)] : []
+  );
+
+  return {
+    background: dsl.background || '#000000',
+    camera: {
+      name: dsl.camera.name ?? dsl.camera.id ?? 'camera',
+      fov: dsl.camera.fov ?? 75,
+      position: dsl.camera.position,
+      lookAt: resolvePoint(dsl.camera.lookAt, positions),
+      animations: dsl.camera.animations || []
+    },
+    lights,
+    objects,
+    shadowMap: shadows ? dsl.shadows?.type || 'pcfSoft' : null,
+    textures,
+    models,
+    fonts,
+    paths,
+    instanced,
+    animated: new AnimationGenerator().hasAnimations(dsl)
+  };
+}
+
+/**
+ * Resolve a light; without an id its variable keeps the light's index in the DSL
+ */
+function buildLight(
+  light: LightConfig,
+  index: number,
+  positions: Map<string, Vector3Array>,
+  varNames: string[]
+): LightNode {
+  const aimed = light.type === 'directional' || light.type === 'spot';
+  return {
+    ...nodeNames(light.id, light.name, `${light.type}Light${index}`, varNames),
+    type: light.type,
+    color: light.color,
+    intensity: light.intensity,
+    position: light.type === 'ambient' ? null : light.position || LIGHT_POSITIONS[light.type],
+    target: aimed && light.target !== undefined ? resolvePoint(light.target, positions) : null,
+    shadow: light.castShadow && light.type !== 'ambient' ? buildLightShadow(light) : null,
+    animations: light.animations || []
+  };
+}
+
+/**
+ * Variable and object name of a light or object. The variable is the id
+ * when that is a valid identifier, else the fallback; either gets a numbered
+ * suffix when it would collide with a name the generated code already uses.
+ */
+function nodeNames(id: string | undefined, name: string | undefined, fallback: string, varNames: string[]): Named {
+  const base = id !== undefined && ID_PATTERN.test(id) ? id : fallback;
+  const clashes = (candidate: string) => RESERVED_NAMES.has(candidate)
+    || NUMBERED_NAMES.test(candidate)
+    || varNames.some(other => other === candidate || DERIVED_SUFFIXES.some(suffix =>
+      candidate.startsWith(other + suffix) || other.startsWith(candidate + suffix)));
+
+  let varName = base;
+  for (let n = 1; clashes(varName); n++) {
+    varName = `${base}_${n}`;
+  }
+  varNames.push(varName);
+  return { varName, name: name ?? id ?? varName };
+}
+
+/**
+ * Resolve the shadow map settings of a light that casts shadows
+ */
+function buildLightShadow(light: LightConfig): LightShadowNode {
+  const shadow = light.shadow || {};
+
+  // Only the orthographic camera of a directional light has bounds
+  const bounds = light.type === 'directional'
+    ? { ...SHADOW_DEFAULTS.camera, ...shadow.camera }
+    : { near: shadow.camera?.near, far: shadow.camera?.far };
+  const camera = Object.fromEntries(Object.entries(bounds).filter(([, value]) => value !== undefined));
+
+  return {
+    mapSize: shadow.mapSize ?? SHADOW_DEFAULTS.mapSize,
+    bias: shadow.bias ?? SHADOW_DEFAULTS.bias,
+    ...(shadow.normalBias !== undefined ? { normalBias: shadow.normalBias } : {}),
+    ...(shadow.radius !== undefined ? { radius: shadow.radius } : {}),
+    camera
+  };
+}
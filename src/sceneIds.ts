@@ -0,0 +1,164 @@
+import { SceneDSL, ObjectConfig, LightConfig, PointReference, Vector3Array } from './types/dsl.js';
+import { transformPoint } from './math3d.js';
+
+type JSONRecord = Record<string, any>;
+
+/**
+ * Ids become variable names in generated code, so they must be identifiers
+ */
+export const ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Give the camera, every light and every (nested) object without an id
+ * one: camera for the camera, the type numbered from 1 for the rest
+ * (pointLight1, cube1, cube2, group1, ...)
+ */
+export function assignIds(dsl: SceneDSL): SceneDSL {
+  const used = collectIds(dsl);
+  const counters: Record<string, number> = {};
+  const nextId = (prefix: string) => {
+    let id: string;
+    do {
+      counters[prefix] = (counters[prefix] || 0) + 1;
+      id = `${prefix}${counters[prefix]}`;
+    } while (used.has(id));
+    used.add(id);
+    return id;
+  };
+  const withId = <T extends { id?: string }>(item: T, prefix: string): T =>
+    item.id !== undefined ? item : { id: nextId(prefix), ...item };
+
+  const assignObject = (obj: ObjectConfig): ObjectConfig => {
+    const identified = withId(obj, obj.type);
+    return identified.type === 'group'
+      ? { ...identified, children: identified.children.map(assignObject) }
+      : identified;
+  };
+
+  return {
+    ...dsl,
+    camera: dsl.camera.id !== undefined ? dsl.camera : { id: used.has('camera') ? nextId('camera') : 'camera', ...dsl.camera },
+    lights: dsl.lights.map(light => withId(light, `${light.type}Light`)),
+    objects: dsl.objects.map(assignObject)
+  };
+}
+
+/**
+ * Copy ids from a previous version of the scene onto the camera, lights
+ * and objects that lost them, e.g. when a model rewrote the whole scene
+ * during a refinement. An item takes the id of an unclaimed previous item
+ * of the same type, preferring one at the same position, then one at the
+ * same index. The value is not validated; anything unexpected is left as is.
+ */
+export function carryIds(value: unknown, previous: SceneDSL): unknown {
+  if (!isRecord(value)) return value;
+
+  const used = collectIds(value as SceneDSL);
+  const carryList = (items: unknown, before: (ObjectConfig | LightConfig)[] | undefined): unknown => {
+    if (!Array.isArray(items) || !before) return items;
+
+    const claimed = new Set<number>();
+    const match = (item: JSONRecord, index: number): number => {
+      const free = (candidate: number) => !claimed.has(candidate)
+        && before[candidate].type === item.type
+        && before[candidate].id !== undefined
+        && !used.has(before[candidate].id!);
+      const samePosition = before.findIndex((candidate, candidateIndex) =>
+        free(candidateIndex) && JSON.stringify(candidate.position) === JSON.stringify(item.position));
+      return samePosition >= 0 ? samePosition : index < before.length && free(index) ? index : -1;
+    };
+
+    return items.map((item, index) => {
+      if (!isRecord(item)) return item;
+
+      let result = item;
+      if (item.id === undefined) {
+        const found = match(item, index);
+        if (found >= 0) {
+          claimed.add(found);
+          used.add(before[found].id!);
+          result = { id: before[found].id, ...item };
+        }
+      }
+      const counterpart = before.find(candidate => candidate.id !== undefined && candidate.id === result.id);
+      return counterpart?.type === 'group' && result.type === 'group'
+        ? { ...result, children: carryList(result.children, counterpart.children) }
+        : result;
+    });
+  };
+
+  const camera = isRecord(value.camera) && value.camera.id === undefined && previous.camera.id !== undefined
+    && !used.has(previous.camera.id)
+    ? { id: previous.camera.id, ...value.camera }
+    : value.camera;
+
+  return {
+    ...value,
+    camera,
+    lights: carryList(value.lights, previous.lights),
+    objects: carryList(value.objects, previous.objects)
+  };
+}
+
+/**
+ * World position of every object with an id, nested objects included
+ */
+export function objectPositions(dsl: SceneDSL): Map<string, Vector3Array> {
+  const positions = new Map<string, Vector3Array>();
+  const visit = (objects: ObjectConfig[], toWorld: (point: Vector3Array) => Vector3Array) => {
+    for (const obj of objects) {
+      if (obj.id !== undefined) {
+        positions.set(obj.id, toWorld(obj.position));
+      }
+      if (obj.type === 'group') {
+        visit(obj.children, point => toWorld(transformPoint(point, obj.position, obj.rotation, obj.scale)));
+      }
+    }
+  };
+  visit(dsl.objects, point => point);
+  return positions;
+}
+
+/**
+ * Coordinates of a point given directly or as an object id
+ *
+ * @throws Error when no object has the id
+ */
+export function resolvePoint(point: PointReference, positions: Map<string, Vector3Array>): Vector3Array {
+  if (typeof point !== 'string') return point;
+
+  const position = positions.get(point);
+  if (!position) {
+    throw new Error(`No object with id "${point}"`);
+  }
+  return position;
+}
+
+/**
+ * Ids already present anywhere in a scene
+ */
+function collectIds(dsl: SceneDSL): Set<string> {
+  const ids = new Set<string>();
+  const add = (item: unknown) => {
+    if (isRecord(item) && typeof item.id === 'string') ids.add(item.id);
+  };
+  const visit = (objects: unknown) => {
+    if (!Array.isArray(objects)) return;
+    for (const obj of objects) {
+      add(obj);
+      if (isRecord(obj)) visit(obj.children);
+    }
+  };
+
+  add(dsl.camera);
+  if (Array.isArray(dsl.lights)) dsl.lights.forEach(add);
+  visit(dsl.objects);
+  return ids;
+}
+
+/**
+ * Check for a plain (non-array) object
+ */
+function isRecord(value: unknown): value is JSONRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,308 @@
+import { SceneDSL, ObjectConfig, MeshConfig, LightConfig, LintIssue, LintRule, Vector3Array } from './types/dsl.js';
+import { Box, BoundingBoxes, WorldBox, boxCorners } from './bounds.js';
+import { objectPositions, resolvePoint } from './sceneIds.js';
+import { cross, dot, length, normalize, subtract } from './math3d.js';
+
+/** Distance within which two surfaces count as touching */
+const CONTACT_TOLERANCE = 0.01;
+
+/** Share of the smaller box two boxes must overlap by, along every axis, to intersect */
+const OVERLAP_FRACTION = 0.05;
+
+/** Near and far planes of the generated camera */
+const CAMERA_NEAR = 0.1;
+const CAMERA_FAR = 1000;
+
+/**
+ * Brightest sensible intensity per light type. Point and spot lights fade
+ * with the square of the distance, so they need far more.
+ */
+const MAX_INTENSITY: Record<LightConfig['type'], number> = {
+  ambient: 10,
+  directional: 20,
+  point: 5000,
+  spot: 5000
+};
+
+/** Materials that stay black, or flat, without a directional, point or spot light */
+const LIT_MATERIALS = ['standard', 'phong', 'lambert'];
+
+export interface LintOptions {
+  /** Width over height of the view the scene is shown in (default 16 / 9) */
+  aspect?: number;
+}
+
+type Report = (rule: LintRule, path: string, message: string) => void;
+
+/**
+ * Look for things in a valid scene that parse fine but probably look
+ * wrong: objects intersecting, floating above or sunk into the ground,
+ * a camera inside an object, looking at nothing or missing objects,
+ * lit materials without a light to show them, lights shut inside
+ * meshes, zero or negative scales and absurd intensities. Objects are
+ * measured by world-space bounding boxes from their geometry
+ * parameters; animated objects, and an animated camera, are only
+ * checked where their motion does not matter.
+ *
+ * Every issue is a warning. The scene should already be normalized, as
+ * DSLParser returns it.
+ */
+export function lintScene(dsl: SceneDSL, options: LintOptions = {}): LintIssue[] {
+  const issues: LintIssue[] = [];
+  const report: Report = (rule, path, message) => issues.push({ rule, path, severity: 'warning', message });
+  const boxes = new BoundingBoxes().worldBoxes(dsl.objects);
+
+  checkScales(boxes, report);
+  checkLights(dsl, boxes, report);
+  checkPlacement(boxes, report);
+  checkCamera(dsl, boxes, options.aspect ?? 16 / 9, report);
+  return issues;
+}
+
+/**
+ * Zero scales hide an object; negative ones mirror it inside out
+ */
+function checkScales(boxes: WorldBox[], report: Report): void {
+  const check = (scale: Vector3Array | undefined, path: string) => {
+    if (!scale) return;
+    if (scale.some(component => component === 0)) {
+      report('scale', path, 'A zero scale flattens the object to nothing');
+    } else if (scale.some(component => component < 0)) {
+      report('scale', path, 'A negative scale mirrors the object and turns its faces inside out');
+    }
+  };
+
+  for (const { obj, path } of boxes) {
+    check(obj.scale, `${path}.scale`);
+    if (obj.type === 'repeat') {
+      check(obj.object.scale, `${path}.object.scale`);
+    }
+  }
+}
+
+/**
+ * Light intensities, lit materials without a light and lights inside meshes
+ */
+function checkLights(dsl: SceneDSL, boxes: WorldBox[], report: Report): void {
+  dsl.lights.forEach((light, index) => {
+    const max = MAX_INTENSITY[light.type];
+    if (light.intensity <= 0) {
+      report('intensity', `lights[${index}].intensity`, 'Gives no light');
+    } else if (light.intensity > max) {
+      report('intensity', `lights[${index}].intensity`, `${light.intensity} is far brighter than ${light.type} lights need (at most about ${max})`);
+    }
+
+    if ((light.type === 'point' || light.type === 'spot') && light.position) {
+      const blocker = boxes.find(({ obj, box }) => isOpaqueMesh(obj) && contains(box, light.position!));
+      if (blocker) {
+        report('lightInside', `lights[${index}].position`, `Inside ${describe(blocker)}, which blocks the light`);
+      }
+    }
+  });
+
+  const lit = meshes(dsl.objects).some(mesh => LIT_MATERIALS.includes(mesh.material.type || 'standard'));
+  if (lit && !dsl.lights.some(light => light.type !== 'ambient')) {
+    report('unlit', 'lights', dsl.lights.length === 0
+      ? 'No lights, so standard, phong and lambert materials render black'
+      : 'Only ambient light, so standard, phong and lambert materials look flat; add a directional, point or spot light');
+  }
+}
+
+/**
+ * Top-level objects intersecting each other, floating above the ground
+ * or sunk into it. Models are skipped, as their size is unknown until
+ * loaded, and so are animated objects; repeats spread their copies out,
+ * so they are only checked against the ground.
+ */
+function checkPlacement(boxes: WorldBox[], report: Report): void {
+  const grounds = boxes.filter(entry => isGround(entry));
+  const placed = boxes.filter(entry =>
+    !entry.nested && !isGround(entry) && entry.obj.type !== 'model' && !entry.obj.animations?.length);
+
+  placed.forEach((entry, index) => {
+    if (entry.obj.type === 'repeat') return;
+    for (const other of placed.slice(index + 1)) {
+      if (other.obj.type !== 'repeat' && intersect(entry.box, other.box)) {
+        report('intersecting', entry.path, `Intersects ${describe(other)}`);
+      }
+    }
+  });
+
+  // Without a ground there is nothing for an object to rest on
+  if (grounds.length === 0) return;
+
+  for (const entry of placed) {
+    const bottom = entry.box.min[1];
+    const ground = grounds.find(candidate => overlapsHorizontally(entry.box, candidate.box));
+    const groundTop = ground?.box.max[1];
+    if (groundTop !== undefined && bottom < groundTop - CONTACT_TOLERANCE) {
+      report('belowGround', entry.path, entry.box.max[1] <= groundTop
+        ? 'Is entirely below the ground'
+        : `Sinks ${round(groundTop - bottom)} into the ground`);
+      continue;
+    }
+
+    const supported = [...grounds, ...placed].some(other => other !== entry
+      && overlapsHorizontally(entry.box, other.box)
+      && bottom >= other.box.min[1] - CONTACT_TOLERANCE
+      && bottom <= other.box.max[1] + CONTACT_TOLERANCE);
+    if (supported) continue;
+
+    const level = groundTop ?? Math.max(...grounds.map(candidate => candidate.box.max[1]));
+    report('floating', entry.path, bottom > level + CONTACT_TOLERANCE
+      ? `Floats ${round(bottom - level)} above the ground with nothing under it`
+      : 'Is off the edge of the ground with nothing under it');
+  }
+}
+
+/**
+ * Camera inside an object, looking at nothing, or with objects out of view
+ */
+function checkCamera(dsl: SceneDSL, boxes: WorldBox[], aspect: number, report: Report): void {
+  const { camera } = dsl;
+  const inside = boxes.find(({ obj, box }) => isOpaqueMesh(obj) && contains(box, camera.position));
+  if (inside) {
+    report('cameraInside', 'camera.position', `Inside ${describe(inside)}, which hides the rest of the scene`);
+  }
+
+  // Where a moving camera looks changes, so only a still one is checked
+  if (camera.animations?.length) return;
+
+  const target = resolvePoint(camera.lookAt, objectPositions(dsl));
+  const forward = normalize(subtract(target, camera.position));
+  if (length(forward) === 0) return;
+
+  const visible = boxes.filter(entry => !entry.nested);
+  if (visible.length > 0 && !visible.some(({ box }) => rayHits(camera.position, forward, box))) {
+    report('emptyView', 'camera.lookAt', 'Nothing lies along the camera\'s line of sight');
+  }
+
+  const view = viewFrustum(camera.position, forward, camera.fov ?? 75, aspect);
+  for (const entry of visible) {
+    if (!isGround(entry) && !entry.obj.animations?.length && !view(entry.box)) {
+      report('offScreen', entry.path, 'Outside the camera\'s view');
+    }
+  }
+}
+
+/**
+ * Test for boxes that are at least partly inside a perspective camera's
+ * view, looking along forward with up towards +Y. A box is outside when
+ * all its corners are beyond one of the six planes, which misses a few
+ * boxes near the frustum's edges but never hides a visible one.
+ */
+function viewFrustum(eye: Vector3Array, forward: Vector3Array, fov: number, aspect: number): (box: Box) => boolean {
+  const up: Vector3Array = Math.abs(forward[1]) > 0.999 ? [0, 0, -1] : [0, 1, 0];
+  const right = normalize(cross(forward, up));
+  const cameraUp = cross(right, forward);
+  const tanY = Math.tan((fov * Math.PI) / 360);
+  const tanX = tanY * aspect;
+
+  return box => {
+    // Corners in camera space: x right, y up, z the distance ahead
+    const corners = boxCorners(box).map((corner): Vector3Array => {
+      const offset = subtract(corner, eye);
+      return [dot(offset, right), dot(offset, cameraUp), dot(offset, forward)];
+    });
+    const outside: ((corner: Vector3Array) => boolean)[] = [
+      ([, , z]) => z < CAMERA_NEAR,
+      ([, , z]) => z > CAMERA_FAR,
+      ([x, , z]) => x > z * tanX,
+      ([x, , z]) => x < -z * tanX,
+      ([, y, z]) => y > z * tanY,
+      ([, y, z]) => y < -z * tanY
+    ];
+    return !outside.some(beyond => corners.every(beyond));
+  };
+}
+
+/**
+ * Whether a ray from origin along direction passes through a box (slab test)
+ */
+function rayHits(origin: Vector3Array, direction: Vector3Array, box: Box): boolean {
+  let near = 0;
+  let far = Infinity;
+  for (let axis = 0; axis < 3; axis++) {
+    if (Math.abs(direction[axis]) < 1e-12) {
+      if (origin[axis] < box.min[axis] || origin[axis] > box.max[axis]) return false;
+      continue;
+    }
+    const t1 = (box.min[axis] - origin[axis]) / direction[axis];
+    const t2 = (box.max[axis] - origin[axis]) / direction[axis];
+    near = Math.max(near, Math.min(t1, t2));
+    far = Math.min(far, Math.max(t1, t2));
+  }
+  return near <= far;
+}
+
+/**
+ * Whether two boxes share enough of their volume to count as intersecting;
+ * boxes that only touch, or a flat one lying on another, do not
+ */
+function intersect(a: Box, b: Box): boolean {
+  for (let axis = 0; axis < 3; axis++) {
+    const overlap = Math.min(a.max[axis], b.max[axis]) - Math.max(a.min[axis], b.min[axis]);
+    const smaller = Math.min(a.max[axis] - a.min[axis], b.max[axis] - b.min[axis]);
+    if (overlap <= Math.max(CONTACT_TOLERANCE, smaller * OVERLAP_FRACTION)) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether two boxes overlap seen from above
+ */
+function overlapsHorizontally(a: Box, b: Box): boolean {
+  return a.min[0] < b.max[0] && b.min[0] < a.max[0] && a.min[2] < b.max[2] && b.min[2] < a.max[2];
+}
+
+/**
+ * Whether a point is inside a box, clear of its faces
+ */
+function contains(box: Box, point: Vector3Array): boolean {
+  return point.every((value, axis) => value > box.min[axis] + CONTACT_TOLERANCE && value < box.max[axis] - CONTACT_TOLERANCE);
+}
+
+/**
+ * The floor: a mesh marked as ground, or a plane lying flat
+ */
+function isGround({ obj, box }: WorldBox): boolean {
+  if (obj.type === 'group' || obj.type === 'model' || obj.type === 'repeat') return false;
+  return !!obj.ground || (obj.type === 'plane' && box.max[1] - box.min[1] < CONTACT_TOLERANCE);
+}
+
+/**
+ * A mesh that hides what is inside it: not see-through, glowing or
+ * rendered from the inside, as a sky dome or lamp shade is
+ */
+function isOpaqueMesh(obj: ObjectConfig): obj is MeshConfig {
+  if (obj.type === 'group' || obj.type === 'model' || obj.type === 'repeat') return false;
+  const { material } = obj;
+  return !material.transparent && (material.opacity ?? 1) >= 1 && !material.wireframe
+    && material.emissive === undefined && (material.side ?? 'front') === 'front';
+}
+
+/**
+ * Every mesh in the scene, including those inside groups and repeats
+ */
+function meshes(objects: ObjectConfig[]): MeshConfig[] {
+  return objects.flatMap(obj => {
+    if (obj.type === 'group') return meshes(obj.children);
+    if (obj.type === 'repeat') return meshes([obj.object]);
+    if (obj.type === 'model') return [];
+    return [obj];
+  });
+}
+
+/**
+ * The id of an object in quotes, or its path when it has none
+ */
+function describe({ obj, path }: WorldBox): string {
+  return obj.id !== undefined ? `"${obj.id}"` : path;
+}
+
+/**
+ * Round a distance for a message
+ */
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,267 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { SceneDSL } from './types/dsl.js';
+import { ChatMessage } from './types/llm.js';
+import { OpenAIService, GenerationResult } from './openaiService.js';
+import { DSLParser } from './dslParser.js';
+
+/**
+ * One scene state in a session
+ */
+export interface SceneRevision {
+  id: number;
+  /** Revision this one was refined from, null when generated from scratch */
+  parentId: number | null;
+  prompt: string;
+  /** Raw model output, empty for revisions committed by hand */
+  response: string;
+  dsl: SceneDSL;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+export interface SceneSessionOptions {
+  /** Refine with JSON Patches instead of whole scenes */
+  usePatches?: boolean;
+  /** How many earlier prompt/response pairs to send as context (default 4) */
+  maxContextTurns?: number;
+  /**
+   * Directory texture and model paths in revisions are checked against,
+   * as for the service (default: the working directory)
+   */
+  assetDir?: string;
+}
+
+/**
+ * Outcome of a prompt: the new revision and the generation report behind it
+ */
+export interface SessionPromptResult {
+  revision: SceneRevision;
+  result: GenerationResult;
+}
+
+/**
+ * On-disk format written by SceneSession.save
+ */
+interface SessionFile {
+  version: 1;
+  revisions: SceneRevision[];
+  headId: number | null;
+  redoStack: number[];
+}
+
+/**
+ * Iterative scene design session with revision history
+ *
+ * Revisions form a tree: every prompt refines the current (head) revision
+ * into a new child. Undo and redo move the head along the tree, and
+ * checking out an earlier revision makes the next prompt start a branch.
+ * The prompts and responses leading to the head are sent to the model as
+ * conversation context.
+ */
+export class SceneSession {
+  private service: OpenAIService;
+  private parser: DSLParser;
+  private options: SceneSessionOptions;
+  private revisions: SceneRevision[] = [];
+  private headId: number | null = null;
+  private redoStack: number[] = [];
+
+  constructor(service: OpenAIService, options: SceneSessionOptions = {}) {
+    this.service = service;
+    this.parser = new DSLParser({ assetDir: options.assetDir });
+    this.options = options;
+  }
+
+  /**
+   * Restore a session written by save()
+   */
+  static load(path: string, service: OpenAIService, options: SceneSessionOptions = {}): SceneSession {
+    const data = JSON.parse(readFileSync(path, 'utf-8')) as SessionFile;
+    if (data.version !== 1 || !Array.isArray(data.revisions) || !Array.isArray(data.redoStack)) {
+      throw new Error(`Invalid session file: ${path}`);
+    }
+
+    const session = new SceneSession(service, options);
+    const ids = new Set(data.revisions.map(revision => revision.id));
+    for (const revision of data.revisions) {
+      if (revision.parentId !== null && !ids.has(revision.parentId)) {
+        throw new Error(`Invalid session file: ${path}: revision ${revision.id} has unknown parent ${revision.parentId}`);
+      }
+      session.revisions.push({ ...revision, dsl: session.parser.parseObject(revision.dsl).dsl });
+    }
+    if (data.headId !== null && !ids.has(data.headId)) {
+      throw new Error(`Invalid session file: ${path}: unknown head revision ${data.headId}`);
+    }
+    session.headId = data.headId;
+    session.redoStack = data.redoStack.filter(id => ids.has(id));
+
+    return session;
+  }
+
+  /**
+   * Write the whole session, including abandoned branches, to a JSON file
+   */
+  save(path: string): void {
+    const data: SessionFile = {
+      version: 1,
+      revisions: this.revisions,
+      headId: this.headId,
+      redoStack: this.redoStack
+    };
+    writeFileSync(path, JSON.stringify(data, null, 2));
+  }
+
+  /**
+   * Revision the next prompt refines, null for an empty session
+   */
+  get head(): SceneRevision | null {
+    return this.headId === null ? null : this.getRevision(this.headId);
+  }
+
+  /**
+   * Scene of the head revision
+   */
+  get dsl(): SceneDSL | null {
+    return this.head?.dsl ?? null;
+  }
+
+  /**
+   * Every revision in creation order, across all branches
+   */
+  getRevisions(): SceneRevision[] {
+    return [...this.revisions];
+  }
+
+  /**
+   * Look up a revision by id
+   */
+  getRevision(id: number): SceneRevision {
+    const revision = this.revisions.find(candidate => candidate.id === id);
+    if (!revision) {
+      throw new Error(`Unknown revision ${id}`);
+    }
+    return revision;
+  }
+
+  /**
+   * Revisions from the root of the current branch down to the head
+   */
+  getHistory(): SceneRevision[] {
+    const history: SceneRevision[] = [];
+    for (let revision = this.head; revision; revision = revision.parentId === null ? null : this.getRevision(revision.parentId)) {
+      history.unshift(revision);
+    }
+    return history;
+  }
+
+  /**
+   * Generate a scene, or refine the head revision, into a new revision
+   */
+  async prompt(text: string): Promise<SessionPromptResult> {
+    const head = this.head;
+    const context = this.buildContext();
+
+    let result: GenerationResult;
+    if (!head) {
+      result = await this.service.generateDSLWithReport(text, context);
+    } else if (this.options.usePatches) {
+      result = await this.service.refineDSLWithPatch(head.dsl, text, context);
+    } else {
+      result = await this.service.refineDSLWithReport(head.dsl, text, context);
+    }
+
+    const revision = this.addRevision(text, result.rawResponse, result.dsl);
+    return { revision, result };
+  }
+
+  /**
+   * Record a scene edited outside the model (e.g. by hand) as a new revision;
+   * ids missing from the edit are carried over from the head revision
+   */
+  commit(dsl: SceneDSL, note: string = 'Manual edit'): SceneRevision {
+    return this.addRevision(note, '', this.parser.parseObject(dsl, this.head?.dsl).dsl);
+  }
+
+  /**
+   * Check whether there is a revision to step back from
+   */
+  canUndo(): boolean {
+    return this.headId !== null;
+  }
+
+  /**
+   * Check whether an undone revision can be restored
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Move the head to its parent; undoing the first revision leaves the session empty
+   */
+  undo(): SceneRevision | null {
+    const head = this.head;
+    if (!head) {
+      throw new Error('Nothing to undo');
+    }
+
+    this.redoStack.push(head.id);
+    this.headId = head.parentId;
+    return this.head;
+  }
+
+  /**
+   * Restore the most recently undone revision
+   */
+  redo(): SceneRevision {
+    const id = this.redoStack.pop();
+    if (id === undefined) {
+      throw new Error('Nothing to redo');
+    }
+
+    this.headId = id;
+    return this.getRevision(id);
+  }
+
+  /**
+   * Make any earlier revision the head; the next prompt branches from it
+   */
+  checkout(id: number): SceneRevision {
+    const revision = this.getRevision(id);
+    this.headId = revision.id;
+    this.redoStack = [];
+    return revision;
+  }
+
+  /**
+   * Append a child of the head and move the head to it
+   */
+  private addRevision(prompt: string, response: string, dsl: SceneDSL): SceneRevision {
+    const revision: SceneRevision = {
+      id: this.revisions.reduce((max, candidate) => Math.max(max, candidate.id), 0) + 1,
+      parentId: this.headId,
+      prompt,
+      response,
+      dsl,
+      createdAt: new Date().toISOString()
+    };
+
+    this.revisions.push(revision);
+    this.headId = revision.id;
+    this.redoStack = [];
+    return revision;
+  }
+
+  /**
+   * Earlier prompts and model responses on the current branch, oldest first
+   */
+  private buildContext(): ChatMessage[] {
+    const turns = this.getHistory().filter(revision => revision.response !== '');
+    const maxTurns = this.options.maxContextTurns ?? 4;
+
+    return turns.slice(Math.max(0, turns.length - maxTurns)).flatMap((revision): ChatMessage[] => [
+      { role: 'user', content: revision.prompt },
+      { role: 'assistant', content: revision.response }
+    ]);
+  }
+}
@@ -0,0 +1,4 @@
+export { tokenize, SceneTextError } from './tokenizer.js';
+export type { Token, TokenType } from './tokenizer.js';
+export { parseSceneText } from './parser.js';
+export { printSceneText } from './printer.js';
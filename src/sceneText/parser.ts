@@ -0,0 +1,539 @@
+import { OBJECT_TYPES } from '../dslValidator.js';
+import { Token, SceneTextError, tokenize } from './tokenizer.js';
+
+/**
+ * A parsed value and the token it started at
+ */
+interface Item {
+  value: unknown;
+  token: Token;
+}
+
+/**
+ * One line of the syntax: a head word, values and an optional nested block
+ */
+interface Statement {
+  head: Token;
+  items: Item[];
+  block: Statement[] | null;
+}
+
+/**
+ * What may appear inside a block besides `key value` properties
+ */
+interface BlockRules {
+  animations?: boolean;
+  children?: boolean;
+  /** The single object a repeat copies */
+  object?: boolean;
+  tracks?: boolean;
+  keyframes?: boolean;
+}
+
+type JSONRecord = Record<string, unknown>;
+
+/**
+ * Parse scene text into a plain DSL object. The result is not validated;
+ * DSLParser.parseText runs it through the same validation as JSON input.
+ *
+ * @throws SceneTextError with the line and column of the first syntax error
+ */
+export function parseSceneText(source: string): JSONRecord {
+  const parser = new SceneTextParser(tokenize(source));
+  return parser.parseDocument();
+}
+
+/**
+ * Recursive-descent parser over the token list
+ */
+class SceneTextParser {
+  private tokens: Token[];
+  private position = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  /**
+   * Parse the whole document into a scene object
+   */
+  parseDocument(): JSONRecord {
+    const statements = this.parseStatements(null);
+    const scene: JSONRecord = {};
+
+    for (const statement of statements) {
+      const { head } = statement;
+      if (head.type === 'ident' && head.value === 'camera') {
+        this.setProperty(scene, 'camera', this.parseCamera(statement), head);
+      } else if (head.type === 'ident' && head.value === 'light') {
+        this.append(scene, 'lights', this.parseLight(statement), head);
+      } else if (this.isObjectKeyword(head)) {
+        this.append(scene, 'objects', this.parseObject(statement), head);
+      } else {
+        this.parseProperty(statement, scene);
+      }
+    }
+
+    return { ...scene, lights: scene.lights ?? [], objects: scene.objects ?? [] };
+  }
+
+  /**
+   * camera [at (x, y, z)] [key value ...]
+   */
+  private parseCamera(statement: Statement): JSONRecord {
+    const camera: JSONRecord = {};
+    this.parsePairs(statement.items, 0, camera, true);
+    this.parseBlock(statement, camera, { animations: true });
+    return camera;
+  }
+
+  /**
+   * light [type] [key value ...]
+   */
+  private parseLight(statement: Statement): JSONRecord {
+    const light: JSONRecord = {};
+    this.parseHeader(statement.items, light, 'type', true);
+    this.parseBlock(statement, light, { animations: true });
+    return light;
+  }
+
+  /**
+   * <type> ["name"] [key value ...] [material [type] [key value ...]]
+   * group ["name"] [key value ...] followed by a block of children
+   * repeat ["name"] [key value ...] followed by a block holding the object to copy
+   */
+  private parseObject(statement: Statement): JSONRecord {
+    const obj: JSONRecord = { type: statement.head.value };
+    const { items } = statement;
+    let index = 0;
+
+    if (items.length > 0 && items[0].token.type === 'string') {
+      obj.name = items[0].value;
+      index = 1;
+    }
+
+    const isGroup = statement.head.value === 'group';
+    const isRepeat = statement.head.value === 'repeat';
+    for (; index < items.length; index += 2) {
+      const key = items[index];
+      const keyName = this.keyName(key);
+
+      // The material clause runs to the end of the line
+      if (!isGroup && !isRepeat && key.token.type === 'ident' && keyName === 'material' && !this.isInlineObject(items[index + 1])) {
+        const material: JSONRecord = {};
+        this.parseHeader(items.slice(index + 1), material, 'type', false);
+        this.setProperty(obj, 'material', material, key.token);
+        break;
+      }
+
+      this.setPair(obj, items, index, true);
+    }
+
+    this.parseBlock(statement, obj, { animations: true, children: isGroup, object: isRepeat });
+    if (isGroup && obj.children === undefined) {
+      obj.children = [];
+    }
+    return obj;
+  }
+
+  /**
+   * animation [type] [key value ...], with tracks in its block
+   */
+  private parseAnimation(statement: Statement): JSONRecord {
+    const animation: JSONRecord = {};
+    this.parseHeader(statement.items, animation, 'type', false);
+    this.parseBlock(statement, animation, { tracks: true });
+    return animation;
+  }
+
+  /**
+   * track [property] [key value ...], with keyframes in its block
+   */
+  private parseTrack(statement: Statement): JSONRecord {
+    const track: JSONRecord = {};
+    this.parseHeader(statement.items, track, 'property', false);
+    this.parseBlock(statement, track, { keyframes: true });
+    return track;
+  }
+
+  /**
+   * <time> <value> [key value ...]
+   */
+  private parseKeyframe(statement: Statement): JSONRecord {
+    if (statement.items.length === 0) {
+      this.fail('Expected a value after the keyframe time', this.endOf(statement));
+    }
+    if (statement.block) {
+      this.fail('Keyframes cannot have a block', statement.head);
+    }
+
+    const keyframe: JSONRecord = { time: Number(statement.head.value), value: statement.items[0].value };
+    this.parsePairs(statement.items, 1, keyframe, false);
+    return keyframe;
+  }
+
+  /**
+   * A `key value` line setting a property of the enclosing object
+   */
+  private parseProperty(statement: Statement, target: JSONRecord): void {
+    const { head, items, block } = statement;
+    if (head.type !== 'ident' && head.type !== 'string') {
+      this.fail(`Unexpected ${this.describe(head)}, expected a statement`, head);
+    }
+    if (block) {
+      this.fail(`Unknown block "${head.value}"`, head);
+    }
+    if (items.length !== 1) {
+      this.fail(
+        items.length === 0 ? `Missing value for "${head.value}"` : `Expected a single value for "${head.value}"`,
+        items.length === 0 ? this.endOf(statement) : items[1].token
+      );
+    }
+
+    this.setProperty(target, head.value, items[0].value, head);
+  }
+
+  /**
+   * Interpret the nested block of an object, animation or track
+   */
+  private parseBlock(statement: Statement, target: JSONRecord, rules: BlockRules): void {
+    for (const child of statement.block || []) {
+      const { head } = child;
+      if (rules.animations && head.type === 'ident' && head.value === 'animation') {
+        this.append(target, 'animations', this.parseAnimation(child), head);
+      } else if (rules.children && this.isObjectKeyword(head)) {
+        this.append(target, 'children', this.parseObject(child), head);
+      } else if (rules.object && this.isObjectKeyword(head)) {
+        if (target.object !== undefined) {
+          this.fail('A repeat copies a single object; put several in a group', head);
+        }
+        this.setProperty(target, 'object', this.parseObject(child), head);
+      } else if (rules.tracks && head.type === 'ident' && head.value === 'track') {
+        this.append(target, 'tracks', this.parseTrack(child), head);
+      } else if (rules.keyframes && head.type === 'number') {
+        this.append(target, 'keyframes', this.parseKeyframe(child), head);
+      } else {
+        this.parseProperty(child, target);
+      }
+    }
+  }
+
+  /**
+   * Parse an optional positional value followed by key/value pairs. The
+   * positional value is present when the item count is odd.
+   */
+  private parseHeader(items: Item[], target: JSONRecord, positionalKey: string, allowAt: boolean): void {
+    let start = 0;
+    if (items.length % 2 === 1) {
+      target[positionalKey] = items[0].value;
+      start = 1;
+    }
+    this.parsePairs(items, start, target, allowAt);
+  }
+
+  /**
+   * Parse `key value` pairs from an item list
+   */
+  private parsePairs(items: Item[], start: number, target: JSONRecord, allowAt: boolean): void {
+    for (let index = start; index < items.length; index += 2) {
+      this.setPair(target, items, index, allowAt);
+    }
+  }
+
+  /**
+   * Set one `key value` pair; `at` is shorthand for position
+   */
+  private setPair(target: JSONRecord, items: Item[], index: number, allowAt: boolean): void {
+    const key = items[index];
+    const value = items[index + 1];
+    let name = this.keyName(key);
+
+    if (!value) {
+      this.fail(`Missing value for "${name}"`, key.token);
+    }
+    if (allowAt && key.token.type === 'ident' && name === 'at') {
+      name = 'position';
+    }
+
+    this.setProperty(target, name, value.value, key.token);
+  }
+
+  /**
+   * Property name of a key item (a bare word or quoted string)
+   */
+  private keyName(item: Item): string {
+    const isWord = item.token.type === 'ident' && typeof item.value === 'string';
+    if (!isWord && item.token.type !== 'string') {
+      this.fail(`Expected a property name, got ${this.describe(item.token)}`, item.token);
+    }
+    return item.value as string;
+  }
+
+  /**
+   * Set a property, rejecting duplicates
+   */
+  private setProperty(target: JSONRecord, key: string, value: unknown, token: Token): void {
+    if (Object.prototype.hasOwnProperty.call(target, key)) {
+      this.fail(`Duplicate property "${key}"`, token);
+    }
+    target[key] = value;
+  }
+
+  /**
+   * Append to an array property, creating it on first use
+   */
+  private append(target: JSONRecord, key: string, value: unknown, token: Token): void {
+    if (target[key] === undefined) {
+      target[key] = [];
+    }
+    if (!Array.isArray(target[key])) {
+      this.fail(`"${key}" is already set to a non-list value`, token);
+    }
+    (target[key] as unknown[]).push(value);
+  }
+
+  /**
+   * Check whether a statement head names an object type
+   */
+  private isObjectKeyword(token: Token): boolean {
+    return token.type === 'ident' && OBJECT_TYPES.includes(token.value);
+  }
+
+  /**
+   * Check whether an item was written as an inline { ... } object
+   */
+  private isInlineObject(item: Item | undefined): boolean {
+    return !!item && item.token.type === 'punct' && item.token.value === '{';
+  }
+
+  // ---------------------------------------------------------------------
+  // Syntax: statements and values
+  // ---------------------------------------------------------------------
+
+  /**
+   * Parse statements up to the end of input, or up to the "}" closing `open`
+   */
+  private parseStatements(open: Token | null): Statement[] {
+    const statements: Statement[] = [];
+
+    for (;;) {
+      this.skipNewlines();
+      const token = this.peek();
+
+      if (token.type === 'eof') {
+        if (open) this.fail('Missing "}" to close this block', open);
+        return statements;
+      }
+      if (this.isPunct(token, '}')) {
+        if (!open) this.fail('Unexpected "}"', token);
+        this.next();
+        return statements;
+      }
+
+      statements.push(this.parseStatement());
+    }
+  }
+
+  /**
+   * Parse one statement: head, values up to the end of the line, and an
+   * optional block. A "{" that ends the line opens a block; any other
+   * "{" starts an inline object value.
+   */
+  private parseStatement(): Statement {
+    const head = this.next();
+    if (head.type !== 'ident' && head.type !== 'string' && head.type !== 'number') {
+      this.fail(`Unexpected ${this.describe(head)}, expected a statement`, head);
+    }
+
+    const items: Item[] = [];
+    let block: Statement[] | null = null;
+
+    for (;;) {
+      const token = this.peek();
+      if (token.type === 'newline' || token.type === 'eof' || this.isPunct(token, '}')) {
+        break;
+      }
+      if (this.isPunct(token, '{') && this.peek(1).type === 'newline') {
+        this.next();
+        block = this.parseStatements(token);
+        this.expectEndOfStatement();
+        break;
+      }
+      items.push({ token, value: this.parseValue() });
+    }
+
+    return { head, items, block };
+  }
+
+  /**
+   * Parse a single value
+   */
+  private parseValue(): unknown {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return Number(token.value);
+      case 'string':
+      case 'color':
+        return token.value;
+      case 'ident':
+        if (token.value === 'true') return true;
+        if (token.value === 'false') return false;
+        if (token.value === 'null') return null;
+        return token.value;
+      case 'punct':
+        if (token.value === '(') return this.parseTuple(token);
+        if (token.value === '[') return this.parseList(token);
+        if (token.value === '{') return this.parseInlineObject(token);
+        break;
+    }
+
+    return this.fail(`Unexpected ${this.describe(token)}, expected a value`, token);
+  }
+
+  /**
+   * (x, y, z): a list of numbers
+   */
+  private parseTuple(open: Token): number[] {
+    const values: number[] = [];
+    this.parseSequence(open, ')', () => {
+      const token = this.next();
+      if (token.type !== 'number') {
+        this.fail(`Expected a number, got ${this.describe(token)}`, token);
+      }
+      values.push(Number(token.value));
+    });
+    return values;
+  }
+
+  /**
+   * [a, b, ...]: a list of any values
+   */
+  private parseList(open: Token): unknown[] {
+    const values: unknown[] = [];
+    this.parseSequence(open, ']', () => values.push(this.parseValue()));
+    return values;
+  }
+
+  /**
+   * { key value, ... }: an object written inline
+   */
+  private parseInlineObject(open: Token): JSONRecord {
+    const obj: JSONRecord = {};
+    this.parseSequence(open, '}', () => {
+      const key = this.next();
+      if (key.type !== 'ident' && key.type !== 'string') {
+        this.fail(`Expected a property name, got ${this.describe(key)}`, key);
+      }
+      this.skipNewlines();
+      this.setProperty(obj, key.value, this.parseValue(), key);
+    });
+    return obj;
+  }
+
+  /**
+   * Parse comma-separated entries up to a closing bracket; newlines are
+   * ignored inside brackets
+   */
+  private parseSequence(open: Token, close: string, parseEntry: () => void): void {
+    for (;;) {
+      this.skipNewlines();
+      const token = this.peek();
+      if (this.isPunct(token, close)) {
+        this.next();
+        return;
+      }
+      if (token.type === 'eof') {
+        this.fail(`Missing "${close}" to close this "${open.value}"`, open);
+      }
+
+      parseEntry();
+      this.skipNewlines();
+
+      const separator = this.peek();
+      if (this.isPunct(separator, ',')) {
+        this.next();
+      } else if (separator.type === 'eof') {
+        this.fail(`Missing "${close}" to close this "${open.value}"`, open);
+      } else if (!this.isPunct(separator, close)) {
+        this.fail(`Expected "," or "${close}", got ${this.describe(separator)}`, separator);
+      }
+    }
+  }
+
+  /**
+   * After a block's "}", the statement must end
+   */
+  private expectEndOfStatement(): void {
+    const token = this.peek();
+    if (token.type !== 'newline' && token.type !== 'eof' && !this.isPunct(token, '}')) {
+      this.fail(`Unexpected ${this.describe(token)} after "}"`, token);
+    }
+  }
+
+  /**
+   * Skip blank lines and ";"
+   */
+  private skipNewlines(): void {
+    while (this.peek().type === 'newline') {
+      this.position++;
+    }
+  }
+
+  /**
+   * Look at a token without consuming it
+   */
+  private peek(ahead: number = 0): Token {
+    return this.tokens[Math.min(this.position + ahead, this.tokens.length - 1)];
+  }
+
+  /**
+   * Consume a token
+   */
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      this.position++;
+    }
+    return token;
+  }
+
+  /**
+   * Check for a specific punctuation token
+   */
+  private isPunct(token: Token, value: string): boolean {
+    return token.type === 'punct' && token.value === value;
+  }
+
+  /**
+   * Token to point at when something is missing at the end of a statement
+   */
+  private endOf(statement: Statement): Token {
+    const last = statement.items.length > 0 ? statement.items[statement.items.length - 1].token : statement.head;
+    return { ...last, column: last.column + Math.max(last.value.length, 1) };
+  }
+
+  /**
+   * Describe a token for error messages
+   */
+  private describe(token: Token): string {
+    switch (token.type) {
+      case 'eof':
+        return 'end of input';
+      case 'newline':
+        return 'end of line';
+      case 'string':
+        return `string ${JSON.stringify(token.value)}`;
+      default:
+        return `"${token.value}"`;
+    }
+  }
+
+  /**
+   * Throw a syntax error at a token
+   */
+  private fail(message: string, token: Token): never {
+    throw new SceneTextError(message, token.line, token.column);
+  }
+}
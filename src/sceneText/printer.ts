@@ -0,0 +1,263 @@
+import { SceneDSL } from '../types/dsl.js';
+import { OBJECT_TYPES } from '../dslValidator.js';
+
+type JSONRecord = Record<string, any>;
+
+const INDENT = '  ';
+const WORD = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const COLOR = /^#[A-Za-z0-9]+$/;
+const RESERVED = ['true', 'false', 'null'];
+/** Keys with a special meaning on camera, light and object lines */
+const OBJECT_RESERVED = ['at', 'material'];
+
+/**
+ * Print a scene in the text syntax
+ *
+ * Values the syntax has no shorthand for are written as inline values, so
+ * parsing the output always yields a scene equal to the input. Comments
+ * and formatting of previously parsed text are not preserved.
+ */
+export function printSceneText(dsl: SceneDSL): string {
+  const scene = dsl as unknown as JSONRecord;
+  const sections: string[][] = [];
+
+  const properties = Object.keys(scene)
+    .filter(key => !['camera', 'lights', 'objects'].includes(key) && scene[key] !== undefined)
+    .map(key => `${formatKey(key, ['camera', 'light', ...OBJECT_TYPES])} ${formatValue(scene[key])}`);
+  sections.push(properties);
+
+  if (scene.camera !== undefined) {
+    if (!isRecord(scene.camera)) {
+      throw new Error('Cannot print scene text: camera must be an object');
+    }
+    sections.push(printCamera(scene.camera));
+  }
+
+  sections.push(printList(scene.lights, 'lights', light => printLight(light, '')));
+  sections.push(printList(scene.objects, 'objects', obj => printObject(obj, '')));
+
+  return sections
+    .filter(lines => lines.length > 0)
+    .map(lines => lines.join('\n'))
+    .join('\n\n') + '\n';
+}
+
+/**
+ * Print each entry of a required list of objects
+ */
+function printList(list: unknown, name: string, print: (item: JSONRecord) => string[]): string[] {
+  if (list === undefined) return [];
+  if (!Array.isArray(list) || !list.every(isRecord)) {
+    throw new Error(`Cannot print scene text: ${name} must be a list of objects`);
+  }
+  return list.flatMap(print);
+}
+
+/**
+ * camera at (x, y, z) lookAt (x, y, z) fov 75
+ */
+function printCamera(camera: JSONRecord): string[] {
+  const header = ['camera', ...formatPairs(camera, animationKeys(camera), true)];
+  return withBlock(header.join(' '), printAnimations(camera, INDENT), '');
+}
+
+/**
+ * light <type> color #ffffff intensity 1 at (x, y, z)
+ */
+function printLight(light: JSONRecord, indent: string): string[] {
+  const header = ['light', ...formatPositional(light, 'type'), ...formatPairs(light, ['type', ...animationKeys(light)], true)];
+  return withBlock(indent + header.join(' '), printAnimations(light, indent + INDENT), indent);
+}
+
+/**
+ * <type> ["name"] at (x, y, z) ... material <type> color #ffffff ...
+ * Groups list their children in a block, repeats the object they copy.
+ */
+function printObject(obj: JSONRecord, indent: string): string[] {
+  if (typeof obj.type !== 'string' || !OBJECT_TYPES.includes(obj.type)) {
+    throw new Error(`Cannot print scene text: unknown object type ${JSON.stringify(obj.type)}`);
+  }
+
+  const isGroup = obj.type === 'group';
+  const isRepeat = obj.type === 'repeat';
+  const header = [obj.type];
+  const skip = ['type', ...animationKeys(obj)];
+
+  if (typeof obj.name === 'string') {
+    header.push(JSON.stringify(obj.name));
+    skip.push('name');
+  }
+
+  // The material clause runs to the end of the line, so it goes last
+  const materialClause = !isGroup && !isRepeat && isRecord(obj.material);
+  if (materialClause) {
+    skip.push('material');
+  }
+
+  const hasChildren = isGroup && Array.isArray(obj.children) && obj.children.length > 0 && obj.children.every(isRecord);
+  if (hasChildren) {
+    skip.push('children');
+  }
+  const hasObject = isRepeat && isRecord(obj.object);
+  if (hasObject) {
+    skip.push('object');
+  }
+
+  // A quoted key first on the line would read as the object's name, so
+  // properties that need quoting go in the block instead
+  const quoted = Object.keys(obj).filter(key =>
+    !skip.includes(key) && obj[key] !== undefined && key !== 'position' && formatKey(key, OBJECT_RESERVED).startsWith('"')
+  );
+  skip.push(...quoted);
+
+  header.push(...formatPairs(obj, skip, true));
+  if (materialClause) {
+    header.push('material', ...formatPositional(obj.material, 'type'), ...formatPairs(obj.material, ['type'], false));
+  }
+
+  const block = [
+    ...quoted.map(key => `${indent}${INDENT}${formatKey(key, OBJECT_RESERVED)} ${formatValue(obj[key])}`),
+    ...printAnimations(obj, indent + INDENT)
+  ];
+  if (hasChildren) {
+    block.push(...obj.children.flatMap((child: JSONRecord) => printObject(child, indent + INDENT)));
+  }
+  if (hasObject) {
+    block.push(...printObject(obj.object as JSONRecord, indent + INDENT));
+  }
+
+  return withBlock(indent + header.join(' '), block, indent);
+}
+
+/**
+ * animation <type> key value ..., with keyframe tracks in a block
+ */
+function printAnimation(animation: JSONRecord, indent: string): string[] {
+  const tracks = hasSugarList(animation.tracks) ? animation.tracks as JSONRecord[] : null;
+  const skip = tracks ? ['type', 'tracks'] : ['type'];
+  const header = ['animation', ...formatPositional(animation, 'type'), ...formatPairs(animation, skip, false)];
+
+  const block = tracks ? tracks.flatMap(track => printTrack(track, indent + INDENT)) : [];
+  return withBlock(indent + header.join(' '), block, indent);
+}
+
+/**
+ * track <property> easing <easing>, with one `time value` line per keyframe
+ */
+function printTrack(track: JSONRecord, indent: string): string[] {
+  const keyframes = hasSugarList(track.keyframes)
+    && (track.keyframes as JSONRecord[]).every(keyframe => typeof keyframe.time === 'number' && 'value' in keyframe)
+    ? track.keyframes as JSONRecord[]
+    : null;
+  const skip = keyframes ? ['property', 'keyframes'] : ['property'];
+  const header = ['track', ...formatPositional(track, 'property'), ...formatPairs(track, skip, false)];
+
+  const block = (keyframes || []).map(keyframe =>
+    [
+      indent + INDENT + formatValue(keyframe.time),
+      formatValue(keyframe.value),
+      ...formatPairs(keyframe, ['time', 'value'], false)
+    ].join(' ')
+  );
+  return withBlock(indent + header.join(' '), block, indent);
+}
+
+/**
+ * The animations key when it is printed as animation lines
+ */
+function animationKeys(obj: JSONRecord): string[] {
+  return hasSugarList(obj.animations) ? ['animations'] : [];
+}
+
+/**
+ * One `animation` line per entry when the object has a non-empty list
+ */
+function printAnimations(obj: JSONRecord, indent: string): string[] {
+  return hasSugarList(obj.animations)
+    ? (obj.animations as JSONRecord[]).flatMap(animation => printAnimation(animation, indent))
+    : [];
+}
+
+/**
+ * Append a { ... } block to a header line when there is anything in it
+ */
+function withBlock(header: string, block: string[], indent: string): string[] {
+  return block.length > 0 ? [`${header} {`, ...block, `${indent}}`] : [header];
+}
+
+/**
+ * The positional value, if the object has that property
+ */
+function formatPositional(obj: JSONRecord, key: string): string[] {
+  return obj[key] === undefined ? [] : [formatValue(obj[key])];
+}
+
+/**
+ * `key value` pairs for every property not in `skip`, position first as `at`
+ */
+function formatPairs(obj: JSONRecord, skip: string[], positionAsAt: boolean): string[] {
+  const keys = Object.keys(obj).filter(key => !skip.includes(key) && obj[key] !== undefined);
+
+  if (positionAsAt && keys.includes('position')) {
+    keys.splice(keys.indexOf('position'), 1);
+    keys.unshift('position');
+  }
+
+  return keys.flatMap(key => [
+    positionAsAt && key === 'position' ? 'at' : formatKey(key, positionAsAt ? OBJECT_RESERVED : []),
+    formatValue(obj[key])
+  ]);
+}
+
+/**
+ * Property name as a bare word, or quoted when it could be mistaken for syntax
+ */
+function formatKey(key: string, reserved: string[]): string {
+  return WORD.test(key) && !RESERVED.includes(key) && !reserved.includes(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Format any JSON value
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`Cannot print scene text: ${value} is not a finite number`);
+    }
+    return String(value);
+  }
+  if (typeof value === 'string') {
+    return (WORD.test(value) && !RESERVED.includes(value)) || COLOR.test(value) ? value : JSON.stringify(value);
+  }
+  if (typeof value === 'boolean' || value === null) {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    if (value.length > 0 && value.every(item => typeof item === 'number')) {
+      return `(${value.map(formatValue).join(', ')})`;
+    }
+    return `[${value.map(formatValue).join(', ')}]`;
+  }
+  if (isRecord(value)) {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .map(key => `${formatKey(key, [])} ${formatValue(value[key])}`);
+    return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+  }
+
+  throw new Error(`Cannot print scene text: unsupported value ${String(value)}`);
+}
+
+/**
+ * A non-empty list of objects, printed as one line (or block) per entry
+ */
+function hasSugarList(value: unknown): boolean {
+  return Array.isArray(value) && value.length > 0 && value.every(isRecord);
+}
+
+/**
+ * Check for a plain (non-array) object
+ */
+function isRecord(value: unknown): value is JSONRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,140 @@
+/**
+ * Tokenizer for the scene text syntax
+ */
+
+export type TokenType = 'ident' | 'string' | 'number' | 'color' | 'punct' | 'newline' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  /** Source text, except for strings where it is the unescaped value */
+  value: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Syntax error with the 1-based position it was found at
+ */
+export class SceneTextError extends Error {
+  readonly line: number;
+  readonly column: number;
+
+  constructor(message: string, line: number, column: number) {
+    super(`Line ${line}, column ${column}: ${message}`);
+    this.name = 'SceneTextError';
+    this.line = line;
+    this.column = column;
+  }
+}
+
+const PUNCTUATION = '()[]{},';
+const NUMBER = /-?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/y;
+const IDENT = /[A-Za-z_][A-Za-z0-9_]*/y;
+const COLOR = /#[A-Za-z0-9]+/y;
+
+/**
+ * Split source text into tokens. Newlines and ";" both end a statement and
+ * come out as newline tokens; comments (// and /* *\/) are dropped.
+ */
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const push = (type: TokenType, value: string, start: number) =>
+    tokens.push({ type, value, line, column: start - lineStart + 1 });
+  const fail = (message: string, at: number): never => {
+    throw new SceneTextError(message, line, at - lineStart + 1);
+  };
+
+  while (offset < source.length) {
+    const char = source[offset];
+
+    if (char === '\n' || char === ';') {
+      push('newline', char, offset);
+      offset++;
+      if (char === '\n') {
+        line++;
+        lineStart = offset;
+      }
+      continue;
+    }
+    if (char === ' ' || char === '\t' || char === '\r') {
+      offset++;
+      continue;
+    }
+
+    if (source.startsWith('//', offset)) {
+      while (offset < source.length && source[offset] !== '\n') offset++;
+      continue;
+    }
+    if (source.startsWith('/*', offset)) {
+      const end = source.indexOf('*/', offset + 2);
+      if (end < 0) fail('Unterminated comment', offset);
+      for (let i = offset; i < end; i++) {
+        if (source[i] === '\n') {
+          line++;
+          lineStart = i + 1;
+        }
+      }
+      offset = end + 2;
+      continue;
+    }
+
+    if (PUNCTUATION.includes(char)) {
+      push('punct', char, offset);
+      offset++;
+      continue;
+    }
+
+    if (char === '"') {
+      const start = offset;
+      offset++;
+      while (offset < source.length && source[offset] !== '"') {
+        if (source[offset] === '\n') fail('Unterminated string', start);
+        offset += source[offset] === '\\' ? 2 : 1;
+      }
+      if (offset >= source.length) fail('Unterminated string', start);
+      offset++;
+
+      let value: string;
+      try {
+        value = JSON.parse(source.slice(start, offset));
+      } catch {
+        return fail('Invalid escape sequence in string', start);
+      }
+      push('string', value, start);
+      continue;
+    }
+
+    const number = matchAt(NUMBER, source, offset);
+    if (number) {
+      if (matchAt(IDENT, source, offset + number.length)) {
+        fail(`Invalid number "${number}${source[offset + number.length]}"`, offset);
+      }
+      push('number', number, offset);
+      offset += number.length;
+      continue;
+    }
+
+    const word = matchAt(COLOR, source, offset) || matchAt(IDENT, source, offset);
+    if (!word) {
+      return fail(char === '#' ? 'Expected a hex color after "#"' : `Unexpected character ${JSON.stringify(char)}`, offset);
+    }
+    push(word.startsWith('#') ? 'color' : 'ident', word, offset);
+    offset += word.length;
+  }
+
+  push('eof', '', offset);
+  return tokens;
+}
+
+/**
+ * Match a sticky pattern at an offset
+ */
+function matchAt(pattern: RegExp, source: string, offset: number): string | null {
+  pattern.lastIndex = offset;
+  const match = pattern.exec(source);
+  return match ? match[0] : null;
+}
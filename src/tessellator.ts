@@ -0,0 +1,154 @@
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import * as THREE from 'three';
+import { Font, FontLoader } from 'three/examples/jsm/loaders/FontLoader.js';
+import { TextGeometry, TextGeometryParameters } from 'three/examples/jsm/geometries/TextGeometry.js';
+import { MeshConfig } from './types/dsl.js';
+import { GeometrySpec, PathCommand, geometrySpec } from './geometry.js';
+
+/**
+ * Indexed triangle mesh with per-vertex attributes, laid out like a
+ * Three.js BufferGeometry (flat arrays, counter-clockwise front faces)
+ */
+export interface MeshData {
+  positions: number[];
+  normals: number[];
+  uvs: number[];
+  indices: number[];
+}
+
+/**
+ * Tessellate a DSL primitive into the same triangles Three.js builds for
+ * the geometry emitted by SceneGenerator, by running the same geometry
+ * constructor. Three.js geometry classes are plain math and need no DOM.
+ */
+export function tessellate(obj: MeshConfig): MeshData {
+  const geometry = buildGeometry(geometrySpec(obj));
+  const position = geometry.getAttribute('position');
+  const normal = geometry.getAttribute('normal');
+  const uv = geometry.getAttribute('uv');
+
+  // Polyhedra, extrusions and text are non-indexed: one vertex per corner
+  const indices = geometry.index
+    ? Array.from(geometry.index.array)
+    : Array.from({ length: position.count }, (_, i) => i);
+
+  const mesh: MeshData = {
+    positions: Array.from(position.array),
+    normals: normal ? unitNormals(Array.from(normal.array)) : new Array(position.count * 3).fill(0),
+    uvs: uv ? Array.from(uv.array) : new Array(position.count * 2).fill(0),
+    indices
+  };
+  geometry.dispose();
+  return mesh;
+}
+
+/**
+ * Normalize normals in place. Exporters require unit length, but some
+ * Three.js geometries (e.g. the capsule seams) produce shorter ones.
+ */
+function unitNormals(normals: number[]): number[] {
+  for (let i = 0; i < normals.length; i += 3) {
+    const length = Math.hypot(normals[i], normals[i + 1], normals[i + 2]);
+    if (length > 0 && Math.abs(length - 1) > 1e-6) {
+      normals[i] /= length;
+      normals[i + 1] /= length;
+      normals[i + 2] /= length;
+    } else if (length === 0) {
+      normals[i + 1] = 1;
+    }
+  }
+  return normals;
+}
+
+/**
+ * Unique edges of a triangle mesh as line index pairs, for wireframe output
+ */
+export function wireframeIndices(indices: number[]): number[] {
+  const seen = new Set<string>();
+  const lines: number[] = [];
+
+  for (let i = 0; i < indices.length; i += 3) {
+    const tri = [indices[i], indices[i + 1], indices[i + 2]];
+    for (let e = 0; e < 3; e++) {
+      const a = tri[e];
+      const b = tri[(e + 1) % 3];
+      const key = a < b ? `${a}_${b}` : `${b}_${a}`;
+      if (!seen.has(key)) {
+        seen.add(key);
+        lines.push(a, b);
+      }
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Construct the Three.js geometry a spec describes
+ */
+function buildGeometry(spec: GeometrySpec): THREE.BufferGeometry {
+  switch (spec.kind) {
+    case 'primitive':
+      const GeometryClass = (THREE as unknown as Record<string, new (...args: unknown[]) => THREE.BufferGeometry>)[spec.className];
+      return new GeometryClass(...spec.args);
+
+    case 'lathe':
+      const [segments, phiStart, phiLength] = spec.args;
+      return new THREE.LatheGeometry(buildPath(new THREE.Path(), spec.points).getPoints(), segments, phiStart, phiLength);
+
+    case 'extrude':
+      const shape = buildPath(new THREE.Shape(), spec.shape);
+      shape.holes = spec.holes.map(hole => buildPath(new THREE.Path(), hole));
+      return new THREE.ExtrudeGeometry(shape, spec.options);
+
+    case 'tube':
+      const [tubularSegments, radius, radialSegments, closed] = spec.args as [number, number, number, boolean];
+      const curve = new THREE.CatmullRomCurve3(spec.path.map(point => new THREE.Vector3(...point)), closed);
+      return new THREE.TubeGeometry(curve, tubularSegments, radius, radialSegments, closed);
+
+    case 'text':
+      return new TextGeometry(spec.text, { font: loadFont(spec.font), ...spec.options } as TextGeometryParameters).center();
+  }
+}
+
+/**
+ * Replay drawing commands on a Three.js Path or Shape
+ */
+function buildPath<T extends THREE.Path>(path: T, commands: PathCommand[]): T {
+  for (const command of commands) {
+    switch (command[0]) {
+      case 'M':
+        path.moveTo(command[1], command[2]);
+        break;
+      case 'L':
+        path.lineTo(command[1], command[2]);
+        break;
+      case 'Q':
+        path.quadraticCurveTo(command[1], command[2], command[3], command[4]);
+        break;
+      case 'C':
+        path.bezierCurveTo(command[1], command[2], command[3], command[4], command[5], command[6]);
+        break;
+      case 'Z':
+        path.closePath();
+        break;
+    }
+  }
+  return path;
+}
+
+const fonts = new Map<string, Font>();
+
+/**
+ * Load a typeface bundled with the three package, e.g. "helvetiker_regular"
+ */
+function loadFont(name: string): Font {
+  let font = fonts.get(name);
+  if (!font) {
+    const file = createRequire(import.meta.url).resolve(`three/examples/fonts/${name}.typeface.json`);
+    font = new FontLoader().parse(JSON.parse(readFileSync(file, 'utf-8')));
+    fonts.set(name, font);
+  }
+  return font;
+}
@@ -0,0 +1,166 @@
+import { readFileSync } from 'fs';
+import { extname, resolve } from 'path';
+import { TextureConfig } from './types/dsl.js';
+import { parseColor, RGB } from './colors.js';
+import { encodePNG, RGBAImage } from './png.js';
+
+/**
+ * MIME types of image files that can be embedded
+ */
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif'
+};
+
+const DEFAULT_COLORS: [string, string] = ['#ffffff', '#000000'];
+
+/**
+ * Key identifying the image of a texture, ignoring repeat and offset,
+ * so slots that show the same image can share one data URI
+ */
+export function textureImageKey(texture: TextureConfig): string {
+  const { repeat, offset, ...image } = texture;
+  return JSON.stringify(image, Object.keys(image).sort());
+}
+
+/**
+ * Load or generate the encoded image of a texture
+ *
+ * @param assetDir directory relative file paths are resolved against
+ * @throws Error when the file is missing, unreadable or not a supported image type
+ */
+export function loadTextureImage(texture: TextureConfig, assetDir: string = process.cwd()): { mimeType: string; bytes: Buffer } {
+  if (texture.file !== undefined) {
+    const mimeType = IMAGE_MIME_TYPES[extname(texture.file).toLowerCase()];
+    if (!mimeType) {
+      throw new Error(`Unsupported texture image type: ${texture.file}`);
+    }
+
+    try {
+      return { mimeType, bytes: readFileSync(resolve(assetDir, texture.file)) };
+    } catch (error) {
+      throw new Error(`Cannot read texture ${texture.file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { mimeType: 'image/png', bytes: encodePNG(generateProceduralTexture(texture)) };
+}
+
+/**
+ * Load or generate a texture image as a data URI
+ */
+export function textureDataURI(texture: TextureConfig, assetDir: string = process.cwd()): string {
+  const { mimeType, bytes } = loadTextureImage(texture, assetDir);
+  return `data:${mimeType};base64,${bytes.toString('base64')}`;
+}
+
+/**
+ * Render a procedural pattern. Checker and noise tile seamlessly so they
+ * can be repeated across large surfaces.
+ */
+export function generateProceduralTexture(texture: TextureConfig): RGBAImage {
+  const size = texture.size ?? 256;
+  const scale = texture.scale ?? 8;
+  const [from, to] = (texture.colors || DEFAULT_COLORS).map(color => parseColor(color) || [1, 1, 1]) as [RGB, RGB];
+  const noise = texture.procedural === 'noise' ? createTileableNoise(Math.max(1, Math.round(scale)), texture.seed ?? 1) : null;
+
+  const data = new Uint8Array(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const u = (x + 0.5) / size;
+      const v = (y + 0.5) / size;
+      let t: number;
+
+      switch (texture.procedural) {
+        case 'gradient':
+          t = gradientAt(u, v, texture.direction || 'vertical');
+          break;
+        case 'noise':
+          t = noise!(u, v);
+          break;
+        case 'checker':
+        default:
+          t = (Math.floor(u * scale) + Math.floor(v * scale)) % 2;
+          break;
+      }
+
+      const offset = (y * size + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        data[offset + c] = Math.round((from[c] + (to[c] - from[c]) * t) * 255);
+      }
+      data[offset + 3] = 255;
+    }
+  }
+
+  return { width: size, height: size, data };
+}
+
+/**
+ * Blend factor of a gradient at a texel (0 = first color)
+ */
+function gradientAt(u: number, v: number, direction: string): number {
+  switch (direction) {
+    case 'horizontal':
+      return u;
+    case 'radial':
+      return Math.min(1, Math.hypot(u - 0.5, v - 0.5) * 2);
+    case 'vertical':
+    default:
+      return v;
+  }
+}
+
+/**
+ * Fractal value noise on a periodic lattice, returning 0..1
+ */
+function createTileableNoise(cells: number, seed: number): (u: number, v: number) => number {
+  const random = mulberry32(seed);
+  const octaves = 4;
+  const lattices = Array.from({ length: octaves }, (_, octave) => {
+    const period = cells << octave;
+    return { period, values: Array.from({ length: period * period }, () => random()) };
+  });
+
+  const smooth = (t: number) => t * t * (3 - 2 * t);
+
+  return (u, v) => {
+    let sum = 0;
+    let weight = 0;
+    let amplitude = 1;
+
+    for (const { period, values } of lattices) {
+      const x = u * period;
+      const y = v * period;
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const sx = smooth(x - x0);
+      const sy = smooth(y - y0);
+      const at = (i: number, j: number) => values[(j % period) * period + (i % period)];
+
+      const top = at(x0, y0) + (at(x0 + 1, y0) - at(x0, y0)) * sx;
+      const bottom = at(x0, y0 + 1) + (at(x0 + 1, y0 + 1) - at(x0, y0 + 1)) * sx;
+      sum += (top + (bottom - top) * sy) * amplitude;
+      weight += amplitude;
+      amplitude /= 2;
+    }
+
+    return sum / weight;
+  };
+}
+
+/**
+ * Small seeded PRNG so the same seed always gives the same texture or layout
+ */
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Code fragments shared by the generators that write Three.js calls
+ */
+
+import { SceneIR, InstancedMeshNode, MaterialValue, ModelAsset } from './types/sceneIR.js';
+import { GeometrySpec, PathCommand } from './geometry.js';
+import { codeNumber, codeNumbers, colorLiteral, jsString } from './codeLiterals.js';
+
+/**
+ * Bindings and specifier of each module the scene's Three.js code needs
+ */
+export function sceneImports(ir: SceneIR): [string, string][] {
+  const imports: [string, string][] = [
+    ['* as THREE', 'three'],
+    ['{ OrbitControls }', 'three/examples/jsm/controls/OrbitControls.js']
+  ];
+  if (ir.fonts.length > 0) {
+    imports.push(
+      ['{ FontLoader }', 'three/examples/jsm/loaders/FontLoader.js'],
+      ['{ TextGeometry }', 'three/examples/jsm/geometries/TextGeometry.js']
+    );
+  }
+  if (ir.models.some(model => model.loader === 'gltf')) {
+    imports.push(['{ GLTFLoader }', 'three/examples/jsm/loaders/GLTFLoader.js']);
+  }
+  if (ir.models.some(model => model.loader === 'obj')) {
+    imports.push(['{ OBJLoader }', 'three/examples/jsm/loaders/OBJLoader.js']);
+  }
+  return imports;
+}
+
+/**
+ * Embed every texture image once and define the loadTexture helper
+ */
+export function texturesSection(textures: string[]): string {
+  if (textures.length === 0) return '';
+
+  const images = textures.map((uri, index) => `const textureImage${index} = ${jsString(uri)};`);
+  return `// Textures
+const textureLoader = new THREE.TextureLoader();
+${images.join('\n')}
+
+function loadTexture(url, repeat, offset, isColor) {
+  const texture = textureLoader.load(url);
+  texture.wrapS = THREE.RepeatWrapping;
+  texture.wrapT = THREE.RepeatWrapping;
+  texture.repeat.set(repeat[0], repeat[1]);
+  texture.offset.set(offset[0], offset[1]);
+  if (isColor) texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+}`;
+}
+
+/**
+ * The path builder lathe and extrude geometry use, if the scene needs it
+ */
+export function pathHelpersSection(ir: SceneIR): string {
+  if (!ir.paths) return '';
+
+  return `// Geometry helpers
+function buildPath(path, commands) {
+  for (const [command, ...args] of commands) {
+    if (command === 'M') path.moveTo(...args);
+    else if (command === 'L') path.lineTo(...args);
+    else if (command === 'Q') path.quadraticCurveTo(...args);
+    else if (command === 'C') path.bezierCurveTo(...args);
+    else if (command === 'Z') path.closePath();
+  }
+  return path;
+}
+
+function buildShape(outline, holes) {
+  const shape = buildPath(new THREE.Shape(), outline);
+  shape.holes = holes.map(hole => buildPath(new THREE.Path(), hole));
+  return shape;
+}`;
+}
+
+/**
+ * The helper that sets the matrix and color of every instance of an
+ * instanced mesh, if the scene has one
+ */
+export function instancingSection(ir: SceneIR): string {
+  if (!ir.instanced) return '';
+
+  return `// Instancing
+function placeInstances(mesh, instances) {
+  const transform = new THREE.Object3D();
+  instances.forEach(([position, rotation, scale, color], index) => {
+    transform.position.fromArray(position);
+    transform.rotation.fromArray(rotation);
+    transform.scale.fromArray(scale);
+    transform.updateMatrix();
+    mesh.setMatrixAt(index, transform.matrix);
+    if (color) mesh.setColorAt(index, new THREE.Color(color));
+  });
+}`;
+}
+
+/**
+ * The instances of an instanced mesh as a literal for placeInstances, one per line
+ */
+export function instanceList(node: InstancedMeshNode): string {
+  const label = `${node.varName} instance`;
+  const items = node.instances.map(instance => {
+    const values = [
+      `[${codeNumbers(instance.position, `${label} position`)}]`,
+      `[${codeNumbers(instance.rotation, `${label} rotation`)}]`,
+      `[${codeNumbers(instance.scale, `${label} scale`)}]`,
+      ...(instance.color ? [colorLiteral(instance.color, `${label} color`)] : [])
+    ];
+    return `  [${values.join(', ')}]`;
+  });
+  return items.length > 0 ? `[\n${items.join(',\n')}\n]` : '[]';
+}
+
+/**
+ * One constant per model file holding its URL
+ */
+export function modelURLs(models: ModelAsset[]): string[] {
+  return models.map((model, index) => `const modelURL${index} = ${jsString(model.url)};`);
+}
+
+/**
+ * Constructor call for a geometry
+ */
+export function geometryExpression(spec: GeometrySpec, label: string): string {
+  const args = (values: (number | boolean)[]) => values.map(value => geometryArg(value, label)).join(', ');
+  const options = (values: Record<string, number | boolean>) =>
+    Object.entries(values).map(([key, value]) => `${key}: ${geometryArg(value, `${label} ${key}`)}`).join(', ');
+
+  switch (spec.kind) {
+    case 'primitive':
+      return `new THREE.${spec.className}(${args(spec.args)})`;
+
+    case 'lathe':
+      return `new THREE.LatheGeometry(buildPath(new THREE.Path(), ${pathCommands(spec.points, label)}).getPoints(), ${args(spec.args)})`;
+
+    case 'extrude':
+      const holes = spec.holes.map(hole => pathCommands(hole, label)).join(', ');
+      return `new THREE.ExtrudeGeometry(buildShape(${pathCommands(spec.shape, label)}, [${holes}]), { ${options(spec.options)} })`;
+
+    case 'tube':
+      const points = spec.path.map(point => `new THREE.Vector3(${codeNumbers(point, `${label} path`)})`).join(', ');
+      const closed = geometryArg(spec.args[3], label);
+      return `new THREE.TubeGeometry(new THREE.CatmullRomCurve3([${points}], ${closed}), ${args(spec.args)})`;
+
+    case 'text':
+      return `new TextGeometry(${jsString(spec.text)}, { font: fonts[${jsString(spec.font)}], ${options(spec.options)} }).center()`;
+  }
+}
+
+/**
+ * Format a geometry constructor argument, writing full turns and half
+ * turns in terms of Math.PI
+ */
+export function geometryArg(value: number | boolean, label: string): string {
+  if (typeof value === 'boolean') return String(value);
+  if (value === Math.PI * 2) return 'Math.PI * 2';
+  if (value === Math.PI) return 'Math.PI';
+  return codeNumber(value, label);
+}
+
+/**
+ * Path commands as a literal for the generated buildPath helper
+ */
+function pathCommands(commands: PathCommand[], label: string): string {
+  const items = commands.map(([command, ...values]) =>
+    `['${command}'${values.map(value => `, ${codeNumber(value, `${label} path`)}`).join('')}]`
+  );
+  return `[${items.join(', ')}]`;
+}
+
+/**
+ * Expression for a material constructor parameter
+ */
+export function materialValue(value: MaterialValue, label: string): string {
+  switch (value.kind) {
+    case 'color':
+      return colorLiteral(value.value, label);
+    case 'number':
+      return codeNumber(value.value, label);
+    case 'boolean':
+      return String(value.value);
+    case 'constant':
+      return `THREE.${value.name}`;
+    case 'texture':
+      const repeat = codeNumbers(value.repeat, 'texture.repeat');
+      const offset = codeNumbers(value.offset, 'texture.offset');
+      return `loadTexture(textureImage${value.image}, [${repeat}], [${offset}], ${value.isColor})`;
+  }
+}
@@ -0,0 +1,162 @@
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname, join, posix } from 'path';
+
+/**
+ * Root of the installed three package
+ */
+const THREE_ROOT = dirname(dirname(createRequire(import.meta.url).resolve('three')));
+
+/**
+ * Version of the installed three package, which every output mode pins to
+ */
+export const THREE_VERSION: string = JSON.parse(readFileSync(join(THREE_ROOT, 'package.json'), 'utf-8')).version;
+
+/**
+ * Folder, relative to the exported HTML, that copyThreeModules writes to
+ */
+export const THREE_FOLDER = 'vendor/three';
+
+/**
+ * jsDelivr URL of the installed version
+ */
+export const THREE_CDN = `https://cdn.jsdelivr.net/npm/three@${THREE_VERSION}`;
+
+/**
+ * Import and export-from specifiers, and side-effect imports
+ */
+const IMPORT_PATTERN = /(\bfrom\s*|\bimport\s*)(['"])([^'"]+)\2/g;
+
+/**
+ * A module of the three package and the modules it imports
+ */
+export interface ThreeModule {
+  /** Bare specifier, e.g. three/examples/jsm/loaders/GLTFLoader.js */
+  specifier: string;
+  /** Path inside the package, e.g. examples/jsm/loaders/GLTFLoader.js */
+  path: string;
+  source: string;
+}
+
+/**
+ * Package path a bare specifier refers to
+ *
+ * @throws Error for specifiers outside the three package
+ */
+function packagePath(specifier: string): string {
+  if (specifier === 'three') return 'build/three.module.js';
+  if (specifier.startsWith('three/examples/jsm/')) return specifier.slice('three/'.length);
+  throw new Error(`Not a three module: ${specifier}`);
+}
+
+/**
+ * Source of a module file inside the three package, e.g.
+ * examples/jsm/controls/OrbitControls.js, for serving it where
+ * copyThreeModules would have written it
+ *
+ * @throws Error for paths outside the package's modules, or missing files
+ */
+export function readThreeModule(path: string): string {
+  const isModule = path === 'build/three.module.js' || (path.startsWith('examples/jsm/') && path.endsWith('.js'));
+  if (!isModule || posix.normalize(path) !== path) {
+    throw new Error(`Not a three module: ${path}`);
+  }
+
+  try {
+    return readFileSync(join(THREE_ROOT, path), 'utf-8');
+  } catch {
+    throw new Error(`Module ${path} not found in three ${THREE_VERSION}`);
+  }
+}
+
+/**
+ * Collect the given modules and everything they import, each once,
+ * with relative imports rewritten to bare specifiers
+ *
+ * @throws Error when a module is missing from the installed package
+ */
+export function threeModuleGraph(specifiers: string[]): ThreeModule[] {
+  const modules = new Map<string, ThreeModule>();
+  const pending = [...specifiers];
+
+  while (pending.length > 0) {
+    const specifier = pending.pop()!;
+    if (modules.has(specifier)) continue;
+
+    const path = packagePath(specifier);
+    let source: string;
+    try {
+      source = readFileSync(join(THREE_ROOT, path), 'utf-8');
+    } catch {
+      throw new Error(`Module ${specifier} not found in three ${THREE_VERSION}`);
+    }
+
+    source = source.replace(IMPORT_PATTERN, (match, keyword: string, quote: string, target: string) => {
+      if (target === 'three' || target.startsWith('three/')) {
+        pending.push(target);
+        return match;
+      }
+      // Skip URLs and file names quoted in comments
+      if (!target.startsWith('.') || !target.endsWith('.js')) return match;
+      const resolved = `three/${posix.normalize(posix.join(posix.dirname(path), target))}`;
+      pending.push(resolved);
+      return `${keyword}${quote}${resolved}${quote}`;
+    });
+    modules.set(specifier, { specifier, path, source });
+  }
+
+  return [...modules.values()];
+}
+
+/**
+ * Import map entries that embed every module as a data URI
+ */
+export function inlineImportMap(specifiers: string[]): Record<string, string> {
+  const imports: Record<string, string> = {};
+  for (const { specifier, source } of threeModuleGraph(specifiers)) {
+    imports[specifier] = `data:text/javascript;base64,${Buffer.from(source, 'utf-8').toString('base64')}`;
+  }
+  return imports;
+}
+
+/**
+ * Import map entries pointing at the modules written by copyThreeModules
+ */
+export function localImportMap(): Record<string, string> {
+  return {
+    three: `./${THREE_FOLDER}/build/three.module.js`,
+    'three/examples/jsm/': `./${THREE_FOLDER}/examples/jsm/`
+  };
+}
+
+/**
+ * Import map entries loading the installed version from jsDelivr
+ */
+export function cdnImportMap(): Record<string, string> {
+  return {
+    three: `${THREE_CDN}/build/three.module.js`,
+    'three/examples/jsm/': `${THREE_CDN}/examples/jsm/`
+  };
+}
+
+/**
+ * Write the given modules and their imports below outputDir/THREE_FOLDER,
+ * keeping the package layout so relative imports keep working
+ *
+ * @returns the paths written
+ */
+export function copyThreeModules(specifiers: string[], outputDir: string): string[] {
+  return threeModuleGraph(specifiers).map(({ path }) => {
+    const target = join(outputDir, THREE_FOLDER, path);
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, readFileSync(join(THREE_ROOT, path)));
+    return target;
+  });
+}
+
+/**
+ * Contents of a typeface file from three/examples/fonts
+ */
+export function threeFont(name: string): string {
+  return readFileSync(join(THREE_ROOT, 'examples/fonts', `${name}.typeface.json`), 'utf-8');
+}
@@ -2,6 +2,8 @@
  * DSL Type Definitions for Three.js Scene Generation
  */
 
+import { DSLValidator } from '../dslValidator.js';
+
 export interface Vector3 {
   x: number;
   y: number;
@@ -10,18 +12,168 @@ export interface Vector3 {
 
 export type Vector3Array = [number, number, number];
 
-export interface CameraConfig {
+export type EasingType = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'step';
+
+export type LoopMode = 'once' | 'repeat' | 'pingpong';
+
+export type Axis = 'x' | 'y' | 'z';
+
+export type AnimationAxis = Axis;
+
+export interface Keyframe {
+  /** Seconds from the start of the animation */
+  time: number;
+  /** [x, y, z] for transforms, hex string for color */
+  value: Vector3Array | string;
+}
+
+export interface KeyframeTrack {
+  property: 'position' | 'rotation' | 'scale' | 'color';
+  keyframes: Keyframe[];
+  easing?: EasingType;
+}
+
+export interface KeyframeAnimation {
+  type: 'keyframes';
+  tracks: KeyframeTrack[];
+  /** Defaults to the time of the last keyframe */
+  duration?: number;
+  loop?: LoopMode;
+}
+
+/**
+ * Continuous rotation around a local axis
+ */
+export interface SpinAnimation {
+  type: 'spin';
+  axis?: AnimationAxis;
+  /** Radians per second */
+  speed?: number;
+}
+
+/**
+ * Sinusoidal back-and-forth movement along an axis
+ */
+export interface BobAnimation {
+  type: 'bob';
+  axis?: AnimationAxis;
+  amplitude?: number;
+  /** Cycles per second */
+  frequency?: number;
+}
+
+/**
+ * Circular movement around a center point, starting from the current position
+ */
+export interface OrbitAnimation {
+  type: 'orbit';
+  center?: Vector3Array;
+  axis?: AnimationAxis;
+  /** Defaults to the distance from the center */
+  radius?: number;
+  /** Radians per second */
+  speed?: number;
+}
+
+export type AnimationConfig = KeyframeAnimation | SpinAnimation | BobAnimation | OrbitAnimation;
+
+/**
+ * Point in the scene, or the id of an object whose position is used
+ */
+export type PointReference = Vector3Array | string;
+
+/**
+ * Identity shared by the camera, lights and objects
+ */
+export interface Identified {
+  /**
+   * Unique identifier, assigned by the parser when missing and kept across
+   * refinements. Generated code uses it for variable names.
+   */
+  id?: string;
+  /** Display name set on the generated object; defaults to the id */
+  name?: string;
+}
+
+export interface CameraConfig extends Identified {
   position: Vector3Array;
-  lookAt: Vector3Array;
+  lookAt: PointReference;
   fov?: number;
+  animations?: AnimationConfig[];
+}
+
+/**
+ * Region a light renders its shadow map from. Left, right, top and bottom
+ * bound the orthographic camera of directional lights.
+ */
+export interface ShadowCameraConfig {
+  left?: number;
+  right?: number;
+  top?: number;
+  bottom?: number;
+  near?: number;
+  far?: number;
+}
+
+export interface LightShadowConfig {
+  /** Shadow map width and height in pixels (default 1024) */
+  mapSize?: number;
+  /** Depth offset that removes shadow acne (default -0.0005) */
+  bias?: number;
+  normalBias?: number;
+  /** Blur radius; ignored by the pcfSoft shadow type */
+  radius?: number;
+  camera?: ShadowCameraConfig;
 }
 
-export interface LightConfig {
+export interface LightConfig extends Identified {
   type: 'ambient' | 'directional' | 'point' | 'spot';
   color: string;
   intensity: number;
   position?: Vector3Array;
-  target?: Vector3Array;
+  /** Where directional and spot lights point (default the origin) */
+  target?: PointReference;
+  /** Not available on ambient lights */
+  castShadow?: boolean;
+  shadow?: LightShadowConfig;
+  animations?: AnimationConfig[];
+}
+
+export type ShadowType = 'basic' | 'pcf' | 'pcfSoft' | 'vsm';
+
+/**
+ * Renderer shadow settings; shadows are on whenever a light casts them
+ */
+export interface ShadowSettings {
+  /** Shadow map filtering (default pcfSoft) */
+  type?: ShadowType;
+}
+
+export type MaterialSide = 'front' | 'back' | 'double';
+export type ProceduralTextureType = 'checker' | 'gradient' | 'noise';
+export type GradientDirection = 'horizontal' | 'vertical' | 'radial';
+
+/**
+ * Image for a material texture slot, either a local file or a built-in
+ * procedural pattern. Both are embedded in the output as data URIs.
+ */
+export interface TextureConfig {
+  /** Local .png, .jpg, .webp or .gif path, relative to the asset directory */
+  file?: string;
+  procedural?: ProceduralTextureType;
+  /** Two colors the pattern blends between (default white and black) */
+  colors?: [string, string];
+  /** Generated image size in pixels (default 256) */
+  size?: number;
+  /** Checker squares or noise cells per side (default 8) */
+  scale?: number;
+  /** Noise seed */
+  seed?: number;
+  /** Gradient direction (default vertical) */
+  direction?: GradientDirection;
+  /** Times the image repeats across the surface in u and v */
+  repeat?: [number, number];
+  offset?: [number, number];
 }
 
 export interface MaterialConfig {
@@ -30,47 +182,336 @@ export interface MaterialConfig {
   metalness?: number;
   roughness?: number;
   wireframe?: boolean;
+  /** 0 (invisible) to 1 (opaque); below 1 implies transparent */
+  opacity?: number;
+  transparent?: boolean;
+  /** Color the surface glows with regardless of lighting */
+  emissive?: string;
+  emissiveIntensity?: number;
+  side?: MaterialSide;
+  flatShading?: boolean;
+  map?: TextureConfig;
+  normalMap?: TextureConfig;
+  roughnessMap?: TextureConfig;
+  emissiveMap?: TextureConfig;
 }
 
-export interface ObjectConfig {
-  type: 'cube' | 'sphere' | 'plane' | 'cylinder' | 'cone' | 'torus';
+export type MeshType =
+  | 'cube' | 'sphere' | 'plane' | 'cylinder' | 'cone' | 'torus'
+  | 'capsule' | 'ring' | 'icosahedron' | 'dodecahedron' | 'octahedron'
+  | 'lathe' | 'extrude' | 'tube' | 'text';
+
+/** [x, y] point of a 2D outline */
+export type Vector2Array = [number, number];
+
+/**
+ * 2D outline: a list of points joined by straight lines, or an SVG-like
+ * path string using M, L, H, V, Q, C and Z commands (lowercase relative)
+ */
+export type Outline = Vector2Array[] | string;
+
+export type FontName = 'helvetiker' | 'optimer' | 'gentilis' | 'droid_sans' | 'droid_serif';
+
+export interface MeshConfig extends Identified {
+  type: MeshType;
+  /** Computed from constraints on the axes they set */
   position: Vector3Array;
+  constraints?: ConstraintConfig[];
   rotation?: Vector3Array;
   scale?: Vector3Array;
   material: MaterialConfig;
-  // Geometry-specific properties
+  // Geometry-specific properties, named after the Three.js constructor parameters
   radius?: number;
   width?: number;
   height?: number;
+  /** Cube depth, or how far extrude and text shapes are extruded */
   depth?: number;
+  /** Default for a primitive's own segment counts (sphere, cylinder, cone, lathe) */
   segments?: number;
+  widthSegments?: number;
+  heightSegments?: number;
+  depthSegments?: number;
+  radialSegments?: number;
+  tubularSegments?: number;
+  capSegments?: number;
+  thetaSegments?: number;
+  phiSegments?: number;
+  curveSegments?: number;
+  /** Cylinder radii; both default to radius */
+  radiusTop?: number;
+  radiusBottom?: number;
+  openEnded?: boolean;
+  /** Start angles and sweeps in radians for partial shapes */
+  phiStart?: number;
+  phiLength?: number;
+  thetaStart?: number;
+  thetaLength?: number;
+  /** Torus tube radius (default 0.4 * radius) and sweep */
+  tube?: number;
+  arc?: number;
+  /** Capsule length between the two hemispheres */
+  length?: number;
+  innerRadius?: number;
+  outerRadius?: number;
+  /** Polyhedron subdivision level; higher is rounder */
+  detail?: number;
+  /** Lathe profile, rotated around the Y axis (x is the distance from the axis) */
+  points?: Outline;
+  /** Extrude outline and cut-outs */
+  shape?: Outline;
+  holes?: Outline[];
+  steps?: number;
+  bevelEnabled?: boolean;
+  bevelThickness?: number;
+  bevelSize?: number;
+  bevelOffset?: number;
+  bevelSegments?: number;
+  /** Tube centerline, followed as a Catmull-Rom curve */
+  path?: Vector3Array[];
+  closed?: boolean;
+  /** Text content, font and glyph size */
+  text?: string;
+  font?: FontName;
+  bold?: boolean;
+  size?: number;
+  /** Defaults to true, except on ground */
+  castShadow?: boolean;
+  /** Defaults to true on ground, false elsewhere */
+  receiveShadow?: boolean;
+  /** Marks the floor other objects stand on */
+  ground?: boolean;
+  animations?: AnimationConfig[];
+}
+
+/**
+ * Transform node whose children are positioned relative to it
+ */
+export interface GroupConfig extends Identified {
+  type: 'group';
+  /** Computed from constraints on the axes they set */
+  position: Vector3Array;
+  constraints?: ConstraintConfig[];
+  rotation?: Vector3Array;
+  scale?: Vector3Array;
+  children: ObjectConfig[];
+  animations?: AnimationConfig[];
+}
+
+/**
+ * External model loaded from a local .glb, .gltf or .obj file
+ */
+export interface ModelConfig extends Identified {
+  type: 'model';
+  /** Path relative to the asset directory */
+  file: string;
+  /** Computed from constraints on the axes they set */
+  position: Vector3Array;
+  constraints?: ConstraintConfig[];
+  rotation?: Vector3Array;
+  scale?: Vector3Array;
+  /** Apply to every mesh in the model; by default models cast shadows and do not receive them */
+  castShadow?: boolean;
+  receiveShadow?: boolean;
+  animations?: AnimationConfig[];
+}
+
+/**
+ * Rest the object's bottom on the target's top, centered on it unless
+ * another constraint sets x or z
+ */
+export interface OnTopOfConstraint {
+  type: 'onTopOf';
+  target: string;
+  offset?: Vector3Array;
+}
+
+/**
+ * Put the object beside the target, gap away from it. Left and right are
+ * along x, back and front along z; beside the target it stands on the
+ * same floor, above or below it, it is centered.
+ */
+export interface NextToConstraint {
+  type: 'nextTo';
+  target: string;
+  side: 'left' | 'right' | 'front' | 'back' | 'above' | 'below';
+  /** Space between the two boxes (default 0) */
+  gap?: number;
+  offset?: Vector3Array;
+}
+
+/**
+ * Put the object on the floor of the target's box, centered; it must fit
+ */
+export interface InsideConstraint {
+  type: 'inside';
+  target: string;
+  offset?: Vector3Array;
+}
+
+/**
+ * Line up an edge or the center of the object with the target's along the axes
+ */
+export interface AlignedWithConstraint {
+  type: 'alignedWith';
+  target: string;
+  axes: Axis[];
+  /** Which side of both boxes to line up (default center) */
+  edge?: 'min' | 'center' | 'max';
+  offset?: Vector3Array;
+}
+
+/**
+ * Center the object on the target along the axes (default x and z)
+ */
+export interface CenteredOnConstraint {
+  type: 'centeredOn';
+  target: string;
+  axes?: Axis[];
+  offset?: Vector3Array;
+}
+
+/**
+ * Relationship to another object in the same group (top-level objects
+ * count as one group), or to anything inside one of the group's other
+ * members. Measured between axis-aligned bounding boxes in the group's
+ * space; offset moves the result on the axes the constraint sets.
+ */
+export type ConstraintConfig = OnTopOfConstraint | NextToConstraint | InsideConstraint | AlignedWithConstraint | CenteredOnConstraint;
+
+/**
+ * Copies in a line, starting at the repeat's position
+ */
+export interface LinearLayout {
+  type: 'linear';
+  count: number;
+  /** Offset from one copy to the next */
+  step: Vector3Array;
+}
+
+/**
+ * Copies in rows (x), layers (y) and columns (z), centered on the repeat's position
+ */
+export interface GridLayout {
+  type: 'grid';
+  /** Copies along x, y and z */
+  count: Vector3Array;
+  /** Distance between neighbouring copies along x, y and z */
+  spacing: Vector3Array;
+}
+
+/**
+ * Copies evenly spaced on a circle around the Y axis, in the XZ plane
+ */
+export interface RadialLayout {
+  type: 'radial';
+  count: number;
+  radius: number;
+  /** Angle of the first copy in radians, measured from +Z towards +X (default 0) */
+  startAngle?: number;
+  /** Sweep in radians; a partial arc puts copies at both ends (default a full circle) */
+  arc?: number;
+  /** Turn each copy so its +Z axis points away from the center (default false) */
+  faceOutward?: boolean;
+}
+
+/**
+ * Copies at seeded random positions inside a box or a disc. Copies that
+ * cannot be placed minSpacing apart from the others are left out.
+ */
+export interface ScatterLayout {
+  type: 'scatter';
+  count: number;
+  /** Box centered on the repeat's position; a 0 component keeps copies in a plane */
+  size?: Vector3Array;
+  /** Disc in the XZ plane centered on the repeat's position, instead of a box */
+  radius?: number;
+  /** Smallest distance between two copies (default 0) */
+  minSpacing?: number;
+}
+
+/**
+ * Copies evenly spaced along a Catmull-Rom curve through the points, as tube geometry follows them
+ */
+export interface PathLayout {
+  type: 'path';
+  count: number;
+  points: Vector3Array[];
+  closed?: boolean;
+  /** Turn each copy so its +Z axis follows the curve (default false) */
+  align?: boolean;
+}
+
+export type LayoutConfig = LinearLayout | GridLayout | RadialLayout | ScatterLayout | PathLayout;
+
+/**
+ * Per-copy random variation, each value the largest change in either direction
+ */
+export interface JitterConfig {
+  /** Offset along x, y and z */
+  position?: Vector3Array;
+  /** Rotation in radians about x, y and z */
+  rotation?: Vector3Array;
+  /** Fraction of the size, applied uniformly, e.g. 0.2 for 80% to 120% */
+  scale?: number;
+  /** 0 to 1: change to the saturation and lightness of material colors; the hue changes by a tenth of it */
+  color?: number;
 }
 
+/**
+ * Copies of one object arranged by a layout. The copies are placed relative
+ * to the repeat's transform, each with the object's own transform on top.
+ */
+export interface RepeatConfig extends Identified {
+  type: 'repeat';
+  /** Computed from constraints on the axes they set */
+  position: Vector3Array;
+  constraints?: ConstraintConfig[];
+  rotation?: Vector3Array;
+  scale?: Vector3Array;
+  layout: LayoutConfig;
+  /** What to repeat; ids inside it are not allowed */
+  object: ObjectConfig;
+  jitter?: JitterConfig;
+  /** Seed for scatter positions and jitter (default 1) */
+  seed?: number;
+  animations?: AnimationConfig[];
+}
+
+export type ObjectConfig = MeshConfig | GroupConfig | ModelConfig | RepeatConfig;
+
 export interface SceneDSL {
   camera: CameraConfig;
   lights: LightConfig[];
   objects: ObjectConfig[];
   background?: string;
+  shadows?: ShadowSettings;
+}
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  /** JSON path of the offending value, e.g. objects[3].material.roughness */
+  path: string;
+  severity: ValidationSeverity;
+  message: string;
+}
+
+export type LintRule =
+  | 'intersecting' | 'floating' | 'belowGround' | 'cameraInside' | 'emptyView'
+  | 'offScreen' | 'unlit' | 'lightInside' | 'scale' | 'intensity';
+
+/**
+ * Something in a valid scene that probably looks wrong, found by lintScene
+ */
+export interface LintIssue extends ValidationIssue {
+  rule: LintRule;
 }
 
 /**
  * Validates a scene DSL object
  */
 export function validateDSL(dsl: any): dsl is SceneDSL {
-  if (!dsl || typeof dsl !== 'object') return false;
-  
-  // Check camera
-  if (!dsl.camera || !Array.isArray(dsl.camera.position) || !Array.isArray(dsl.camera.lookAt)) {
-    return false;
-  }
-  
-  // Check lights
-  if (!Array.isArray(dsl.lights)) return false;
-  
-  // Check objects
-  if (!Array.isArray(dsl.objects)) return false;
-  
-  return true;
+  return !new DSLValidator().validate(dsl).some(issue => issue.severity === 'error');
 }
 
 /**
@@ -93,7 +534,8 @@ export function createDefaultDSL(): SceneDSL {
         type: 'directional',
         color: '#ffffff',
         intensity: 0.8,
-        position: [5, 10, 7.5]
+        position: [5, 10, 7.5],
+        castShadow: true
       }
     ],
     objects: [],
@@ -0,0 +1,29 @@
+/**
+ * LLM Provider Type Definitions
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  model: string;
+  temperature?: number;
+  /** Ask the backend to constrain output to a JSON object */
+  json?: boolean;
+}
+
+/**
+ * A chat completion backend that OpenAIService runs on
+ */
+export interface LLMProvider {
+  /** Short identifier used in logs */
+  readonly name: string;
+
+  /**
+   * Return the raw text content of the model's reply
+   */
+  complete(request: CompletionRequest): Promise<string>;
+}
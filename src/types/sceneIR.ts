@@ -0,0 +1,145 @@
+/**
+ * Intermediate representation shared by the code generators
+ *
+ * A SceneIR is a SceneDSL with every default resolved, every object named
+ * and every embedded asset collected, so generators only decide how to
+ * write it out.
+ */
+
+import { AnimationConfig, LightConfig, ShadowCameraConfig, ShadowType, Vector2Array, Vector3Array } from './dsl.js';
+import { GeometrySpec } from '../geometry.js';
+
+export interface SceneIR {
+  background: string;
+  camera: CameraNode;
+  lights: LightNode[];
+  objects: ObjectNode[];
+  /** Shadow map type when any light casts shadows, null when none does */
+  shadowMap: ShadowType | null;
+  /** Distinct texture images, referenced by index from materials */
+  textures: string[];
+  /** Distinct model files, referenced by index from model nodes */
+  models: ModelAsset[];
+  /** Typeface names text geometry needs, e.g. helvetiker_bold */
+  fonts: string[];
+  /** Whether lathe or extrude geometry needs the path helpers */
+  paths: boolean;
+  /** Whether any instanced mesh needs the placeInstances helper */
+  instanced: boolean;
+  animated: boolean;
+}
+
+/**
+ * Identity of a light or object in the generated code
+ */
+export interface Named {
+  /** Unique identifier the code declares, the DSL id where it can be used as one */
+  varName: string;
+  /** Name given to the Three.js object: the DSL name, else its id */
+  name: string;
+}
+
+export interface CameraNode {
+  name: string;
+  fov: number;
+  position: Vector3Array;
+  /** Resolved to coordinates when the DSL names an object */
+  lookAt: Vector3Array;
+  animations: AnimationConfig[];
+}
+
+export interface LightNode extends Named {
+  type: LightConfig['type'];
+  color: string;
+  intensity: number;
+  /** null for ambient lights */
+  position: Vector3Array | null;
+  /** Point a directional or spot light aims at, null for the default (the origin) */
+  target: Vector3Array | null;
+  shadow: LightShadowNode | null;
+  animations: AnimationConfig[];
+}
+
+export interface LightShadowNode {
+  mapSize: number;
+  bias: number;
+  normalBias?: number;
+  radius?: number;
+  /** Shadow camera bounds to set, in the order they are written */
+  camera: Partial<ShadowCameraConfig>;
+}
+
+export interface Transform {
+  position: Vector3Array;
+  rotation: Vector3Array;
+  scale: Vector3Array;
+}
+
+export interface MeshNode extends Transform, Named {
+  kind: 'mesh';
+  geometry: GeometrySpec;
+  material: MaterialNode;
+  castShadow: boolean;
+  receiveShadow: boolean;
+  animations: AnimationConfig[];
+}
+
+export interface GroupNode extends Transform, Named {
+  kind: 'group';
+  children: ObjectNode[];
+  animations: AnimationConfig[];
+}
+
+export interface ModelNode extends Transform, Named {
+  kind: 'model';
+  /** Index into SceneIR.models */
+  model: number;
+  castShadow: boolean;
+  receiveShadow: boolean;
+  animations: AnimationConfig[];
+}
+
+/**
+ * Copies of one mesh drawn as a THREE.InstancedMesh, which has the repeat's transform
+ */
+export interface InstancedMeshNode extends Transform, Named {
+  kind: 'instanced';
+  geometry: GeometrySpec;
+  /** White when the instances have their own colors, which Three.js multiplies it by */
+  material: MaterialNode;
+  instances: InstanceNode[];
+  castShadow: boolean;
+  receiveShadow: boolean;
+  animations: AnimationConfig[];
+}
+
+export interface InstanceNode extends Transform {
+  /** null when every instance shows the material color */
+  color: string | null;
+}
+
+export type ObjectNode = MeshNode | GroupNode | ModelNode | InstancedMeshNode;
+
+/**
+ * A Three.js material class and the constructor parameters to pass it
+ */
+export interface MaterialNode {
+  className: 'MeshBasicMaterial' | 'MeshStandardMaterial' | 'MeshPhongMaterial' | 'MeshLambertMaterial';
+  /** Parameters in the order they are written */
+  params: [string, MaterialValue][];
+}
+
+export type MaterialValue =
+  | { kind: 'color'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'boolean'; value: boolean }
+  /** A THREE constant, e.g. DoubleSide */
+  | { kind: 'constant'; name: string }
+  | { kind: 'texture'; image: number; repeat: Vector2Array; offset: Vector2Array; isColor: boolean };
+
+export interface ModelAsset {
+  file: string;
+  /** Data URI or URL relative to the page */
+  url: string;
+  loader: 'gltf' | 'obj';
+}